@@ -21,8 +21,25 @@ const parseConfigurationFile = (fileName: string) => {
 export const CONFIG = {
 	/// Look for events every 1s
 	POLLING_INTERVAL_MS: 1000,
+	/// Upper bound for the exponential backoff applied to failing event trackers
+	MAX_BACKOFF_MS: 60_000,
+	/// A tracker without a successful poll for longer than this is reported as unhealthy
+	HEALTH_MAX_LAG_MS: 30_000,
 	DEFAULT_LIMIT: 50,
+	/// Trackers commit their pages in parallel, so an `Event` id can become visible after higher ids.
+	/// The change stream re-reads this many ids below the latest it streamed, to catch them.
+	STREAM_OVERLAP_EVENTS: 500,
+	/// How often the keeper looks for timed-out objects to reclaim
+	KEEPER_INTERVAL_MS: Number(process.env.KEEPER_INTERVAL_MS) || 60_000,
+	/// The most objects the keeper reclaims per run
+	KEEPER_MAX_RECLAIMS_PER_RUN: Number(process.env.KEEPER_MAX_RECLAIMS_PER_RUN) || 10,
+	/// The keeper stops retrying an object after this many failed reclaims
+	KEEPER_MAX_ATTEMPTS: 3,
+	/// The addresses the keeper reclaims for (comma-separated). Defaults to the active address of system's sui.
+	KEEPER_OPERATORS: (process.env.KEEPER_OPERATORS || '').split(',').filter(Boolean),
 	NETWORK: (process.env.NETWORK as Network) || 'testnet',
+	/// The database the Prisma client was generated for (see `prisma/postgres/schema.prisma`)
+	DB_PROVIDER: (process.env.DB_PROVIDER as 'sqlite' | 'postgres') || 'sqlite',
 	SWAP_CONTRACT: parseConfigurationFile('escrow-contract'),
 	DEMO_CONTRACT: parseConfigurationFile('demo-contract'),
 };
@@ -4,6 +4,7 @@
 import { Transaction } from '@mysten/sui/transactions';
 
 import { CONFIG } from '../config';
+import { lock } from '../sdk';
 import { ACTIVE_NETWORK, getActiveAddress, signAndExecute } from '../sui-utils';
 
 // a simple example of objects by creating N amount of bears.
@@ -26,19 +27,11 @@ const createDemoLockedObjects = async (totalBears: number) => {
 			continue;
 		}
 
-		const [locked, key] = txb.moveCall({
-			target: `${CONFIG.SWAP_CONTRACT.packageId}::lock::lock`,
-			arguments: [bear],
-			typeArguments: [DEMO_BEAR_TYPE],
-		});
+		const [locked, key] = lock.lock(txb, CONFIG.SWAP_CONTRACT.packageId, { obj: bear }, DEMO_BEAR_TYPE);
 
 		// Let's unlock half of them, to catch some destroy events on our API.
 		if (i % 2 === 0) {
-			const item = txb.moveCall({
-				target: `${CONFIG.SWAP_CONTRACT.packageId}::lock::unlock`,
-				arguments: [locked, key],
-				typeArguments: [DEMO_BEAR_TYPE],
-			});
+			const item = lock.unlock(txb, CONFIG.SWAP_CONTRACT.packageId, { locked, key }, DEMO_BEAR_TYPE);
 			toTransfer.push(item);
 			continue;
 		}
@@ -4,6 +4,7 @@
 import { Transaction } from '@mysten/sui/transactions';
 
 import { CONFIG } from '../config';
+import { shared } from '../sdk';
 import { getActiveAddress, getClient, signAndExecute } from '../sui-utils';
 
 /// A sample on how we could fetch our owned bears that we created.
@@ -83,15 +84,16 @@ const createEscrows = async (total: number) => {
 		if (!tuple.bear) break;
 		if (!tuple.bear.objectId) throw new Error('bear.objectId is not defined. Does not make sense!');
 
-		txb.moveCall({
-			target: `${CONFIG.SWAP_CONTRACT.packageId}::shared::create`,
-			arguments: [
-				txb.object(tuple.bear.objectId),
-				txb.pure.address(tuple.locked.key),
-				txb.pure.address(getActiveAddress()),
-			],
-			typeArguments: [tuple.bear.type!],
-		});
+		shared.create(
+			txb,
+			CONFIG.SWAP_CONTRACT.packageId,
+			{
+				escrowed: tuple.bear.objectId,
+				exchangeKey: tuple.locked.key,
+				recipient: getActiveAddress(),
+			},
+			tuple.bear.type!,
+		);
 	}
 
 	const res = await signAndExecute(txb, CONFIG.NETWORK);
@@ -4,10 +4,11 @@
 import { Transaction } from '@mysten/sui/transactions';
 import { SuiClient } from '@mysten/sui/client';
 import crypto from 'crypto';
-import { keccak256 } from 'js-sha3';
 
 import { CONFIG } from '../config';
+import { hashlock, hashSecret, Secret, secretToBytes } from '../sdk';
 import { getActiveAddress, signAndExecute } from '../sui-utils';
+import { buildCreateHashlockEscrowTransaction, buildRevealTransaction } from '../utils/tx-builders';
 
 /**
  * Creates a hashlock escrow with a secret commitment
@@ -17,27 +18,21 @@ export const createHashlockEscrow = async (params: {
 	objectType: string;
 	exchangeKeyId: string;
 	recipient: string;
-	secret: string;
+	secret: Secret;
 	timeoutMs: number;
 }) => {
 	const { objectId, objectType, exchangeKeyId, recipient, secret, timeoutMs } = params;
 	
 	// Create hash commitment from secret using keccak256 (same as Move contract)
-	const hashCommitment = Buffer.from(keccak256(secret), 'hex');
+	const hashCommitment = hashSecret(secret);
 
-	const txb = new Transaction();
-
-	txb.moveCall({
-		target: `${CONFIG.SWAP_CONTRACT.packageId}::hashlock_shared::create_hashlock_escrow_with_duration`,
-		arguments: [
-			txb.object(objectId),
-			txb.pure.id(exchangeKeyId),
-			txb.pure.address(recipient),
-			txb.pure.vector('u8', Array.from(hashCommitment)),
-			txb.pure.u64(timeoutMs),
-			txb.object('0x6'), // Clock object
-		],
-		typeArguments: [objectType],
+	const txb = buildCreateHashlockEscrowTransaction({
+		objectId,
+		itemType: objectType,
+		keyId: exchangeKeyId,
+		recipient,
+		hashCommitment: Array.from(hashCommitment),
+		timeoutMs,
 	});
 
 	const result = await signAndExecute(txb, CONFIG.NETWORK);
@@ -58,22 +53,18 @@ export const revealSecretAndSwap = async (params: {
 	keyId: string;
 	lockedObjectId: string;
 	lockedObjectType: string;
-	secret: string;
+	secret: Secret;
 }) => {
 	const { escrowId, escrowType, keyId, lockedObjectId, lockedObjectType, secret } = params;
 
-	const txb = new Transaction();
-
-	txb.moveCall({
-		target: `${CONFIG.SWAP_CONTRACT.packageId}::hashlock_shared::swap_with_secret`,
-		arguments: [
-			txb.object(escrowId),
-			txb.object(keyId),
-			txb.object(lockedObjectId),
-			txb.pure.vector('u8', Array.from(Buffer.from(secret))),
-			txb.object('0x6'), // Clock object
-		],
-		typeArguments: [escrowType, lockedObjectType],
+	const txb = buildRevealTransaction({
+		sender: getActiveAddress(),
+		escrowId,
+		lockedId: lockedObjectId,
+		keyId,
+		escrowType,
+		lockedType: lockedObjectType,
+		secret: Array.from(secretToBytes(secret)),
 	});
 
 	return signAndExecute(txb, CONFIG.NETWORK);
@@ -86,30 +77,25 @@ export const createHashlock = async (params: {
 	objectId: string;
 	objectType: string;
 	recipient: string;
-	secret: string;
+	secret: Secret;
 	timeoutMs: number;
 }) => {
 	const { objectId, objectType, recipient, secret, timeoutMs } = params;
 	
 	// Create hash commitment from secret using keccak256 (same as Move contract)
-	const hashCommitment = Buffer.from(keccak256(secret), 'hex');
+	const hashCommitment = hashSecret(secret);
 
 	const txb = new Transaction();
 
-	const hashlock = txb.moveCall({
-		target: `${CONFIG.SWAP_CONTRACT.packageId}::hashlock::create_hashlock_with_duration`,
-		arguments: [
-			txb.object(objectId),
-			txb.pure.vector('u8', Array.from(hashCommitment)),
-			txb.pure.address(recipient),
-			txb.pure.u64(timeoutMs),
-			txb.object('0x6'), // Clock object
-		],
-		typeArguments: [objectType],
-	});
+	const hashlocked = hashlock.createHashlockWithDuration(
+		txb,
+		CONFIG.SWAP_CONTRACT.packageId,
+		{ obj: objectId, hashCommitment, recipient, timeoutDuration: timeoutMs },
+		objectType,
+	);
 
 	// Transfer the hashlock to the sender for storage
-	txb.transferObjects([hashlock], txb.pure.address(getActiveAddress()));
+	txb.transferObjects([hashlocked], txb.pure.address(getActiveAddress()));
 
 	const result = await signAndExecute(txb, CONFIG.NETWORK);
 	
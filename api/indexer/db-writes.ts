@@ -0,0 +1,122 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { Prisma } from '@prisma/client';
+
+import { CONFIG } from '../config';
+
+/// Flags that only ever go from `false` to `true`, so a stale write can never reset them.
+const FLAG_COLUMNS = ['deleted', 'swapped', 'cancelled', 'isHashlock'];
+const TIMESTAMP_COLUMNS = ['createdAt', 'expiresAt', 'completedAt', 'timestamp'];
+
+const quote = (identifier: string) => Prisma.raw(`"${identifier}"`);
+
+/// Casts a value to its column type, so Postgres doesn't have to infer it from (possibly null) params.
+const castValue = (column: string, value: unknown) => {
+	if (FLAG_COLUMNS.includes(column)) return Prisma.sql`${value ?? false}::boolean`;
+	// Prisma stores `DateTime` as UTC in `timestamp(3)` columns.
+	if (TIMESTAMP_COLUMNS.includes(column))
+		return Prisma.sql`${value instanceof Date ? value.toISOString() : null}::timestamp(3)`;
+	return Prisma.sql`${value ?? null}::text`;
+};
+
+/**
+ * Builds a single `INSERT ... ON CONFLICT` statement for a batch of rows (Postgres only).
+ * Values that are missing in a row never overwrite existing data, and flags are merged with `OR`,
+ * matching the semantics of the per-row `upsert` calls we do on SQLite.
+ */
+const bulkUpsert = (
+	db: Prisma.TransactionClient,
+	table: string,
+	rows: Record<string, unknown>[],
+	conflictTarget: string[],
+) => {
+	const columns = [
+		...new Set(rows.flatMap((row) => Object.keys(row).filter((key) => row[key] !== undefined))),
+	];
+
+	const values = rows.map(
+		(row) => Prisma.sql`(${Prisma.join(columns.map((column) => castValue(column, row[column])))})`,
+	);
+
+	const updates = columns
+		.filter((column) => !conflictTarget.includes(column))
+		.map((column) =>
+			FLAG_COLUMNS.includes(column)
+				? Prisma.sql`${quote(column)} = ${quote(table)}.${quote(column)} OR EXCLUDED.${quote(column)}`
+				: Prisma.sql`${quote(column)} = COALESCE(EXCLUDED.${quote(column)}, ${quote(table)}.${quote(column)})`,
+		);
+
+	return db.$executeRaw`INSERT INTO ${quote(table)} (${Prisma.join(columns.map(quote))})
+		VALUES ${Prisma.join(values)}
+		ON CONFLICT (${Prisma.join(conflictTarget.map(quote))})
+		DO ${updates.length > 0 ? Prisma.sql`UPDATE SET ${Prisma.join(updates)}` : Prisma.sql`NOTHING`}`;
+};
+
+/// Drops `false` flags from an update, so it can only ever set them (same as the `OR` merge on Postgres).
+const withoutUnsetFlags = <T extends Record<string, unknown>>(row: T) =>
+	Object.fromEntries(
+		Object.entries(row).filter(([key, value]) => !(FLAG_COLUMNS.includes(key) && value === false)),
+	) as T;
+
+//  On SQLite (our default for local development), Prisma does not support bulk insertion & conflict handling,
+//  so we have to insert records 1 by 1 (resulting in multiple round-trips to the database).
+//  On Postgres, we write each batch with a single bulk `INSERT ... ON CONFLICT` query.
+//  Every function receives the transaction client the batch is written with.
+
+export const upsertLocked = async (db: Prisma.TransactionClient, rows: Prisma.LockedCreateInput[]) => {
+	if (rows.length === 0) return;
+	if (CONFIG.DB_PROVIDER === 'postgres') {
+		await bulkUpsert(db, 'Locked', rows, ['objectId']);
+		return;
+	}
+
+	for (const row of rows) {
+		await db.locked.upsert({
+			where: {
+				objectId: row.objectId,
+			},
+			create: row,
+			update: withoutUnsetFlags(row),
+		});
+	}
+};
+
+export const upsertEscrows = async (db: Prisma.TransactionClient, rows: Prisma.EscrowCreateInput[]) => {
+	if (rows.length === 0) return;
+	if (CONFIG.DB_PROVIDER === 'postgres') {
+		await bulkUpsert(db, 'Escrow', rows, ['objectId']);
+		return;
+	}
+
+	for (const row of rows) {
+		await db.escrow.upsert({
+			where: {
+				objectId: row.objectId,
+			},
+			create: row,
+			update: withoutUnsetFlags(row),
+		});
+	}
+};
+
+/// Event log entries are immutable, so existing entries are left untouched.
+export const insertEvents = async (db: Prisma.TransactionClient, rows: Prisma.EventCreateInput[]) => {
+	if (rows.length === 0) return;
+	if (CONFIG.DB_PROVIDER === 'postgres') {
+		await bulkUpsert(db, 'Event', rows, ['txDigest', 'eventSeq']);
+		return;
+	}
+
+	for (const row of rows) {
+		await db.event.upsert({
+			where: {
+				txDigest_eventSeq: {
+					txDigest: row.txDigest,
+					eventSeq: row.eventSeq,
+				},
+			},
+			create: row,
+			update: {},
+		});
+	}
+};
@@ -0,0 +1,49 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * - `transient` errors (network issues, rate limits, a busy database) are retried with backoff.
+ * - `fatal` errors (a pruned / unknown cursor, invalid events) will fail again on every retry,
+ *   so the tracker stops until someone fixes the issue (usually by re-indexing it).
+ */
+export type IndexerErrorKind = 'transient' | 'fatal';
+
+/// Thrown by handlers when they receive data they can never process.
+export class FatalIndexerError extends Error {}
+
+/// JSON-RPC `Invalid params`, returned (among others) when the cursor points to an unknown event.
+const INVALID_PARAMS_CODE = -32602;
+
+/// Prisma errors caused by connectivity / locking issues.
+const TRANSIENT_PRISMA_CODES = ['P1001', 'P1002', 'P1008', 'P1017', 'P2024', 'P2034'];
+
+/// Errors are matched by name rather than `instanceof`: the indexers sharing this module
+/// (see `event-loop.ts`) each load their own copies of `@mysten/sui` & `@prisma/client`.
+const isErrorNamed = (e: unknown, name: string): e is Error & Record<string, any> =>
+	e instanceof Error && (e.name === name || e.constructor.name === name);
+
+export const classifyError = (e: unknown): IndexerErrorKind => {
+	if (e instanceof FatalIndexerError) return 'fatal';
+
+	if (isErrorNamed(e, 'JsonRpcError')) {
+		if (e.code === INVALID_PARAMS_CODE) return 'fatal';
+		// e.g. `Could not find the referenced transaction events` for a pruned cursor.
+		if (/could not find|not found/i.test(e.message)) return 'fatal';
+		return 'transient';
+	}
+
+	if (isErrorNamed(e, 'SuiHTTPStatusError')) {
+		// Rate limits & server errors are retried, other client errors won't resolve by themselves.
+		return e.status === 429 || e.status >= 500 ? 'transient' : 'fatal';
+	}
+
+	if (isErrorNamed(e, 'PrismaClientKnownRequestError')) {
+		return TRANSIENT_PRISMA_CODES.includes(e.code) ? 'transient' : 'fatal';
+	}
+
+	if (isErrorNamed(e, 'PrismaClientValidationError')) return 'fatal';
+
+	// Network failures (`fetch failed`, ECONNRESET, timeouts) and anything unexpected
+	// are retried, as they usually resolve by themselves.
+	return 'transient';
+};
@@ -3,7 +3,9 @@
 import { SuiEvent } from '@mysten/sui/client';
 import { Prisma } from '@prisma/client';
 
-import { prisma } from '../db';
+import { upsertEscrows } from './db-writes';
+import { FatalIndexerError } from './errors';
+import { eventTimestamp, msToDate } from './event-utils';
 
 type EscrowEvent = EscrowCreated | EscrowCancelled | EscrowSwapped | HashlockEscrowCreated | SecretRevealed;
 
@@ -13,6 +15,9 @@ type EscrowCreated = {
 	escrow_id: string;
 	key_id: string;
 	item_id: string;
+	// Only emitted by the `owned` module
+	escrowed_key?: string;
+	custodian?: string;
 };
 
 type EscrowSwapped = {
@@ -42,22 +47,28 @@ type SecretRevealed = {
 };
 
 /**
- * Handles all events emitted by the `escrow` module.
+ * Handles all events emitted by the `shared` and `owned` escrow modules.
  * Data is modelled in a way that allows writing to the db in any order (DESC or ASC) without
  * resulting in data incosistencies.
  * We're constructing the updates to support multiple events involving a single record
  * as part of the same batch of events (but using a single write/record to the DB).
  * */
-export const handleEscrowObjects = async (events: SuiEvent[], type: string) => {
+export const handleEscrowObjects = async (
+	events: SuiEvent[],
+	type: string,
+	db: Prisma.TransactionClient,
+) => {
 	const updates: Record<string, Prisma.EscrowCreateInput> = {};
+	const module = type.split('::')[1];
 
 	for (const event of events) {
-		if (!event.type.startsWith(type)) throw new Error('Invalid event module origin');
+		if (!event.type.startsWith(type)) throw new FatalIndexerError('Invalid event module origin');
 		const data = event.parsedJson as EscrowEvent;
 
 		if (!Object.hasOwn(updates, data.escrow_id)) {
 			updates[data.escrow_id] = {
 				objectId: data.escrow_id,
+				module,
 			};
 		}
 
@@ -65,6 +76,8 @@ export const handleEscrowObjects = async (events: SuiEvent[], type: string) => {
 		if (event.type.endsWith('::EscrowCancelled') || event.type.endsWith('::HashlockEscrowCancelled')) {
 			const data = event.parsedJson as EscrowCancelled;
 			updates[data.escrow_id].cancelled = true;
+			updates[data.escrow_id].completedAt = eventTimestamp(event);
+			updates[data.escrow_id].completedTxDigest = event.id.txDigest;
 			continue;
 		}
 
@@ -72,6 +85,8 @@ export const handleEscrowObjects = async (events: SuiEvent[], type: string) => {
 		if (event.type.endsWith('::EscrowSwapped') || event.type.endsWith('::HashlockEscrowSwapped')) {
 			const data = event.parsedJson as EscrowSwapped;
 			updates[data.escrow_id].swapped = true;
+			updates[data.escrow_id].completedAt = eventTimestamp(event);
+			updates[data.escrow_id].completedTxDigest = event.id.txDigest;
 			continue;
 		}
 
@@ -92,6 +107,9 @@ export const handleEscrowObjects = async (events: SuiEvent[], type: string) => {
 			updates[data.escrow_id].isHashlock = true;
 			updates[data.escrow_id].hashCommitment = Buffer.from(creationData.hash_commitment).toString('hex');
 			updates[data.escrow_id].timeoutMs = creationData.expires_at;
+			updates[data.escrow_id].createdAt = msToDate(creationData.created_at);
+			updates[data.escrow_id].expiresAt = msToDate(creationData.expires_at);
+			updates[data.escrow_id].createdTxDigest = event.id.txDigest;
 			continue;
 		}
 
@@ -101,20 +119,12 @@ export const handleEscrowObjects = async (events: SuiEvent[], type: string) => {
 		updates[data.escrow_id].recipient = creationData.recipient;
 		updates[data.escrow_id].keyId = creationData.key_id;
 		updates[data.escrow_id].itemId = creationData.item_id;
+		updates[data.escrow_id].escrowedKey = creationData.escrowed_key;
+		updates[data.escrow_id].custodian = creationData.custodian;
+		updates[data.escrow_id].createdAt = eventTimestamp(event);
+		updates[data.escrow_id].createdTxDigest = event.id.txDigest;
 	}
 
-	//  As part of the demo and to avoid having external dependencies, we use SQLite as our database.
-	// 	Prisma + SQLite does not support bulk insertion & conflict handling, so we have to insert these 1 by 1
-	// 	(resulting in multiple round-trips to the database).
-	//  Always use a single `bulkInsert` query with proper `onConflict` handling in production databases (e.g Postgres)
-	const promises = Object.values(updates).map((update) =>
-		prisma.escrow.upsert({
-			where: {
-				objectId: update.objectId,
-			},
-			create: update,
-			update,
-		}),
-	);
-	await Promise.all(promises);
+	// See `db-writes.ts` for the SQLite / Postgres strategies.
+	await upsertEscrows(db, Object.values(updates));
 };
@@ -2,29 +2,27 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { EventId, SuiClient, SuiEvent, SuiEventFilter } from '@mysten/sui/client';
+import { Prisma } from '@prisma/client';
 
 import { CONFIG } from '../config';
 import { prisma } from '../db';
 import { getClient } from '../sui-utils';
 import { handleEscrowObjects } from './escrow-handler';
+import { EventExecutionResult, EventJob, executeEventJob, runEventJob } from './event-loop';
+import { handleEventLog } from './event-log-handler';
 import { handleLockObjects } from './locked-handler';
 import { handleHashlockObjects } from './hashlock-handler';
+import { handleItemMetadata } from './item-metadata';
 
-type SuiEventsCursor = EventId | null | undefined;
-
-type EventExecutionResult = {
-	cursor: SuiEventsCursor;
-	hasNextPage: boolean;
-};
-
-type EventTracker = {
+export type EventTracker = {
 	// The module that defines the type, with format `package::module`
 	type: string;
 	filter: SuiEventFilter;
-	callback: (events: SuiEvent[], type: string) => any;
+	// Writes the events' changes using the transaction client of the batch
+	callback: (events: SuiEvent[], type: string, db: Prisma.TransactionClient) => Promise<void>;
 };
 
-const EVENTS_TO_TRACK: EventTracker[] = [
+export const EVENTS_TO_TRACK: EventTracker[] = [
 	{
 		type: `${CONFIG.SWAP_CONTRACT.packageId}::lock`,
 		filter: {
@@ -45,6 +43,16 @@ const EVENTS_TO_TRACK: EventTracker[] = [
 		},
 		callback: handleEscrowObjects,
 	},
+	{
+		type: `${CONFIG.SWAP_CONTRACT.packageId}::owned`,
+		filter: {
+			MoveEventModule: {
+				module: 'owned',
+				package: CONFIG.SWAP_CONTRACT.packageId,
+			},
+		},
+		callback: handleEscrowObjects,
+	},
 	{
 		type: `${CONFIG.SWAP_CONTRACT.packageId}::hashlock_shared`,
 		filter: {
@@ -55,6 +63,16 @@ const EVENTS_TO_TRACK: EventTracker[] = [
 		},
 		callback: handleHashlockObjects,
 	},
+	{
+		type: `${CONFIG.SWAP_CONTRACT.packageId}::hashlock_owned`,
+		filter: {
+			MoveEventModule: {
+				module: 'hashlock_owned',
+				package: CONFIG.SWAP_CONTRACT.packageId,
+			},
+		},
+		callback: handleHashlockObjects,
+	},
 	{
 		type: `${CONFIG.SWAP_CONTRACT.packageId}::hashlock`,
 		filter: {
@@ -67,53 +85,108 @@ const EVENTS_TO_TRACK: EventTracker[] = [
 	},
 ];
 
-const executeEventJob = async (
-	client: SuiClient,
-	tracker: EventTracker,
-	cursor: SuiEventsCursor,
-): Promise<EventExecutionResult> => {
-	try {
-		// get the events from the chain.
-		// For this implementation, we are going from start to finish.
-		// This will also allow filling in a database from scratch!
-		const { data, hasNextPage, nextCursor } = await client.queryEvents({
-			query: tracker.filter,
-			cursor,
-			order: 'ascending',
-		});
+/// Runs a tracker with the shared event loop: each page is written together with its
+/// event log entries & the tracker's cursor, then the items' metadata is resolved.
+const toEventJob = (client: SuiClient, tracker: EventTracker): EventJob => ({
+	name: tracker.type,
+	filter: tracker.filter,
+	commit: (data, nextCursor) =>
+		prisma.$transaction(
+			async (db) => {
+				// Events already in the log have been applied, so a replayed page is skipped.
+				const events = await filterProcessedEvents(db, data);
 
-		// handle the data transformations defined for each event
-		await tracker.callback(data, tracker.type);
+				// handle the data transformations defined for each event
+				await tracker.callback(events, tracker.type, db);
+				// keep the raw history of every processed event
+				await handleEventLog(events, db);
+				await saveLatestCursor(tracker, nextCursor, db);
 
-		// We only update the cursor if we fetched extra data (which means there was a change).
-		if (nextCursor && data.length > 0) {
-			await saveLatestCursor(tracker, nextCursor);
+				return events;
+			},
+			// SQLite writes records one by one, which can take a while for a full page.
+			{ timeout: 30_000 },
+		),
+	// resolve the types & display data of the items, outside of the transaction.
+	afterCommit: (events) => handleItemMetadata(client, events),
+	onResult: (result) => saveTrackerStatus(tracker, result),
+	reindexCommand: `pnpm reindex ${getTrackerModule(tracker)}`,
+});
 
-			return {
-				cursor: nextCursor,
-				hasNextPage,
-			};
-		}
-	} catch (e) {
-		console.error(e);
-	}
-	// By default, we return the same cursor as passed in.
-	return {
-		cursor,
-		hasNextPage: false,
-	};
+const POLLING_OPTIONS = {
+	intervalMs: CONFIG.POLLING_INTERVAL_MS,
+	maxBackoffMs: CONFIG.MAX_BACKOFF_MS,
 };
 
-const runEventJob = async (client: SuiClient, tracker: EventTracker, cursor: SuiEventsCursor) => {
-	const result = await executeEventJob(client, tracker, cursor);
+/// The module a tracker follows (trackers are keyed as `package::module`).
+const getTrackerModule = (tracker: EventTracker) => tracker.type.split('::')[1];
+
+/**
+ * Deletes everything a tracker has indexed (its rows, its event log and its cursor),
+ * so it can start again from genesis.
+ */
+const wipeTrackerData = async (tracker: EventTracker) => {
+	const module = getTrackerModule(tracker);
+
+	return prisma.$transaction([
+		prisma.cursor.deleteMany({ where: { id: tracker.type } }),
+		prisma.indexerStatus.deleteMany({ where: { id: tracker.type } }),
+		prisma.escrow.deleteMany({ where: { module } }),
+		prisma.locked.deleteMany({ where: { module } }),
+		prisma.event.deleteMany({ where: { module } }),
+	]);
+};
 
-	// Trigger a timeout. Depending on the result, we either wait 0ms or the polling interval.
-	setTimeout(
-		() => {
-			runEventJob(client, tracker, result.cursor);
+/**
+ * Cursors are keyed by `package::module`, so when `CONFIG.SWAP_CONTRACT.packageId` changes,
+ * every tracker starts from scratch under a new cursor key.
+ * Data indexed from the previous package no longer matches the contract we serve,
+ * so we wipe it together with the stale cursors.
+ */
+const handlePackageChange = async () => {
+	const staleCursors = await prisma.cursor.findMany({
+		where: {
+			NOT: { id: { startsWith: `${CONFIG.SWAP_CONTRACT.packageId}::` } },
 		},
-		result.hasNextPage ? 0 : CONFIG.POLLING_INTERVAL_MS,
+	});
+	if (staleCursors.length === 0) return;
+
+	const previousPackages = [...new Set(staleCursors.map((cursor) => cursor.id.split('::')[0]))];
+	console.warn(
+		`Package ID changed (${previousPackages.join(', ')} -> ${CONFIG.SWAP_CONTRACT.packageId}). Re-indexing from scratch.`,
 	);
+
+	await prisma.$transaction([
+		prisma.cursor.deleteMany({ where: { id: { in: staleCursors.map((cursor) => cursor.id) } } }),
+		prisma.indexerStatus.deleteMany({
+			where: { NOT: { id: { startsWith: `${CONFIG.SWAP_CONTRACT.packageId}::` } } },
+		}),
+		prisma.escrow.deleteMany(),
+		prisma.locked.deleteMany(),
+		prisma.event.deleteMany(),
+	]);
+};
+
+/**
+ * Wipes the data of the tracker following `module` and rebuilds it from genesis.
+ * Resolves once the tracker has caught up with the chain.
+ * The indexer must not be running while re-indexing.
+ */
+export const reindexTracker = async (module: string) => {
+	const tracker = EVENTS_TO_TRACK.find((tracker) => getTrackerModule(tracker) === module);
+	if (!tracker) throw new Error(`No tracker found for module \`${module}\``);
+
+	await wipeTrackerData(tracker);
+
+	const client = getClient(CONFIG.NETWORK);
+	const job = toEventJob(client, tracker);
+	let result: EventExecutionResult = { cursor: undefined, hasNextPage: true, eventsProcessed: 0 };
+
+	while (result.hasNextPage) {
+		result = await executeEventJob(client, job, result.cursor);
+		await saveTrackerStatus(tracker, result);
+		if (result.error) throw new Error(`Re-indexing \`${module}\` failed (${result.error} error)`);
+	}
 };
 
 /**
@@ -134,13 +207,17 @@ const getLatestCursor = async (tracker: EventTracker) => {
  * Saves the latest cursor for an event tracker to the db, so we can resume
  * from there.
  * */
-const saveLatestCursor = async (tracker: EventTracker, cursor: EventId) => {
+const saveLatestCursor = async (
+	tracker: EventTracker,
+	cursor: EventId,
+	db: Prisma.TransactionClient,
+) => {
 	const data = {
 		eventSeq: cursor.eventSeq,
 		txDigest: cursor.txDigest,
 	};
 
-	return prisma.cursor.upsert({
+	return db.cursor.upsert({
 		where: {
 			id: tracker.type,
 		},
@@ -149,10 +226,75 @@ const saveLatestCursor = async (tracker: EventTracker, cursor: EventId) => {
 	});
 };
 
+/**
+ * Filters out events that were already applied (they're recorded in the event log
+ * in the same transaction as their data writes).
+ * */
+const filterProcessedEvents = async (db: Prisma.TransactionClient, events: SuiEvent[]) => {
+	const processed = await db.event.findMany({
+		where: {
+			OR: events.map((event) => ({ txDigest: event.id.txDigest, eventSeq: event.id.eventSeq })),
+		},
+		select: { txDigest: true, eventSeq: true },
+	});
+	const processedIds = new Set(processed.map((event) => `${event.txDigest}:${event.eventSeq}`));
+
+	return events.filter((event) => !processedIds.has(`${event.id.txDigest}:${event.id.eventSeq}`));
+};
+
+/**
+ * Records the outcome of a job for the tracker, so the API (running as a separate process)
+ * can report the indexer's health.
+ * */
+const saveTrackerStatus = async (tracker: EventTracker, result: EventExecutionResult) => {
+	const now = new Date();
+
+	try {
+		await prisma.indexerStatus.upsert({
+			where: {
+				id: tracker.type,
+			},
+			create: {
+				id: tracker.type,
+				lastPollAt: now,
+				lastSuccessAt: result.error ? undefined : now,
+				eventsProcessed: result.eventsProcessed,
+				errorCount: result.error ? 1 : 0,
+				consecutiveErrors: result.error ? 1 : 0,
+				lastError: result.errorMessage,
+				lastErrorAt: result.error ? now : undefined,
+				stopped: result.error === 'fatal',
+			},
+			update: result.error
+				? {
+						lastPollAt: now,
+						errorCount: { increment: 1 },
+						consecutiveErrors: { increment: 1 },
+						lastError: result.errorMessage,
+						lastErrorAt: now,
+						stopped: result.error === 'fatal',
+					}
+				: {
+						lastPollAt: now,
+						lastSuccessAt: now,
+						eventsProcessed: { increment: result.eventsProcessed },
+						consecutiveErrors: 0,
+						stopped: false,
+					},
+		});
+	} catch (e) {
+		// Failing to record the status should never stop the indexer.
+		console.error(e);
+	}
+};
+
 /// Sets up all the listeners for the events we want to track.
 /// They are polling the RPC endpoint every second.
 export const setupListeners = async () => {
-	for (const event of EVENTS_TO_TRACK) {
-		runEventJob(getClient(CONFIG.NETWORK), event, await getLatestCursor(event));
+	await handlePackageChange();
+
+	for (const tracker of EVENTS_TO_TRACK) {
+		const client = getClient(CONFIG.NETWORK);
+		runEventJob(client, toEventJob(client, tracker), await getLatestCursor(tracker), POLLING_OPTIONS);
 	}
 };
@@ -0,0 +1,31 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { SuiEvent } from '@mysten/sui/client';
+import { Prisma } from '@prisma/client';
+
+import { insertEvents } from './db-writes';
+import { eventObjectId, eventTimestamp } from './event-utils';
+
+/**
+ * Appends every processed event to the `Event` table, so we keep a full history
+ * for each record (the other handlers fold events into a single row).
+ * Events are keyed by their (txDigest, eventSeq) ID, so re-processing a batch is a no-op.
+ * */
+export const handleEventLog = async (events: SuiEvent[], db: Prisma.TransactionClient) => {
+	const entries: Prisma.EventCreateInput[] = events.map((event) => {
+		const [, module, type] = event.type.split('::');
+
+		return {
+			txDigest: event.id.txDigest,
+			eventSeq: event.id.eventSeq,
+			module,
+			type,
+			objectId: eventObjectId(event),
+			sender: event.sender,
+			parsedJson: JSON.stringify(event.parsedJson),
+			timestamp: eventTimestamp(event),
+		};
+	});
+
+	await insertEvents(db, entries);
+};
@@ -0,0 +1,124 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { EventId, SuiClient, SuiEvent, SuiEventFilter } from '@mysten/sui/client';
+
+import { classifyError, IndexerErrorKind } from './errors';
+
+/// The polling loop of an event tracker. It has no dependencies on the API's config or database,
+/// so the cross-chain swap indexer runs its trackers with it too.
+
+export type SuiEventsCursor = EventId | null | undefined;
+
+export type EventExecutionResult = {
+	cursor: SuiEventsCursor;
+	hasNextPage: boolean;
+	// How many events were processed by the job
+	eventsProcessed: number;
+	// Set if the job failed
+	error?: IndexerErrorKind;
+	errorMessage?: string;
+};
+
+/// The only RPC call of the loop (each indexer passes its own `SuiClient`).
+export type EventsClient = Pick<SuiClient, 'queryEvents'>;
+
+export type EventJob = {
+	// Identifies the tracker in the logs
+	name: string;
+	filter: SuiEventFilter;
+	/// Applies a page of events and saves `nextCursor` in a single transaction, so a crash can
+	/// never leave them out of sync. Returns the events that were applied.
+	commit: (events: SuiEvent[], nextCursor: EventId) => Promise<SuiEvent[]>;
+	/// Runs once a page is committed, outside of the transaction.
+	afterCommit?: (events: SuiEvent[]) => Promise<void>;
+	/// Records the result of every job (e.g. the tracker's health). Should never throw.
+	onResult?: (result: EventExecutionResult) => Promise<void>;
+	/// How to rebuild the tracker once a fatal error stopped it (e.g. `pnpm reindex lock`).
+	reindexCommand: string;
+};
+
+export type PollingOptions = {
+	intervalMs: number;
+	// Upper bound for the exponential backoff of a failing tracker
+	maxBackoffMs: number;
+};
+
+/// Fetches the page of events after `cursor` and commits it.
+export const executeEventJob = async (
+	client: EventsClient,
+	job: EventJob,
+	cursor: SuiEventsCursor,
+): Promise<EventExecutionResult> => {
+	try {
+		// get the events from the chain.
+		// For this implementation, we are going from start to finish.
+		// This will also allow filling in a database from scratch!
+		const { data, hasNextPage, nextCursor } = await client.queryEvents({
+			query: job.filter,
+			cursor,
+			order: 'ascending',
+		});
+
+		// We only update the cursor if we fetched extra data (which means there was a change).
+		if (nextCursor && data.length > 0) {
+			const processed = await job.commit(data, nextCursor);
+			await job.afterCommit?.(processed);
+
+			return {
+				cursor: nextCursor,
+				hasNextPage,
+				eventsProcessed: processed.length,
+			};
+		}
+	} catch (e) {
+		const error = classifyError(e);
+		console.error(`[${job.name}] ${error} error while processing events:`, e);
+
+		return {
+			cursor,
+			hasNextPage: false,
+			eventsProcessed: 0,
+			error,
+			errorMessage: e instanceof Error ? e.message : String(e),
+		};
+	}
+	// By default, we return the same cursor as passed in.
+	return {
+		cursor,
+		hasNextPage: false,
+		eventsProcessed: 0,
+	};
+};
+
+/// Exponential backoff for failing trackers, capped to `options.maxBackoffMs`.
+const getBackoffDelay = (failures: number, options: PollingOptions) =>
+	Math.min(options.intervalMs * 2 ** failures, options.maxBackoffMs);
+
+/// Polls the events of `job` from `cursor`, until a fatal error stops it.
+export const runEventJob = async (
+	client: EventsClient,
+	job: EventJob,
+	cursor: SuiEventsCursor,
+	options: PollingOptions,
+	failures = 0,
+) => {
+	const result = await executeEventJob(client, job, cursor);
+	await job.onResult?.(result);
+
+	// Fatal errors would fail the same way on every retry, so we stop the tracker.
+	if (result.error === 'fatal') {
+		console.error(`[${job.name}] Tracker stopped. Fix the issue or rebuild it with \`${job.reindexCommand}\`.`);
+		return;
+	}
+
+	const consecutiveFailures = result.error ? failures + 1 : 0;
+
+	// Trigger a timeout. Depending on the result, we either wait 0ms, the polling interval,
+	// or back off if the job failed.
+	let delay = result.hasNextPage ? 0 : options.intervalMs;
+	if (result.error) delay = getBackoffDelay(consecutiveFailures, options);
+
+	setTimeout(() => {
+		runEventJob(client, job, result.cursor, options, consecutiveFailures);
+	}, delay);
+};
@@ -0,0 +1,18 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { SuiEvent } from '@mysten/sui/client';
+
+/// Converts a `u64` millisecond timestamp (as emitted in event JSON) to a Date.
+export const msToDate = (ms: string | number | null | undefined) => {
+	if (ms === null || ms === undefined) return undefined;
+	return new Date(Number(ms));
+};
+
+/// The time the event's checkpoint was created, if the RPC returned it.
+export const eventTimestamp = (event: SuiEvent) => msToDate(event.timestampMs);
+
+/// The ID of the escrow / lock / hashlock that an event refers to.
+export const eventObjectId = (event: SuiEvent): string | undefined => {
+	const data = event.parsedJson as Record<string, any>;
+	return data?.escrow_id ?? data?.lock_id ?? data?.hashlock_id;
+};
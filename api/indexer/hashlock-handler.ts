@@ -3,7 +3,9 @@
 import { SuiEvent } from '@mysten/sui/client';
 import { Prisma } from '@prisma/client';
 
-import { prisma } from '../db';
+import { upsertEscrows, upsertLocked } from './db-writes';
+import { FatalIndexerError } from './errors';
+import { eventTimestamp, msToDate } from './event-utils';
 
 // Types for hashlock.move events
 type HashlockCreated = {
@@ -23,12 +25,15 @@ type SecretRevealed = {
 	revealer: string;
 };
 
-// Types for hashlock_shared.move events (already defined in escrow-handler.ts)
+// Types for hashlock_shared.move and hashlock_owned.move events (already defined in escrow-handler.ts).
+// `hashlock_shared` emits `key_id`, while `hashlock_owned` emits `exchange_key` and `escrowed_key`.
 type HashlockEscrowCreated = {
 	sender: string;
 	recipient: string;
 	escrow_id: string;
-	key_id: string;
+	key_id?: string;
+	exchange_key?: string;
+	escrowed_key?: string;
 	item_id: string;
 	hash_commitment: number[];
 	created_at: string;
@@ -37,7 +42,8 @@ type HashlockEscrowCreated = {
 
 type HashlockEscrowSwapped = {
 	escrow_id: string;
-	swapper: string;
+	// Not emitted by `hashlock_owned`
+	swapper?: string;
 };
 
 type HashlockEscrowCancelled = {
@@ -48,18 +54,23 @@ type HashlockEscrowCancelled = {
 type HashlockEvent = HashlockCreated | SecretRevealed | HashlockEscrowCreated | HashlockEscrowSwapped | HashlockEscrowCancelled;
 
 /**
- * Handles all events emitted by the `hashlock` and `hashlock_shared` modules.
+ * Handles all events emitted by the `hashlock`, `hashlock_shared` and `hashlock_owned` modules.
  * This creates entries in both the Locked table (for hashlock objects) and 
  * Escrow table (for hashlock escrows).
  */
-export const handleHashlockObjects = async (events: SuiEvent[], type: string) => {
+export const handleHashlockObjects = async (
+	events: SuiEvent[],
+	type: string,
+	db: Prisma.TransactionClient,
+) => {
 	console.log(`Processing ${events.length} hashlock events for type: ${type}`);
 	
 	const lockedUpdates: Record<string, Prisma.LockedCreateInput> = {};
 	const escrowUpdates: Record<string, Prisma.EscrowCreateInput> = {};
+	const module = type.split('::')[1];
 
 	for (const event of events) {
-		if (!event.type.startsWith(type)) throw new Error('Invalid event module origin');
+		if (!event.type.startsWith(type)) throw new FatalIndexerError('Invalid event module origin');
 		const data = event.parsedJson as HashlockEvent;
 		
 		console.log(`Processing event: ${event.type}`, data);
@@ -71,6 +82,7 @@ export const handleHashlockObjects = async (events: SuiEvent[], type: string) =>
 			if (!Object.hasOwn(lockedUpdates, hashlockData.hashlock_id)) {
 				lockedUpdates[hashlockData.hashlock_id] = {
 					objectId: hashlockData.hashlock_id,
+					module,
 				};
 			}
 
@@ -78,27 +90,35 @@ export const handleHashlockObjects = async (events: SuiEvent[], type: string) =>
 			lockedUpdates[hashlockData.hashlock_id].itemId = hashlockData.item_id;
 			// For hashlock, we don't have a separate key, so we use the hashlock_id as keyId
 			lockedUpdates[hashlockData.hashlock_id].keyId = hashlockData.hashlock_id;
+			lockedUpdates[hashlockData.hashlock_id].createdAt = msToDate(hashlockData.created_at);
+			lockedUpdates[hashlockData.hashlock_id].expiresAt = msToDate(hashlockData.expires_at);
+			lockedUpdates[hashlockData.hashlock_id].createdTxDigest = event.id.txDigest;
 			console.log(`Added hashlock creation for ID: ${hashlockData.hashlock_id}`);
 			continue;
 		}
 
-		// Handle hashlock escrow events (hashlock_shared.move)
+		// Handle hashlock escrow events (hashlock_shared.move and hashlock_owned.move)
 		if (event.type.endsWith('::HashlockEscrowCreated')) {
 			const escrowData = data as HashlockEscrowCreated;
 			
 			if (!Object.hasOwn(escrowUpdates, escrowData.escrow_id)) {
 				escrowUpdates[escrowData.escrow_id] = {
 					objectId: escrowData.escrow_id,
+					module,
 				};
 			}
 
 			escrowUpdates[escrowData.escrow_id].sender = escrowData.sender;
 			escrowUpdates[escrowData.escrow_id].recipient = escrowData.recipient;
-			escrowUpdates[escrowData.escrow_id].keyId = escrowData.key_id;
+			escrowUpdates[escrowData.escrow_id].keyId = escrowData.key_id ?? escrowData.exchange_key;
+			escrowUpdates[escrowData.escrow_id].escrowedKey = escrowData.escrowed_key;
 			escrowUpdates[escrowData.escrow_id].itemId = escrowData.item_id;
 			escrowUpdates[escrowData.escrow_id].isHashlock = true;
 			escrowUpdates[escrowData.escrow_id].hashCommitment = Buffer.from(escrowData.hash_commitment).toString('hex');
 			escrowUpdates[escrowData.escrow_id].timeoutMs = escrowData.expires_at;
+			escrowUpdates[escrowData.escrow_id].createdAt = msToDate(escrowData.created_at);
+			escrowUpdates[escrowData.escrow_id].expiresAt = msToDate(escrowData.expires_at);
+			escrowUpdates[escrowData.escrow_id].createdTxDigest = event.id.txDigest;
 			console.log(`Added hashlock escrow creation for ID: ${escrowData.escrow_id}`);
 			continue;
 		}
@@ -112,9 +132,13 @@ export const handleHashlockObjects = async (events: SuiEvent[], type: string) =>
 				if (!Object.hasOwn(lockedUpdates, secretData.hashlock_id)) {
 					lockedUpdates[secretData.hashlock_id] = {
 						objectId: secretData.hashlock_id,
+						module,
 					};
 				}
 				lockedUpdates[secretData.hashlock_id].deleted = true; // Hashlock is consumed
+				lockedUpdates[secretData.hashlock_id].destroyedVia = 'secret';
+				lockedUpdates[secretData.hashlock_id].completedAt = eventTimestamp(event);
+				lockedUpdates[secretData.hashlock_id].completedTxDigest = event.id.txDigest;
 				console.log(`Marked hashlock as consumed: ${secretData.hashlock_id}`);
 			}
 			
@@ -124,6 +148,7 @@ export const handleHashlockObjects = async (events: SuiEvent[], type: string) =>
 				if (!Object.hasOwn(escrowUpdates, escrowId)) {
 					escrowUpdates[escrowId] = {
 						objectId: escrowId,
+						module,
 					};
 				}
 				escrowUpdates[escrowId].secretRevealed = Buffer.from(secretData.secret).toString('hex');
@@ -139,10 +164,13 @@ export const handleHashlockObjects = async (events: SuiEvent[], type: string) =>
 			if (!Object.hasOwn(escrowUpdates, swapData.escrow_id)) {
 				escrowUpdates[swapData.escrow_id] = {
 					objectId: swapData.escrow_id,
+					module,
 				};
 			}
 
 			escrowUpdates[swapData.escrow_id].swapped = true;
+			escrowUpdates[swapData.escrow_id].completedAt = eventTimestamp(event);
+			escrowUpdates[swapData.escrow_id].completedTxDigest = event.id.txDigest;
 			console.log(`Marked hashlock escrow as swapped: ${swapData.escrow_id}`);
 			continue;
 		}
@@ -154,10 +182,13 @@ export const handleHashlockObjects = async (events: SuiEvent[], type: string) =>
 			if (!Object.hasOwn(escrowUpdates, cancelData.escrow_id)) {
 				escrowUpdates[cancelData.escrow_id] = {
 					objectId: cancelData.escrow_id,
+					module,
 				};
 			}
 
 			escrowUpdates[cancelData.escrow_id].cancelled = true;
+			escrowUpdates[cancelData.escrow_id].completedAt = eventTimestamp(event);
+			escrowUpdates[cancelData.escrow_id].completedTxDigest = event.id.txDigest;
 			console.log(`Marked hashlock escrow as cancelled: ${cancelData.escrow_id}`);
 			continue;
 		}
@@ -165,28 +196,9 @@ export const handleHashlockObjects = async (events: SuiEvent[], type: string) =>
 
 	console.log(`Updating ${Object.keys(lockedUpdates).length} locked objects and ${Object.keys(escrowUpdates).length} escrow objects`);
 
-	// Update locked objects (for pure hashlocks)
-	const lockedPromises = Object.values(lockedUpdates).map((update) =>
-		prisma.locked.upsert({
-			where: {
-				objectId: update.objectId,
-			},
-			create: update,
-			update,
-		}),
-	);
-
-	// Update escrow objects (for hashlock escrows)
-	const escrowPromises = Object.values(escrowUpdates).map((update) =>
-		prisma.escrow.upsert({
-			where: {
-				objectId: update.objectId,
-			},
-			create: update,
-			update,
-		}),
-	);
-
-	await Promise.all([...lockedPromises, ...escrowPromises]);
+	// Update locked objects (for pure hashlocks) and escrow objects (for hashlock escrows)
+	// (see `db-writes.ts` for the SQLite / Postgres strategies).
+	await upsertLocked(db, Object.values(lockedUpdates));
+	await upsertEscrows(db, Object.values(escrowUpdates));
 	console.log(`Successfully processed hashlock events`);
 }; 
\ No newline at end of file
@@ -0,0 +1,138 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { SuiClient, SuiEvent } from '@mysten/sui/client';
+import { normalizeStructTag, parseStructTag } from '@mysten/sui/utils';
+
+import { prisma } from '../db';
+import { eventObjectId } from './event-utils';
+
+/// `multiGetObjects` & `multiGetTransactionBlocks` accept up to 50 IDs per call.
+const MAX_OBJECTS_PER_CALL = 50;
+
+type ItemMetadata = {
+	itemType: string;
+	itemName?: string;
+	itemImageUrl?: string;
+};
+
+const chunks = <T>(values: T[]) => {
+	const result: T[][] = [];
+	for (let i = 0; i < values.length; i += MAX_OBJECTS_PER_CALL) {
+		result.push(values.slice(i, i + MAX_OBJECTS_PER_CALL));
+	}
+	return result;
+};
+
+/// The item type of an escrow / lock (e.g. `Locked<T>`) is its type argument `T`.
+/// Normalized, so types can be matched exactly (e.g. `0x2::` becomes `0x00..02::`).
+const itemTypeOf = (containerType: string) => {
+	const [itemType] = parseStructTag(containerType).typeParams;
+	return itemType ? normalizeStructTag(itemType) : undefined;
+};
+
+/**
+ * Resolves the item types from the escrows / locks holding them, as the items themselves can't be
+ * fetched once wrapped (e.g. in an `owned::Escrow`) or consumed. Containers that no longer exist are
+ * resolved from the object changes of the transactions in `digests`.
+ */
+const fetchItemTypes = async (client: SuiClient, objectIds: string[], digests: string[]) => {
+	const itemTypes: Record<string, string> = {};
+
+	for (const ids of chunks(objectIds)) {
+		const objects = await client.multiGetObjects({ ids, options: { showType: true } });
+		for (const object of objects) {
+			const itemType = object.data?.type && itemTypeOf(object.data.type);
+			if (itemType) itemTypes[object.data!.objectId] = itemType;
+		}
+	}
+
+	const missing = new Set(objectIds.filter((id) => !itemTypes[id]));
+	if (missing.size === 0) return itemTypes;
+
+	for (const batch of chunks(digests)) {
+		const transactions = await client.multiGetTransactionBlocks({
+			digests: batch,
+			options: { showObjectChanges: true },
+		});
+		for (const change of transactions.flatMap((tx) => tx.objectChanges ?? [])) {
+			if (change.type === 'published' || !missing.has(change.objectId)) continue;
+
+			const itemType = itemTypeOf(change.objectType);
+			if (itemType) itemTypes[change.objectId] = itemType;
+		}
+	}
+
+	return itemTypes;
+};
+
+/// The Display metadata of the items that still exist as standalone objects.
+const fetchItemDisplays = async (client: SuiClient, itemIds: string[]) => {
+	const displays: Record<string, Omit<ItemMetadata, 'itemType'>> = {};
+
+	for (const ids of chunks(itemIds)) {
+		const objects = await client.multiGetObjects({ ids, options: { showDisplay: true } });
+		for (const object of objects) {
+			const display = object.data?.display?.data;
+			if (!display) continue;
+
+			displays[object.data!.objectId] = { itemName: display.name, itemImageUrl: display.image_url };
+		}
+	}
+
+	return displays;
+};
+
+/**
+ * Resolves the Move type & Display metadata (name, image_url) of the items held by the
+ * escrows / locks touched by `events`, so the API can serve them without extra RPC calls.
+ * Items that are wrapped or consumed still get their type, only without Display metadata.
+ * Runs after the batch is committed, as the RPC calls shouldn't hold the DB transaction open.
+ * Failures are logged and never stop the indexer.
+ */
+export const handleItemMetadata = async (client: SuiClient, events: SuiEvent[]) => {
+	const objectIds = [...new Set(events.map(eventObjectId).filter((id): id is string => !!id))];
+	if (objectIds.length === 0) return;
+
+	try {
+		const where = { objectId: { in: objectIds }, itemId: { not: null }, itemType: null };
+		const [locked, escrows] = await Promise.all([
+			prisma.locked.findMany({ where, select: { objectId: true, itemId: true } }),
+			prisma.escrow.findMany({ where, select: { objectId: true, itemId: true } }),
+		]);
+
+		const rows = [...locked, ...escrows];
+		if (rows.length === 0) return;
+
+		const rowIds = new Set(rows.map((row) => row.objectId));
+		const digests = [
+			...new Set(
+				events.filter((event) => rowIds.has(eventObjectId(event)!)).map((event) => event.id.txDigest),
+			),
+		];
+		const [itemTypes, displays] = await Promise.all([
+			fetchItemTypes(client, [...rowIds], digests),
+			fetchItemDisplays(client, [...new Set(rows.map((row) => row.itemId!))]),
+		]);
+
+		const metadata: Record<string, ItemMetadata> = {};
+		for (const row of rows) {
+			if (!itemTypes[row.objectId]) continue;
+			metadata[row.objectId] = { itemType: itemTypes[row.objectId], ...displays[row.itemId!] };
+		}
+
+		await prisma.$transaction([
+			...locked
+				.filter((row) => metadata[row.objectId])
+				.map((row) =>
+					prisma.locked.update({ where: { objectId: row.objectId }, data: metadata[row.objectId] }),
+				),
+			...escrows
+				.filter((row) => metadata[row.objectId])
+				.map((row) =>
+					prisma.escrow.update({ where: { objectId: row.objectId }, data: metadata[row.objectId] }),
+				),
+		]);
+	} catch (e) {
+		console.error('Failed to resolve item metadata', e);
+	}
+};
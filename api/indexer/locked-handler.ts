@@ -3,7 +3,9 @@
 import { SuiEvent } from '@mysten/sui/client';
 import { Prisma } from '@prisma/client';
 
-import { prisma } from '../db';
+import { upsertLocked } from './db-writes';
+import { FatalIndexerError } from './errors';
+import { eventTimestamp, msToDate } from './event-utils';
 
 type LockEvent = LockCreated | LockDestroyed;
 
@@ -12,10 +14,13 @@ type LockCreated = {
 	lock_id: string;
 	key_id: string;
 	item_id: string;
+	created_at: string;
+	expires_at: string;
 };
 
 type LockDestroyed = {
 	lock_id: string;
+	unlocked_with_key: boolean;
 };
 
 /**
@@ -25,23 +30,32 @@ type LockDestroyed = {
  * We're constructing the updates to support multiple events involving a single record
  * as part of the same batch of events (but using a single write/record to the DB).
  * */
-export const handleLockObjects = async (events: SuiEvent[], type: string) => {
+export const handleLockObjects = async (
+	events: SuiEvent[],
+	type: string,
+	db: Prisma.TransactionClient,
+) => {
 	const updates: Record<string, Prisma.LockedCreateInput> = {};
+	const module = type.split('::')[1];
 
 	for (const event of events) {
-		if (!event.type.startsWith(type)) throw new Error('Invalid event module origin');
+		if (!event.type.startsWith(type)) throw new FatalIndexerError('Invalid event module origin');
 		const data = event.parsedJson as LockEvent;
 		const isDeletionEvent = !('key_id' in data);
 
 		if (!Object.hasOwn(updates, data.lock_id)) {
 			updates[data.lock_id] = {
 				objectId: data.lock_id,
+				module,
 			};
 		}
 
 		// Handle deletion
 		if (isDeletionEvent) {
 			updates[data.lock_id].deleted = true;
+			updates[data.lock_id].destroyedVia = data.unlocked_with_key ? 'key' : 'timelock';
+			updates[data.lock_id].completedAt = eventTimestamp(event);
+			updates[data.lock_id].completedTxDigest = event.id.txDigest;
 			continue;
 		}
 
@@ -49,22 +63,13 @@ export const handleLockObjects = async (events: SuiEvent[], type: string) => {
 		updates[data.lock_id].keyId = data.key_id;
 		updates[data.lock_id].creator = data.creator;
 		updates[data.lock_id].itemId = data.item_id;
+		updates[data.lock_id].createdAt = msToDate(data.created_at) ?? eventTimestamp(event);
+		// Locks without a timelock are created with `expires_at == created_at`.
+		updates[data.lock_id].expiresAt =
+			data.expires_at !== data.created_at ? msToDate(data.expires_at) : undefined;
+		updates[data.lock_id].createdTxDigest = event.id.txDigest;
 	}
 
-	//  As part of the demo and to avoid having external dependencies, we use SQLite as our database.
-	// 	Prisma + SQLite does not support bulk insertion & conflict handling, so we have to insert these 1 by 1
-	// 	(resulting in multiple round-trips to the database).
-	//  Always use a single `bulkInsert` query with proper `onConflict` handling in production databases (e.g Postgres)
-	const promises = Object.values(updates).map((update) =>
-		prisma.locked.upsert({
-			where: {
-				objectId: update.objectId,
-			},
-			create: {
-				...update,
-			},
-			update,
-		}),
-	);
-	await Promise.all(promises);
+	// See `db-writes.ts` for the SQLite / Postgres strategies.
+	await upsertLocked(db, Object.values(updates));
 };
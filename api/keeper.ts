@@ -0,0 +1,14 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { setupKeeper } from './keeper/reclaim-keeper';
+
+/// Reclaims the timed-out hashlocks, escrows & timelocks of the configured operators.
+/// Usage: `pnpm keeper [--dry-run] [--once]`
+setupKeeper({
+	dryRun: process.argv.includes('--dry-run'),
+	once: process.argv.includes('--once'),
+}).catch((e) => {
+	console.error(e);
+	process.exit(1);
+});
@@ -0,0 +1,217 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { SuiClient } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction, TransactionResult } from '@mysten/sui/transactions';
+import { normalizeStructTag, normalizeSuiAddress, parseStructTag } from '@mysten/sui/utils';
+
+import { CONFIG } from '../config';
+import { prisma } from '../db';
+import { hashlock, hashlockOwned, hashlockShared, lock } from '../sdk';
+import { getActiveAddress, getClient, getSigner, signAndExecute } from '../sui-utils';
+
+/// The builder reclaiming a timed-out object, for each module.
+/// They all return the item to the caller.
+const RECLAIM_BUILDERS: Record<
+	string,
+	(txb: Transaction, packageId: string, objectId: string, itemType: string) => TransactionResult
+> = {
+	lock: (txb, packageId, objectId, itemType) =>
+		lock.breakTimelock(txb, packageId, { locked: objectId }, itemType),
+	hashlock: (txb, packageId, objectId, itemType) =>
+		hashlock.reclaimAfterTimeout(txb, packageId, { hashlock: objectId }, itemType),
+	hashlock_shared: (txb, packageId, objectId, itemType) =>
+		hashlockShared.returnToSender(txb, packageId, { escrow: objectId }, itemType),
+	hashlock_owned: (txb, packageId, objectId, itemType) =>
+		hashlockOwned.reclaimAfterTimeout(txb, packageId, { escrow: objectId }, itemType),
+};
+
+type ReclaimCandidate = {
+	objectId: string;
+	module: string;
+	operator: string;
+};
+
+export type KeeperOptions = {
+	// Simulates the reclaims (with `devInspect`) instead of executing them
+	dryRun: boolean;
+	// Runs a single pass instead of polling
+	once: boolean;
+};
+
+/**
+ * Finds the objects of `operators` past their timeout: timelocked & hashlocked objects
+ * that are still locked, and hashlock escrows that haven't been swapped or cancelled.
+ * Objects that were already reclaimed (or failed too many times) are skipped.
+ */
+const findReclaimable = async (operators: string[], dryRun: boolean) => {
+	const now = new Date();
+
+	const [locked, escrows] = await Promise.all([
+		prisma.locked.findMany({
+			where: {
+				module: { in: ['lock', 'hashlock'] },
+				creator: { in: operators },
+				deleted: false,
+				expiresAt: { lte: now },
+			},
+			orderBy: { expiresAt: 'asc' },
+		}),
+		prisma.escrow.findMany({
+			where: {
+				module: { in: ['hashlock_shared', 'hashlock_owned'] },
+				sender: { in: operators },
+				swapped: false,
+				cancelled: false,
+				expiresAt: { lte: now },
+			},
+			orderBy: { expiresAt: 'asc' },
+		}),
+	]);
+
+	const candidates: ReclaimCandidate[] = [
+		...locked.map((row) => ({ objectId: row.objectId, module: row.module!, operator: row.creator! })),
+		...escrows.map((row) => ({ objectId: row.objectId, module: row.module!, operator: row.sender! })),
+	];
+
+	// The indexer marks reclaimed objects once it picks up the transaction,
+	// so we also rely on our own records to not reclaim them twice.
+	const reclaims = await prisma.reclaim.findMany({
+		where: { objectId: { in: candidates.map((candidate) => candidate.objectId) } },
+	});
+
+	return candidates.filter((candidate) => {
+		const attempts = reclaims.filter((reclaim) => reclaim.objectId === candidate.objectId);
+
+		if (attempts.some((reclaim) => reclaim.status === 'success')) return false;
+		if (dryRun && attempts.some((reclaim) => reclaim.status === 'dry-run')) return false;
+		return attempts.filter((reclaim) => reclaim.status === 'failed').length < CONFIG.KEEPER_MAX_ATTEMPTS;
+	});
+};
+
+/**
+ * Builds the PTB reclaiming `candidate` and returning its item to the operator.
+ * The item type is read from the object itself, which also lets us check
+ * that the operator can use it as an input (it's either shared or owned by the operator).
+ */
+const buildReclaimTransaction = async (client: SuiClient, candidate: ReclaimCandidate) => {
+	const object = await client.getObject({
+		id: candidate.objectId,
+		options: { showType: true, showOwner: true },
+	});
+
+	if (!object.data?.type) throw new Error('Object not found');
+
+	const owner = object.data.owner;
+	const usable =
+		!!owner &&
+		typeof owner === 'object' &&
+		('Shared' in owner ||
+			('AddressOwner' in owner && normalizeSuiAddress(owner.AddressOwner) === candidate.operator));
+	if (!usable) throw new Error('Object is not shared nor owned by the operator');
+
+	const [itemType] = parseStructTag(object.data.type).typeParams;
+
+	const txb = new Transaction();
+
+	const item = RECLAIM_BUILDERS[candidate.module](
+		txb,
+		CONFIG.SWAP_CONTRACT.packageId,
+		candidate.objectId,
+		normalizeStructTag(itemType),
+	);
+
+	txb.transferObjects([item], txb.pure.address(candidate.operator));
+
+	return txb;
+};
+
+/// Reclaims (or simulates reclaiming) a single object, and records the outcome.
+const reclaim = async (
+	client: SuiClient,
+	candidate: ReclaimCandidate,
+	signers: Record<string, Ed25519Keypair>,
+	dryRun: boolean,
+) => {
+	let status = dryRun ? 'dry-run' : 'success';
+	let txDigest: string | undefined;
+	let error: string | undefined;
+
+	try {
+		const txb = await buildReclaimTransaction(client, candidate);
+
+		if (dryRun) {
+			const result = await client.devInspectTransactionBlock({
+				sender: candidate.operator,
+				transactionBlock: txb,
+			});
+			error = result.effects.status.error;
+		} else {
+			const result = await signAndExecute(txb, CONFIG.NETWORK, signers[candidate.operator]);
+			txDigest = result.digest;
+			error = result.effects?.status.error;
+			if (result.effects?.status.status !== 'success') status = 'failed';
+		}
+	} catch (e) {
+		if (!dryRun) status = 'failed';
+		error = e instanceof Error ? e.message : String(e);
+	}
+
+	console.log(
+		`[keeper] ${status} ${candidate.module} ${candidate.objectId}${error ? `: ${error}` : ''}`,
+	);
+
+	await prisma.reclaim.create({
+		data: { ...candidate, status, txDigest, error },
+	});
+};
+
+/// A single keeper pass, reclaiming up to `CONFIG.KEEPER_MAX_RECLAIMS_PER_RUN` objects.
+const runKeeperJob = async (
+	client: SuiClient,
+	operators: string[],
+	signers: Record<string, Ed25519Keypair>,
+	dryRun: boolean,
+) => {
+	const candidates = await findReclaimable(operators, dryRun);
+	const batch = candidates.slice(0, CONFIG.KEEPER_MAX_RECLAIMS_PER_RUN);
+
+	if (candidates.length > batch.length)
+		console.log(`[keeper] ${candidates.length} objects to reclaim, reclaiming ${batch.length} this run.`);
+
+	// One transaction per object, so a failing reclaim never blocks the others.
+	for (const candidate of batch) {
+		await reclaim(client, candidate, signers, dryRun);
+	}
+};
+
+/**
+ * Watches for timed-out objects of the configured operators (`CONFIG.KEEPER_OPERATORS`)
+ * and reclaims them. Operators must have their keys in the local sui keystore, unless running in dry-run mode.
+ */
+export const setupKeeper = async ({ dryRun, once }: KeeperOptions) => {
+	const operators = (
+		CONFIG.KEEPER_OPERATORS.length > 0 ? CONFIG.KEEPER_OPERATORS : [getActiveAddress()]
+	).map((operator) => normalizeSuiAddress(operator));
+
+	// Resolved upfront, so a missing key fails on start rather than on the first reclaim.
+	const signers: Record<string, Ed25519Keypair> = dryRun
+		? {}
+		: Object.fromEntries(operators.map((operator) => [operator, getSigner(operator)]));
+
+	const client = getClient(CONFIG.NETWORK);
+	console.log(`[keeper] Reclaiming for ${operators.join(', ')}${dryRun ? ' (dry-run)' : ''}`);
+
+	const run = async () => {
+		try {
+			await runKeeperJob(client, operators, signers, dryRun);
+		} catch (e) {
+			console.error('[keeper] Run failed:', e);
+		}
+
+		if (!once) setTimeout(run, CONFIG.KEEPER_INTERVAL_MS);
+	};
+
+	await run();
+};
@@ -0,0 +1,13 @@
+-- Hashlock support, previously applied by hand with `migrate-hashlock.sql`.
+
+-- AlterTable
+ALTER TABLE "Escrow" ADD COLUMN "isHashlock" BOOLEAN DEFAULT 0;
+ALTER TABLE "Escrow" ADD COLUMN "hashCommitment" TEXT;
+ALTER TABLE "Escrow" ADD COLUMN "timeoutMs" TEXT;
+ALTER TABLE "Escrow" ADD COLUMN "secretRevealed" TEXT;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "idx_escrow_isHashlock" ON "Escrow"("isHashlock");
+
+-- Existing records are non-hashlock escrows
+UPDATE "Escrow" SET "isHashlock" = 0 WHERE "isHashlock" IS NULL;
@@ -0,0 +1,87 @@
+-- AlterTable
+ALTER TABLE "Locked" ADD COLUMN "module" TEXT;
+ALTER TABLE "Locked" ADD COLUMN "createdAt" DATETIME;
+ALTER TABLE "Locked" ADD COLUMN "expiresAt" DATETIME;
+ALTER TABLE "Locked" ADD COLUMN "completedAt" DATETIME;
+ALTER TABLE "Locked" ADD COLUMN "createdTxDigest" TEXT;
+ALTER TABLE "Locked" ADD COLUMN "completedTxDigest" TEXT;
+ALTER TABLE "Locked" ADD COLUMN "destroyedVia" TEXT;
+
+-- CreateTable
+CREATE TABLE "Event" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "txDigest" TEXT NOT NULL,
+    "eventSeq" TEXT NOT NULL,
+    "module" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "objectId" TEXT,
+    "sender" TEXT NOT NULL,
+    "parsedJson" TEXT NOT NULL,
+    "timestamp" DATETIME
+);
+
+-- CreateTable
+CREATE TABLE "IndexerStatus" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lastPollAt" DATETIME,
+    "lastSuccessAt" DATETIME,
+    "eventsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "consecutiveErrors" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "lastErrorAt" DATETIME,
+    "stopped" BOOLEAN NOT NULL DEFAULT false
+);
+
+-- RedefineTables
+-- `Escrow.isHashlock` was added as nullable (with a custom index name) by the hashlock migration.
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Escrow" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "objectId" TEXT NOT NULL,
+    "sender" TEXT,
+    "recipient" TEXT,
+    "keyId" TEXT,
+    "itemId" TEXT,
+    "swapped" BOOLEAN NOT NULL DEFAULT false,
+    "cancelled" BOOLEAN NOT NULL DEFAULT false,
+    "module" TEXT,
+    "escrowedKey" TEXT,
+    "custodian" TEXT,
+    "createdAt" DATETIME,
+    "expiresAt" DATETIME,
+    "completedAt" DATETIME,
+    "createdTxDigest" TEXT,
+    "completedTxDigest" TEXT,
+    "isHashlock" BOOLEAN NOT NULL DEFAULT false,
+    "hashCommitment" TEXT,
+    "timeoutMs" TEXT,
+    "secretRevealed" TEXT
+);
+INSERT INTO "new_Escrow" ("id", "objectId", "sender", "recipient", "keyId", "itemId", "swapped", "cancelled", "isHashlock", "hashCommitment", "timeoutMs", "secretRevealed") SELECT "id", "objectId", "sender", "recipient", "keyId", "itemId", "swapped", "cancelled", COALESCE("isHashlock", false), "hashCommitment", "timeoutMs", "secretRevealed" FROM "Escrow";
+DROP TABLE "Escrow";
+ALTER TABLE "new_Escrow" RENAME TO "Escrow";
+CREATE UNIQUE INDEX "Escrow_objectId_key" ON "Escrow"("objectId");
+CREATE INDEX "Escrow_recipient_idx" ON "Escrow"("recipient");
+CREATE INDEX "Escrow_sender_idx" ON "Escrow"("sender");
+CREATE INDEX "Escrow_isHashlock_idx" ON "Escrow"("isHashlock");
+CREATE INDEX "Escrow_module_idx" ON "Escrow"("module");
+CREATE INDEX "Escrow_custodian_idx" ON "Escrow"("custodian");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "Event_objectId_idx" ON "Event"("objectId");
+
+-- CreateIndex
+CREATE INDEX "Event_sender_idx" ON "Event"("sender");
+
+-- CreateIndex
+CREATE INDEX "Event_type_idx" ON "Event"("type");
+
+-- CreateIndex
+CREATE INDEX "Event_timestamp_idx" ON "Event"("timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_txDigest_eventSeq_key" ON "Event"("txDigest", "eventSeq");
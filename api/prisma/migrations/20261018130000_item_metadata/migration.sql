@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Escrow" ADD COLUMN "itemImageUrl" TEXT;
+ALTER TABLE "Escrow" ADD COLUMN "itemName" TEXT;
+ALTER TABLE "Escrow" ADD COLUMN "itemType" TEXT;
+
+-- AlterTable
+ALTER TABLE "Locked" ADD COLUMN "itemImageUrl" TEXT;
+ALTER TABLE "Locked" ADD COLUMN "itemName" TEXT;
+ALTER TABLE "Locked" ADD COLUMN "itemType" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Escrow_itemType_idx" ON "Escrow"("itemType");
+
+-- CreateIndex
+CREATE INDEX "Locked_itemType_idx" ON "Locked"("itemType");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "Reclaim" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "objectId" TEXT NOT NULL,
+    "module" TEXT NOT NULL,
+    "operator" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "txDigest" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "Reclaim_objectId_idx" ON "Reclaim"("objectId");
+
+-- CreateIndex
+CREATE INDEX "Reclaim_status_idx" ON "Reclaim"("status");
@@ -0,0 +1,125 @@
+-- CreateTable
+CREATE TABLE "Locked" (
+    "id" SERIAL NOT NULL,
+    "objectId" TEXT NOT NULL,
+    "keyId" TEXT,
+    "creator" TEXT,
+    "itemId" TEXT,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+    "module" TEXT,
+    "createdAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdTxDigest" TEXT,
+    "completedTxDigest" TEXT,
+    "destroyedVia" TEXT,
+
+    CONSTRAINT "Locked_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Escrow" (
+    "id" SERIAL NOT NULL,
+    "objectId" TEXT NOT NULL,
+    "sender" TEXT,
+    "recipient" TEXT,
+    "keyId" TEXT,
+    "itemId" TEXT,
+    "swapped" BOOLEAN NOT NULL DEFAULT false,
+    "cancelled" BOOLEAN NOT NULL DEFAULT false,
+    "module" TEXT,
+    "escrowedKey" TEXT,
+    "custodian" TEXT,
+    "createdAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdTxDigest" TEXT,
+    "completedTxDigest" TEXT,
+    "isHashlock" BOOLEAN NOT NULL DEFAULT false,
+    "hashCommitment" TEXT,
+    "timeoutMs" TEXT,
+    "secretRevealed" TEXT,
+
+    CONSTRAINT "Escrow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Event" (
+    "id" SERIAL NOT NULL,
+    "txDigest" TEXT NOT NULL,
+    "eventSeq" TEXT NOT NULL,
+    "module" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "objectId" TEXT,
+    "sender" TEXT NOT NULL,
+    "parsedJson" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3),
+
+    CONSTRAINT "Event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "IndexerStatus" (
+    "id" TEXT NOT NULL,
+    "lastPollAt" TIMESTAMP(3),
+    "lastSuccessAt" TIMESTAMP(3),
+    "eventsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "consecutiveErrors" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "lastErrorAt" TIMESTAMP(3),
+    "stopped" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "IndexerStatus_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Cursor" (
+    "id" TEXT NOT NULL,
+    "eventSeq" TEXT NOT NULL,
+    "txDigest" TEXT NOT NULL,
+
+    CONSTRAINT "Cursor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Locked_objectId_key" ON "Locked"("objectId");
+
+-- CreateIndex
+CREATE INDEX "Locked_creator_idx" ON "Locked"("creator");
+
+-- CreateIndex
+CREATE INDEX "Locked_deleted_idx" ON "Locked"("deleted");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Escrow_objectId_key" ON "Escrow"("objectId");
+
+-- CreateIndex
+CREATE INDEX "Escrow_recipient_idx" ON "Escrow"("recipient");
+
+-- CreateIndex
+CREATE INDEX "Escrow_sender_idx" ON "Escrow"("sender");
+
+-- CreateIndex
+CREATE INDEX "Escrow_isHashlock_idx" ON "Escrow"("isHashlock");
+
+-- CreateIndex
+CREATE INDEX "Escrow_module_idx" ON "Escrow"("module");
+
+-- CreateIndex
+CREATE INDEX "Escrow_custodian_idx" ON "Escrow"("custodian");
+
+-- CreateIndex
+CREATE INDEX "Event_objectId_idx" ON "Event"("objectId");
+
+-- CreateIndex
+CREATE INDEX "Event_sender_idx" ON "Event"("sender");
+
+-- CreateIndex
+CREATE INDEX "Event_type_idx" ON "Event"("type");
+
+-- CreateIndex
+CREATE INDEX "Event_timestamp_idx" ON "Event"("timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_txDigest_eventSeq_key" ON "Event"("txDigest", "eventSeq");
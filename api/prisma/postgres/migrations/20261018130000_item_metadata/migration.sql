@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Escrow" ADD COLUMN     "itemImageUrl" TEXT,
+ADD COLUMN     "itemName" TEXT,
+ADD COLUMN     "itemType" TEXT;
+
+-- AlterTable
+ALTER TABLE "Locked" ADD COLUMN     "itemImageUrl" TEXT,
+ADD COLUMN     "itemName" TEXT,
+ADD COLUMN     "itemType" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Escrow_itemType_idx" ON "Escrow"("itemType");
+
+-- CreateIndex
+CREATE INDEX "Locked_itemType_idx" ON "Locked"("itemType");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "Reclaim" (
+    "id" SERIAL NOT NULL,
+    "objectId" TEXT NOT NULL,
+    "module" TEXT NOT NULL,
+    "operator" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "txDigest" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Reclaim_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Reclaim_objectId_idx" ON "Reclaim"("objectId");
+
+-- CreateIndex
+CREATE INDEX "Reclaim_status_idx" ON "Reclaim"("status");
@@ -0,0 +1,34 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { EVENTS_TO_TRACK, reindexTracker } from './indexer/event-indexer';
+
+/// Wipes & rebuilds the data of a single tracker from genesis.
+/// Usage: `pnpm reindex <module> --yes` (e.g. `pnpm reindex hashlock_shared --yes`)
+const reindex = async () => {
+	const [module] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+	const confirmed = process.argv.includes('--yes');
+	const modules = EVENTS_TO_TRACK.map((tracker) => tracker.type.split('::')[1]);
+
+	if (!module || !modules.includes(module)) {
+		console.error(`Usage: pnpm reindex <${modules.join(' | ')}> --yes`);
+		process.exit(1);
+	}
+
+	if (!confirmed) {
+		console.log(
+			`This deletes every row, event & the cursor indexed from the \`${module}\` module, then re-indexes it from genesis.`,
+		);
+		console.log('Make sure the indexer is stopped, then re-run with `--yes` to continue.');
+		process.exit(1);
+	}
+
+	console.log(`Re-indexing \`${module}\` from genesis...`);
+	await reindexTracker(module);
+	console.log(`Done. \`${module}\` has caught up with the chain, you can restart the indexer.`);
+};
+
+reindex().catch((e) => {
+	console.error(e);
+	process.exit(1);
+});
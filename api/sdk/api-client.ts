@@ -0,0 +1,87 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+	ApiErrorBody,
+	ApiErrorCode,
+	ApiEscrow,
+	ApiEscrowDetail,
+	ApiEvent,
+	ApiLocked,
+	ApiLockedDetail,
+	ApiMatches,
+	EscrowsQuery,
+	EventsQuery,
+	LockedQuery,
+	MatchesQuery,
+	Paginated,
+} from './schemas';
+
+/// An error response of the API (see `ApiErrorSchema`).
+export class ApiRequestError extends Error {
+	constructor(
+		message: string,
+		public status: number,
+		public code: ApiErrorCode,
+		public issues?: ApiErrorBody['issues'],
+	) {
+		super(message);
+	}
+}
+
+/// Query values are serialized as the API expects them, date ranges as `key[operator]=value`.
+const toSearchParams = (query: Record<string, unknown>) => {
+	const params = new URLSearchParams();
+
+	for (const [key, value] of Object.entries(query)) {
+		if (value === undefined) continue;
+
+		if (typeof value === 'object' && value !== null) {
+			for (const [operator, bound] of Object.entries(value)) {
+				if (bound !== undefined) params.set(`${key}[${operator}]`, String(bound));
+			}
+		} else {
+			params.set(key, String(value));
+		}
+	}
+
+	return params.toString();
+};
+
+/**
+ * A typed client for the API. Responses follow the schemas of `./schemas`, and failed requests
+ * throw an `ApiRequestError` with the structured error of the API.
+ */
+export const createEscrowApiClient = (baseUrl: string) => {
+	const request = async <T>(path: string, query: Record<string, unknown> = {}): Promise<T> => {
+		const search = toSearchParams(query);
+		const url = `${baseUrl.replace(/\/$/, '')}/${path}${search ? `?${search}` : ''}`;
+
+		const res = await fetch(url);
+		const body = await res.json().catch(() => null);
+
+		if (!res.ok) {
+			const error = body as ApiErrorBody | null;
+			throw new ApiRequestError(
+				error?.message ?? `Request to ${path} failed`,
+				res.status,
+				error?.code ?? 'internal_error',
+				error?.issues,
+			);
+		}
+		return body as T;
+	};
+
+	return {
+		getEscrows: (query?: EscrowsQuery) => request<Paginated<ApiEscrow>>('escrows', query),
+		/// Embeds the locked object the escrow requests.
+		getEscrow: (objectId: string) => request<ApiEscrowDetail>(`escrows/${objectId}`),
+		getLocked: (query?: LockedQuery) => request<Paginated<ApiLocked>>('locked', query),
+		/// Embeds the escrows requesting the locked object.
+		getLockedObject: (objectId: string) => request<ApiLockedDetail>(`locked/${objectId}`),
+		getEvents: (query?: EventsQuery) => request<Paginated<ApiEvent>>('events', query),
+		getMatches: (query: MatchesQuery & { address: string }) => request<ApiMatches>('matches', query),
+	};
+};
+
+export type EscrowApiClient = ReturnType<typeof createEscrowApiClient>;
@@ -0,0 +1,70 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { fromHex, toHex } from '@mysten/sui/utils';
+import { keccak256 } from 'js-sha3';
+
+/// Hash commitments are the keccak256 hash of the secret's bytes, the same as the Move contracts
+/// (and EVM HTLCs) compute, so the same secret unlocks both sides of a swap.
+
+/// How a secret given as text is turned into bytes: its UTF-8 bytes (a passphrase),
+/// or the bytes it encodes as hex (with or without `0x`).
+export type SecretEncoding = 'utf8' | 'hex';
+
+export const SECRET_ENCODINGS: readonly SecretEncoding[] = ['utf8', 'hex'];
+
+/// A secret given as text, with its encoding.
+export type EncodedSecret = { value: string; encoding: SecretEncoding };
+
+/// A secret, either as raw bytes or as encoded text.
+export type Secret = Uint8Array | number[] | EncodedSecret;
+
+/// The length (in bytes) of generated secrets, the same as 1inch-style EVM HTLCs use.
+export const SECRET_LENGTH = 32;
+
+const HEX_PATTERN = /^(0x)?([0-9a-fA-F]{2})+$/;
+
+/// Why `secret` can't be used, if it can't (it's empty, or isn't valid hex).
+export const validateSecret = ({ value, encoding }: EncodedSecret): string | undefined => {
+	if (!SECRET_ENCODINGS.includes(encoding)) return `Unknown secret encoding: ${encoding}`;
+	if (value.length === 0) return 'The secret is empty';
+	if (encoding === 'hex' && !HEX_PATTERN.test(value)) return 'The secret is not valid hex';
+};
+
+/// The bytes of `secret`. Throws if an encoded secret is invalid (see `validateSecret`).
+export const secretToBytes = (secret: Secret) => {
+	if (!('encoding' in secret)) return Uint8Array.from(secret);
+
+	const error = validateSecret(secret);
+	if (error) throw new Error(error);
+
+	return secret.encoding === 'hex'
+		? fromHex(secret.value.replace(/^0x/, ''))
+		: new TextEncoder().encode(secret.value);
+};
+
+/// Generates a random secret of `SECRET_LENGTH` bytes with WebCrypto, hex encoded (with `0x`).
+export const generateSecret = (): EncodedSecret => {
+	const bytes = globalThis.crypto.getRandomValues(new Uint8Array(SECRET_LENGTH));
+	return { value: `0x${toHex(bytes)}`, encoding: 'hex' };
+};
+
+/// The hash commitment (32 bytes) of `secret`.
+export const hashSecret = (secret: Secret) => Uint8Array.from(keccak256.array(secretToBytes(secret)));
+
+/// The hash commitment of `secret`, as a hex string (the format stored by the indexer).
+export const hashSecretHex = (secret: Secret) => toHex(hashSecret(secret));
+
+/// Converts a hex commitment (with or without `0x`) to bytes, e.g. to pass it to a Move call.
+export const commitmentFromHex = (commitment: string) => fromHex(commitment.replace(/^0x/, ''));
+
+/// Whether `secret` unlocks `commitment` (hex, as stored by the indexer, or bytes).
+/// Invalid secrets don't unlock anything.
+export const verifySecret = (secret: Secret, commitment: string | Uint8Array | number[]) => {
+	if ('encoding' in secret && validateSecret(secret)) return false;
+
+	const expected =
+		typeof commitment === 'string' ? commitment.replace(/^0x/, '').toLowerCase() : toHex(Uint8Array.from(commitment));
+
+	return hashSecretHex(secret) === expected;
+};
@@ -0,0 +1,188 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { EventId, SuiEvent } from '@mysten/sui/client';
+
+/// The `parsedJson` of every event emitted by the escrow package.
+/// `ID`s & `address`es are hex strings, `u64`s are decimal strings and `vector<u8>`s are byte arrays.
+
+// === lock ===
+
+export type LockCreated = {
+	lock_id: string;
+	key_id: string;
+	creator: string;
+	item_id: string;
+	created_at: string;
+	expires_at: string;
+};
+
+export type LockDestroyed = {
+	lock_id: string;
+	// `false` if the timelock was broken
+	unlocked_with_key: boolean;
+};
+
+// === shared / owned ===
+
+export type EscrowCreated = {
+	escrow_id: string;
+	key_id: string;
+	sender: string;
+	recipient: string;
+	item_id: string;
+};
+
+export type OwnedEscrowCreated = EscrowCreated & {
+	escrowed_key: string;
+	custodian: string;
+};
+
+export type EscrowSwapped = {
+	escrow_id: string;
+};
+
+export type EscrowCancelled = {
+	escrow_id: string;
+};
+
+// === hashlock ===
+
+export type HashlockCreated = {
+	hashlock_id: string;
+	hash_commitment: number[];
+	sender: string;
+	recipient: string;
+	created_at: string;
+	expires_at: string;
+	item_id: string;
+};
+
+export type HashlockSecretRevealed = {
+	hashlock_id: string;
+	secret: number[];
+	secret_hash: number[];
+	revealer: string;
+};
+
+// === hashlock_shared / hashlock_owned ===
+
+export type HashlockEscrowCreated = {
+	escrow_id: string;
+	key_id: string;
+	sender: string;
+	recipient: string;
+	hash_commitment: number[];
+	created_at: string;
+	expires_at: string;
+	item_id: string;
+};
+
+export type OwnedHashlockEscrowCreated = Omit<HashlockEscrowCreated, 'key_id'> & {
+	exchange_key: string;
+	escrowed_key: string;
+};
+
+export type HashlockEscrowSwapped = {
+	escrow_id: string;
+	swapper: string;
+};
+
+export type OwnedHashlockEscrowSwapped = {
+	escrow_id: string;
+};
+
+export type HashlockEscrowCancelled = {
+	escrow_id: string;
+	// 0 = early cancellation, 1 = timeout
+	reason: number;
+};
+
+export type EscrowSecretRevealed = {
+	escrow_id: string;
+	secret: number[];
+	secret_hash: number[];
+	revealer: string;
+};
+
+/// The events of each module, keyed by their struct name.
+export type EscrowEvents = {
+	lock: { LockCreated: LockCreated; LockDestroyed: LockDestroyed };
+	shared: { EscrowCreated: EscrowCreated; EscrowSwapped: EscrowSwapped; EscrowCancelled: EscrowCancelled };
+	owned: { EscrowCreated: OwnedEscrowCreated; EscrowSwapped: EscrowSwapped; EscrowCancelled: EscrowCancelled };
+	hashlock: { HashlockCreated: HashlockCreated; SecretRevealed: HashlockSecretRevealed };
+	hashlock_shared: {
+		HashlockEscrowCreated: HashlockEscrowCreated;
+		HashlockEscrowSwapped: HashlockEscrowSwapped;
+		HashlockEscrowCancelled: HashlockEscrowCancelled;
+		SecretRevealed: EscrowSecretRevealed;
+	};
+	hashlock_owned: {
+		HashlockEscrowCreated: OwnedHashlockEscrowCreated;
+		HashlockEscrowSwapped: OwnedHashlockEscrowSwapped;
+		HashlockEscrowCancelled: HashlockEscrowCancelled;
+		SecretRevealed: EscrowSecretRevealed;
+	};
+};
+
+export type EscrowPackageModule = keyof EscrowEvents;
+
+/// A parsed event, narrowed by `module` & `type` (e.g. `module === 'lock' && type === 'LockCreated'`).
+export type ParsedEscrowEvent = {
+	[M in EscrowPackageModule]: {
+		[E in keyof EscrowEvents[M]]: {
+			module: M;
+			type: E;
+			data: EscrowEvents[M][E];
+			id: EventId;
+			sender: string;
+			timestampMs?: string | null;
+		};
+	}[keyof EscrowEvents[M]];
+}[EscrowPackageModule];
+
+const EVENT_NAMES: { [M in EscrowPackageModule]: (keyof EscrowEvents[M])[] } = {
+	lock: ['LockCreated', 'LockDestroyed'],
+	shared: ['EscrowCreated', 'EscrowSwapped', 'EscrowCancelled'],
+	owned: ['EscrowCreated', 'EscrowSwapped', 'EscrowCancelled'],
+	hashlock: ['HashlockCreated', 'SecretRevealed'],
+	hashlock_shared: [
+		'HashlockEscrowCreated',
+		'HashlockEscrowSwapped',
+		'HashlockEscrowCancelled',
+		'SecretRevealed',
+	],
+	hashlock_owned: [
+		'HashlockEscrowCreated',
+		'HashlockEscrowSwapped',
+		'HashlockEscrowCancelled',
+		'SecretRevealed',
+	],
+};
+
+/**
+ * Parses an event emitted by the escrow package published at `packageId`.
+ * Returns `null` for events of other packages, or events the SDK doesn't know about.
+ */
+export const parseEscrowEvent = (event: SuiEvent, packageId: string): ParsedEscrowEvent | null => {
+	const [eventPackage, module, type] = event.type.split('::');
+	if (eventPackage !== packageId || !Object.prototype.hasOwnProperty.call(EVENT_NAMES, module)) return null;
+
+	const names = EVENT_NAMES[module as EscrowPackageModule] as string[];
+	if (!names.includes(type)) return null;
+
+	return {
+		module,
+		type,
+		data: event.parsedJson,
+		id: event.id,
+		sender: event.sender,
+		timestampMs: event.timestampMs,
+	} as ParsedEscrowEvent;
+};
+
+/// Parses the escrow package events of a transaction (or a page of events), skipping unknown ones.
+export const parseEscrowEvents = (events: SuiEvent[], packageId: string) =>
+	events
+		.map((event) => parseEscrowEvent(event, packageId))
+		.filter((event): event is ParsedEscrowEvent => event !== null);
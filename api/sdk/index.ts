@@ -0,0 +1,20 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/// A typed SDK for the escrow package, shared by the API scripts & the frontend.
+/// It has no dependencies on the API's config or database, so it can run in the browser.
+
+export * as lock from './modules/lock';
+export * as shared from './modules/shared';
+export * as owned from './modules/owned';
+export * as hashlock from './modules/hashlock';
+export * as hashlockShared from './modules/hashlock-shared';
+export * as hashlockOwned from './modules/hashlock-owned';
+
+export * from './api-client';
+export * from './commitment';
+export * from './events';
+export * from './schemas';
+export * from './swap-orders';
+export * from './swap-planning';
+export { CLOCK_ID, type ObjectArg } from './utils';
@@ -0,0 +1,108 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction } from '@mysten/sui/transactions';
+
+import { CLOCK_ID, moveTarget, ObjectArg, objectArg } from '../utils';
+
+/// Builders for the `hashlock_owned` module (custodian escrows requiring a secret to be swapped).
+
+type CreateArgs = {
+	escrowedKey: string;
+	escrowed: ObjectArg;
+	exchangeKey: string;
+	recipient: string;
+	hashCommitment: number[] | Uint8Array;
+};
+
+/// Creates the escrow with the default timeout (24 hours). Returns the `HashlockEscrow<T>`.
+export const create = (txb: Transaction, packageId: string, args: CreateArgs, itemType: string) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock_owned', 'create'),
+		arguments: [
+			txb.pure.id(args.escrowedKey),
+			objectArg(txb, args.escrowed),
+			txb.pure.id(args.exchangeKey),
+			txb.pure.address(args.recipient),
+			txb.pure.vector('u8', Array.from(args.hashCommitment)),
+			txb.object(CLOCK_ID),
+		],
+		typeArguments: [itemType],
+	});
+
+/// Same as `create`, with a custom timeout (in ms).
+export const createWithDuration = (
+	txb: Transaction,
+	packageId: string,
+	args: CreateArgs & { timeoutDuration: number | bigint },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock_owned', 'create_with_duration'),
+		arguments: [
+			txb.pure.id(args.escrowedKey),
+			objectArg(txb, args.escrowed),
+			txb.pure.id(args.exchangeKey),
+			txb.pure.address(args.recipient),
+			txb.pure.vector('u8', Array.from(args.hashCommitment)),
+			txb.pure.u64(args.timeoutDuration),
+			txb.object(CLOCK_ID),
+		],
+		typeArguments: [itemType],
+	});
+
+const swapCall =
+	(fn: string) =>
+	(
+		txb: Transaction,
+		packageId: string,
+		args: { escrow1: ObjectArg; escrow2: ObjectArg; secret: number[] | Uint8Array },
+		typeArguments: [type1: string, type2: string],
+	) =>
+		txb.moveCall({
+			target: moveTarget(packageId, 'hashlock_owned', fn),
+			arguments: [
+				objectArg(txb, args.escrow1),
+				objectArg(txb, args.escrow2),
+				txb.pure.vector('u8', Array.from(args.secret)),
+				txb.object(CLOCK_ID),
+			],
+			typeArguments,
+		});
+
+/// Swaps two matching escrows sharing the same hash commitment, by revealing the secret.
+export const swapWithSecret = swapCall('swap_with_secret');
+export const swapHashlocksWithSecret = swapCall('swap_hashlocks_with_secret');
+
+const reclaimCall =
+	(fn: string) =>
+	(txb: Transaction, packageId: string, args: { escrow: ObjectArg }, itemType: string) =>
+		txb.moveCall({
+			target: moveTarget(packageId, 'hashlock_owned', fn),
+			arguments: [objectArg(txb, args.escrow), txb.object(CLOCK_ID)],
+			typeArguments: [itemType],
+		});
+
+/// Cancels the escrow, before or after its timeout (sender only). Returns the escrowed item.
+export const returnToSender = reclaimCall('return_to_sender');
+/// Takes the escrowed item back after the timeout (sender only). Returns the escrowed item.
+export const reclaimAfterTimeout = reclaimCall('reclaim_after_timeout');
+export const hasTimedOut = reclaimCall('has_timed_out');
+
+const view =
+	(fn: string) =>
+	(txb: Transaction, packageId: string, args: { escrow: ObjectArg }, itemType: string) =>
+		txb.moveCall({
+			target: moveTarget(packageId, 'hashlock_owned', fn),
+			arguments: [objectArg(txb, args.escrow)],
+			typeArguments: [itemType],
+		});
+
+export const hashCommitment = view('hash_commitment');
+export const timeoutDuration = view('timeout_duration');
+export const createdAt = view('created_at');
+export const getExpiryTime = view('get_expiry_time');
+export const sender = view('sender');
+export const recipient = view('recipient');
+export const exchangeKey = view('exchange_key');
+export const escrowedKey = view('escrowed_key');
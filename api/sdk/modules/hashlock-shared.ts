@@ -0,0 +1,147 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction } from '@mysten/sui/transactions';
+
+import { CLOCK_ID, moveTarget, ObjectArg, objectArg } from '../utils';
+
+/// Builders for the `hashlock_shared` module (shared escrows requiring a secret to be swapped).
+
+type CreateArgs = {
+	escrowed: ObjectArg;
+	exchangeKey: string;
+	recipient: string;
+	hashCommitment: number[] | Uint8Array;
+};
+
+/// Escrows `escrowed` (shared) with the default timeout (24 hours).
+export const createHashlockEscrow = (
+	txb: Transaction,
+	packageId: string,
+	args: CreateArgs,
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock_shared', 'create_hashlock_escrow'),
+		arguments: [
+			objectArg(txb, args.escrowed),
+			txb.pure.id(args.exchangeKey),
+			txb.pure.address(args.recipient),
+			txb.pure.vector('u8', Array.from(args.hashCommitment)),
+			txb.object(CLOCK_ID),
+		],
+		typeArguments: [itemType],
+	});
+
+/// Same as `createHashlockEscrow`, with a custom timeout (in ms).
+export const createHashlockEscrowWithDuration = (
+	txb: Transaction,
+	packageId: string,
+	args: CreateArgs & { timeoutDuration: number | bigint },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock_shared', 'create_hashlock_escrow_with_duration'),
+		arguments: [
+			objectArg(txb, args.escrowed),
+			txb.pure.id(args.exchangeKey),
+			txb.pure.address(args.recipient),
+			txb.pure.vector('u8', Array.from(args.hashCommitment)),
+			txb.pure.u64(args.timeoutDuration),
+			txb.object(CLOCK_ID),
+		],
+		typeArguments: [itemType],
+	});
+
+type SwapArgs = {
+	escrow: ObjectArg;
+	key: ObjectArg;
+	locked: ObjectArg;
+	secret: number[] | Uint8Array;
+};
+
+const swapCall =
+	(fn: string) =>
+	(
+		txb: Transaction,
+		packageId: string,
+		args: SwapArgs,
+		typeArguments: [escrowedType: string, lockedType: string],
+	) =>
+		txb.moveCall({
+			target: moveTarget(packageId, 'hashlock_shared', fn),
+			arguments: [
+				objectArg(txb, args.escrow),
+				objectArg(txb, args.key),
+				objectArg(txb, args.locked),
+				txb.pure.vector('u8', Array.from(args.secret)),
+				txb.object(CLOCK_ID),
+			],
+			typeArguments,
+		});
+
+/// Swaps the escrowed item for the `locked` object by revealing the secret (recipient only).
+/// Returns the escrowed item.
+export const swapWithSecret = swapCall('swap_with_secret');
+export const swapWithExistingSecret = swapCall('swap_with_existing_secret');
+
+/// Swaps the escrowed item for a `Hashlocked` object by revealing the secret (recipient only).
+/// Returns the escrowed item.
+export const swapHashlockForHashlock = (
+	txb: Transaction,
+	packageId: string,
+	args: { escrow: ObjectArg; hashlocked: ObjectArg; secret: number[] | Uint8Array },
+	typeArguments: [escrowedType: string, hashlockedType: string],
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock_shared', 'swap_hashlock_for_hashlock'),
+		arguments: [
+			objectArg(txb, args.escrow),
+			objectArg(txb, args.hashlocked),
+			txb.pure.vector('u8', Array.from(args.secret)),
+			txb.object(CLOCK_ID),
+		],
+		typeArguments,
+	});
+
+/// Cancels the escrow, before or after its timeout (sender only). Returns the escrowed item.
+export const returnToSender = (
+	txb: Transaction,
+	packageId: string,
+	args: { escrow: ObjectArg },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock_shared', 'return_to_sender'),
+		arguments: [objectArg(txb, args.escrow), txb.object(CLOCK_ID)],
+		typeArguments: [itemType],
+	});
+
+export const hasTimedOut = (
+	txb: Transaction,
+	packageId: string,
+	args: { escrow: ObjectArg },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock_shared', 'has_timed_out'),
+		arguments: [objectArg(txb, args.escrow), txb.object(CLOCK_ID)],
+		typeArguments: [itemType],
+	});
+
+const view =
+	(fn: string) =>
+	(txb: Transaction, packageId: string, args: { escrow: ObjectArg }, itemType: string) =>
+		txb.moveCall({
+			target: moveTarget(packageId, 'hashlock_shared', fn),
+			arguments: [objectArg(txb, args.escrow)],
+			typeArguments: [itemType],
+		});
+
+export const hashCommitment = view('hash_commitment');
+export const timeoutDuration = view('timeout_duration');
+export const createdAt = view('created_at');
+export const getExpiryTime = view('get_expiry_time');
+export const sender = view('sender');
+export const recipient = view('recipient');
+export const exchangeKey = view('exchange_key');
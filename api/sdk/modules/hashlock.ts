@@ -0,0 +1,108 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction } from '@mysten/sui/transactions';
+
+import { CLOCK_ID, moveTarget, ObjectArg, objectArg } from '../utils';
+
+/// Builders for the `hashlock` module (pure HTLCs). `T` is the type of the hashlocked item.
+
+/// Hashlocks `obj` for `recipient` with the default timeout (24 hours). Returns the `Hashlocked<T>`.
+export const createHashlock = (
+	txb: Transaction,
+	packageId: string,
+	args: { obj: ObjectArg; hashCommitment: number[] | Uint8Array; recipient: string },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock', 'create_hashlock'),
+		arguments: [
+			objectArg(txb, args.obj),
+			txb.pure.vector('u8', Array.from(args.hashCommitment)),
+			txb.pure.address(args.recipient),
+			txb.object(CLOCK_ID),
+		],
+		typeArguments: [itemType],
+	});
+
+/// Same as `createHashlock`, with a custom timeout (in ms).
+export const createHashlockWithDuration = (
+	txb: Transaction,
+	packageId: string,
+	args: {
+		obj: ObjectArg;
+		hashCommitment: number[] | Uint8Array;
+		recipient: string;
+		timeoutDuration: number | bigint;
+	},
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock', 'create_hashlock_with_duration'),
+		arguments: [
+			objectArg(txb, args.obj),
+			txb.pure.vector('u8', Array.from(args.hashCommitment)),
+			txb.pure.address(args.recipient),
+			txb.pure.u64(args.timeoutDuration),
+			txb.object(CLOCK_ID),
+		],
+		typeArguments: [itemType],
+	});
+
+/// Claims the item by revealing the secret (recipient only, before the timeout). Returns the item.
+export const claimWithSecret = (
+	txb: Transaction,
+	packageId: string,
+	args: { hashlock: ObjectArg; secret: number[] | Uint8Array },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock', 'claim_with_secret'),
+		arguments: [
+			objectArg(txb, args.hashlock),
+			txb.pure.vector('u8', Array.from(args.secret)),
+			txb.object(CLOCK_ID),
+		],
+		typeArguments: [itemType],
+	});
+
+/// Takes the item back after the timeout (sender only). Returns the item.
+export const reclaimAfterTimeout = (
+	txb: Transaction,
+	packageId: string,
+	args: { hashlock: ObjectArg },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock', 'reclaim_after_timeout'),
+		arguments: [objectArg(txb, args.hashlock), txb.object(CLOCK_ID)],
+		typeArguments: [itemType],
+	});
+
+export const hasTimedOut = (
+	txb: Transaction,
+	packageId: string,
+	args: { hashlock: ObjectArg },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'hashlock', 'has_timed_out'),
+		arguments: [objectArg(txb, args.hashlock), txb.object(CLOCK_ID)],
+		typeArguments: [itemType],
+	});
+
+const view =
+	(fn: string) =>
+	(txb: Transaction, packageId: string, args: { hashlock: ObjectArg }, itemType: string) =>
+		txb.moveCall({
+			target: moveTarget(packageId, 'hashlock', fn),
+			arguments: [objectArg(txb, args.hashlock)],
+			typeArguments: [itemType],
+		});
+
+export const hashCommitment = view('hash_commitment');
+export const sender = view('sender');
+export const recipient = view('recipient');
+export const getExpiryTime = view('get_expiry_time');
+export const getCreatedAt = view('get_created_at');
+export const getTimeoutDuration = view('get_timeout_duration');
@@ -0,0 +1,80 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction } from '@mysten/sui/transactions';
+
+import { CLOCK_ID, moveTarget, ObjectArg, objectArg } from '../utils';
+
+/// Builders for the `lock` module. `T` is the type of the locked item.
+
+/// Locks `obj` with the default timelock. Returns `[Locked<T>, Key]`.
+export const lock = (txb: Transaction, packageId: string, args: { obj: ObjectArg }, itemType: string) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'lock', 'lock'),
+		arguments: [objectArg(txb, args.obj), txb.object(CLOCK_ID)],
+		typeArguments: [itemType],
+	});
+
+/// Locks `obj`, which can be taken back without the key after `timelockDuration` ms. Returns `[Locked<T>, Key]`.
+export const lockWithTimelock = (
+	txb: Transaction,
+	packageId: string,
+	args: { obj: ObjectArg; timelockDuration: number | bigint },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'lock', 'lock_with_timelock'),
+		arguments: [objectArg(txb, args.obj), txb.pure.u64(args.timelockDuration), txb.object(CLOCK_ID)],
+		typeArguments: [itemType],
+	});
+
+/// Unlocks `locked` with its `key`. Returns the item.
+export const unlock = (
+	txb: Transaction,
+	packageId: string,
+	args: { locked: ObjectArg; key: ObjectArg },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'lock', 'unlock'),
+		arguments: [objectArg(txb, args.locked), objectArg(txb, args.key)],
+		typeArguments: [itemType],
+	});
+
+/// Takes the item out of `locked` once its timelock expired. Returns the item.
+export const breakTimelock = (
+	txb: Transaction,
+	packageId: string,
+	args: { locked: ObjectArg },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'lock', 'break_timelock'),
+		arguments: [objectArg(txb, args.locked), txb.object(CLOCK_ID)],
+		typeArguments: [itemType],
+	});
+
+export const isTimelockExpired = (
+	txb: Transaction,
+	packageId: string,
+	args: { locked: ObjectArg },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'lock', 'is_timelock_expired'),
+		arguments: [objectArg(txb, args.locked), txb.object(CLOCK_ID)],
+		typeArguments: [itemType],
+	});
+
+const view =
+	(fn: string) =>
+	(txb: Transaction, packageId: string, args: { locked: ObjectArg }, itemType: string) =>
+		txb.moveCall({
+			target: moveTarget(packageId, 'lock', fn),
+			arguments: [objectArg(txb, args.locked)],
+			typeArguments: [itemType],
+		});
+
+export const getExpiryTime = view('get_expiry_time');
+export const getCreatedAt = view('get_created_at');
+export const getTimelockDuration = view('get_timelock_duration');
@@ -0,0 +1,53 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction } from '@mysten/sui/transactions';
+
+import { moveTarget, ObjectArg, objectArg } from '../utils';
+
+/// Builders for the `owned` module (escrows held by a trusted custodian).
+
+/// Unlocks `locked` with its `key` and sends the escrow to `custodian`.
+export const create = (
+	txb: Transaction,
+	packageId: string,
+	args: { key: ObjectArg; locked: ObjectArg; exchangeKey: string; recipient: string; custodian: string },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'owned', 'create'),
+		arguments: [
+			objectArg(txb, args.key),
+			objectArg(txb, args.locked),
+			txb.pure.id(args.exchangeKey),
+			txb.pure.address(args.recipient),
+			txb.pure.address(args.custodian),
+		],
+		typeArguments: [itemType],
+	});
+
+/// Swaps two matching escrows (custodian only).
+export const swap = (
+	txb: Transaction,
+	packageId: string,
+	args: { obj1: ObjectArg; obj2: ObjectArg },
+	typeArguments: [type1: string, type2: string],
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'owned', 'swap'),
+		arguments: [objectArg(txb, args.obj1), objectArg(txb, args.obj2)],
+		typeArguments,
+	});
+
+/// Returns the escrowed item to its sender (custodian only).
+export const returnToSender = (
+	txb: Transaction,
+	packageId: string,
+	args: { obj: ObjectArg },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'owned', 'return_to_sender'),
+		arguments: [objectArg(txb, args.obj)],
+		typeArguments: [itemType],
+	});
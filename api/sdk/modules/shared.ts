@@ -0,0 +1,47 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction } from '@mysten/sui/transactions';
+
+import { moveTarget, ObjectArg, objectArg } from '../utils';
+
+/// Builders for the `shared` module.
+
+/// Escrows `escrowed` (shared) until `recipient` swaps it with the object locked by `exchangeKey`.
+export const create = (
+	txb: Transaction,
+	packageId: string,
+	args: { escrowed: ObjectArg; exchangeKey: string; recipient: string },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'shared', 'create'),
+		arguments: [objectArg(txb, args.escrowed), txb.pure.id(args.exchangeKey), txb.pure.address(args.recipient)],
+		typeArguments: [itemType],
+	});
+
+/// Swaps the escrowed item for the `locked` object (sent to the escrow's sender). Returns the escrowed item.
+export const swap = (
+	txb: Transaction,
+	packageId: string,
+	args: { escrow: ObjectArg; key: ObjectArg; locked: ObjectArg },
+	typeArguments: [escrowedType: string, lockedType: string],
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'shared', 'swap'),
+		arguments: [objectArg(txb, args.escrow), objectArg(txb, args.key), objectArg(txb, args.locked)],
+		typeArguments,
+	});
+
+/// Cancels the escrow. Returns the escrowed item.
+export const returnToSender = (
+	txb: Transaction,
+	packageId: string,
+	args: { escrow: ObjectArg },
+	itemType: string,
+) =>
+	txb.moveCall({
+		target: moveTarget(packageId, 'shared', 'return_to_sender'),
+		arguments: [objectArg(txb, args.escrow)],
+		typeArguments: [itemType],
+	});
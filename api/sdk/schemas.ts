@@ -0,0 +1,385 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/// The schemas of the API's requests & responses, defined once for the server (query validation,
+/// OpenAPI document) and its clients (types). Response schemas are a subset of OpenAPI 3.0 schemas.
+
+export type Schema = (
+	| { type: 'string'; format?: string; enum?: readonly string[] }
+	| { type: 'integer' | 'boolean' }
+	| { type: 'array'; items: Schema }
+	| { type: 'object'; properties: Record<string, Schema> }
+	// Free-form JSON objects (e.g. event payloads)
+	| { type: 'object'; additionalProperties: true }
+) & {
+	description?: string;
+	nullable?: boolean;
+	// Object properties only: the property can be left out
+	optional?: boolean;
+};
+
+type InferObject<P extends Record<string, Schema>> = {
+	[K in keyof P as P[K] extends { optional: true } ? never : K]: Infer<P[K]>;
+} & {
+	[K in keyof P as P[K] extends { optional: true } ? K : never]?: Infer<P[K]>;
+};
+
+type InferBase<S> = S extends { type: 'object'; properties: infer P extends Record<string, Schema> }
+	? { [K in keyof InferObject<P>]: InferObject<P>[K] }
+	: S extends { type: 'object'; additionalProperties: true }
+		? Record<string, unknown>
+		: S extends { type: 'array'; items: infer I }
+			? Infer<I>[]
+			: S extends { enum: readonly (infer E)[] }
+				? E
+				: S extends { type: 'string' }
+					? string
+					: S extends { type: 'integer' }
+						? number
+						: S extends { type: 'boolean' }
+							? boolean
+							: never;
+
+/// The TypeScript type of the values matching `S`.
+export type Infer<S> = S extends { nullable: true } ? InferBase<S> | null : InferBase<S>;
+
+const string = (description?: string) => ({ type: 'string' as const, description });
+const integer = (description?: string) => ({ type: 'integer' as const, description });
+const boolean = (description?: string) => ({ type: 'boolean' as const, description });
+const dateTime = (description?: string) => ({ type: 'string' as const, format: 'date-time', description });
+const address = (description?: string) => ({ ...string(description), format: 'sui-address' });
+const oneOf = <const E extends readonly string[]>(values: E, description?: string) => ({
+	type: 'string' as const,
+	enum: values,
+	description,
+});
+const array = <I extends Schema>(items: I, description?: string) => ({ type: 'array' as const, items, description });
+const object = <P extends Record<string, Schema>>(properties: P, description?: string) => ({
+	type: 'object' as const,
+	properties,
+	description,
+});
+const nullable = <S extends Schema>(schema: S) => ({ ...schema, nullable: true as const });
+const optional = <S extends Schema>(schema: S) => ({ ...schema, optional: true as const });
+
+export const LOCKED_MODULES = ['lock', 'hashlock'] as const;
+export const ESCROW_MODULES = ['shared', 'owned', 'hashlock_shared', 'hashlock_owned'] as const;
+
+// === Responses ===
+
+export const LockedSchema = object(
+	{
+		id: integer('The pagination cursor'),
+		objectId: string(),
+		keyId: nullable(string('The key unlocking the object (the object itself for hashlocks)')),
+		creator: nullable(string()),
+		itemId: nullable(string()),
+		deleted: boolean(),
+		module: nullable(oneOf(LOCKED_MODULES)),
+		createdAt: nullable(dateTime()),
+		expiresAt: nullable(dateTime()),
+		completedAt: nullable(dateTime()),
+		createdTxDigest: nullable(string()),
+		completedTxDigest: nullable(string()),
+		destroyedVia: nullable(oneOf(['key', 'timelock', 'secret'])),
+		itemType: nullable(string('The full Move type of the locked item')),
+		itemName: nullable(string()),
+		itemImageUrl: nullable(string()),
+	},
+	'An indexed `Locked` or `Hashlocked` object',
+);
+
+export const EscrowSchema = object(
+	{
+		id: integer('The pagination cursor'),
+		objectId: string(),
+		sender: nullable(string()),
+		recipient: nullable(string()),
+		keyId: nullable(string('The key of the requested locked object')),
+		itemId: nullable(string()),
+		swapped: boolean(),
+		cancelled: boolean(),
+		module: nullable(oneOf(ESCROW_MODULES)),
+		escrowedKey: nullable(string('`owned` escrows only')),
+		custodian: nullable(string('`owned` escrows only')),
+		createdAt: nullable(dateTime()),
+		expiresAt: nullable(dateTime()),
+		completedAt: nullable(dateTime()),
+		createdTxDigest: nullable(string()),
+		completedTxDigest: nullable(string()),
+		itemType: nullable(string('The full Move type of the escrowed item')),
+		itemName: nullable(string()),
+		itemImageUrl: nullable(string()),
+		isHashlock: boolean(),
+		hashCommitment: nullable(string('The keccak256 hash of the secret (hex)')),
+		timeoutMs: nullable(string()),
+		secretRevealed: nullable(string('The secret, once revealed (hex)')),
+	},
+	'An indexed escrow',
+);
+
+export const LockedDetailSchema = object(
+	{
+		...LockedSchema.properties,
+		escrows: array(EscrowSchema, 'The escrows requesting the locked object'),
+	},
+	'A locked object, with the escrows requesting it',
+);
+
+export const EscrowDetailSchema = object(
+	{
+		...EscrowSchema.properties,
+		locked: nullable({ ...LockedSchema, description: 'The requested locked object' }),
+	},
+	'An escrow, with the locked object it requests',
+);
+
+export const EventSchema = object(
+	{
+		id: integer('The pagination cursor'),
+		txDigest: string(),
+		eventSeq: string(),
+		module: string(),
+		type: string('The event struct name (e.g. `SecretRevealed`)'),
+		objectId: nullable(string()),
+		sender: string(),
+		parsedJson: { type: 'object', additionalProperties: true },
+		timestamp: nullable(dateTime()),
+	},
+	'An indexed event',
+);
+
+export const MatchesSchema = object({
+	address: string(),
+	incoming: array(
+		object(
+			{
+				escrow: EscrowSchema,
+				locked: LockedSchema,
+				swap: object({
+					target: string(),
+					typeArguments: nullable(array(string(), '`[escrowed item type, locked item type]`')),
+					escrow: string(),
+					key: string(),
+					locked: string(),
+				}),
+			},
+			'An open escrow requesting one of the locked objects of `address`',
+		),
+	),
+	reciprocal: array(
+		object(
+			{
+				counterparty: string(),
+				escrow: EscrowSchema,
+				locked: LockedSchema,
+			},
+			'A locked object of a counterparty that already wants one of the locked objects of `address`',
+		),
+	),
+});
+
+export const paginated = <S extends Schema>(items: S) =>
+	object({
+		data: array(items),
+		cursor: optional(integer('Pass it as `cursor` to get the next page (left out on the last page)')),
+	});
+
+export const API_ERROR_CODES = [
+	'invalid_query',
+	'invalid_request',
+	'invalid_transaction',
+	'not_found',
+	'internal_error',
+] as const;
+
+export const ApiErrorSchema = object(
+	{
+		code: oneOf(API_ERROR_CODES),
+		message: string(),
+		issues: optional(
+			array(
+				object({
+					param: string(),
+					message: string(),
+				}),
+				'`invalid_query` only: the invalid query parameters',
+			),
+		),
+	},
+	'The body of every error response',
+);
+
+export type ApiLocked = Infer<typeof LockedSchema>;
+export type ApiEscrow = Infer<typeof EscrowSchema>;
+export type ApiLockedDetail = Infer<typeof LockedDetailSchema>;
+export type ApiEscrowDetail = Infer<typeof EscrowDetailSchema>;
+export type ApiEvent = Infer<typeof EventSchema>;
+export type ApiMatches = Infer<typeof MatchesSchema>;
+export type ApiErrorBody = Infer<typeof ApiErrorSchema>;
+export type ApiErrorCode = ApiErrorBody['code'];
+export type Paginated<T> = { data: T[]; cursor?: number };
+
+// === Query parameters ===
+
+export type QueryParamSchema = {
+	/// `date`s accept ms timestamps or ISO dates.
+	type: 'string' | 'integer' | 'boolean' | 'date' | 'address' | 'move-type';
+	description: string;
+	enum?: readonly string[];
+	// Accepts comma-separated values (e.g. `module=shared,owned`)
+	list?: boolean;
+	// `date`s only: also accepts ranges (e.g. `createdAt[gte]=...`)
+	ranges?: boolean;
+	required?: boolean;
+};
+
+export type QuerySchema = Record<string, QueryParamSchema>;
+
+export const RANGE_OPERATORS = ['gt', 'gte', 'lt', 'lte'] as const;
+
+type DateValue = string | number;
+
+type QueryValue<P> = P extends { type: 'boolean' }
+	? boolean | 'true' | 'false'
+	: P extends { type: 'integer' }
+		? number | string
+		: P extends { ranges: true }
+			? DateValue | Partial<Record<(typeof RANGE_OPERATORS)[number], DateValue>>
+			: P extends { type: 'date' }
+				? DateValue
+				: P extends { list: true }
+					? string
+					: P extends { enum: readonly (infer E)[] }
+						? E
+						: string;
+
+/// The query accepted by a route. Values are optional on the client, the API enforces `required` ones.
+export type InferQuery<Q extends QuerySchema> = { [K in keyof Q]?: QueryValue<Q[K]> };
+
+const pagination = <const F extends readonly string[]>(sortableFields: F) =>
+	({
+		limit: { type: 'integer', description: 'The page size (at most 50)' },
+		cursor: { type: 'integer', description: 'The `cursor` of the previous page' },
+		sort: { type: 'string', enum: ['asc', 'desc'], description: 'Defaults to `desc`' },
+		sortBy: {
+			type: 'string',
+			enum: ['id', ...sortableFields] as const,
+			description: 'Rows without the sorted field are left out. Defaults to `id`',
+		},
+	}) satisfies QuerySchema;
+
+const dateFilter = (description: string) => ({ type: 'date', ranges: true, description }) as const;
+
+const itemFilters = {
+	itemType: { type: 'move-type', description: 'The full Move type of the item' },
+	itemPackage: { type: 'address', description: 'The package defining the item type' },
+} as const satisfies QuerySchema;
+
+export const LockedQuerySchema = {
+	deleted: { type: 'boolean', description: 'Whether the object was unlocked' },
+	creator: { type: 'address', list: true, description: 'The creator(s)' },
+	keyId: { type: 'address', list: true, description: 'The key(s)' },
+	objectId: { type: 'address', list: true, description: 'The locked object(s)' },
+	module: { type: 'string', enum: LOCKED_MODULES, list: true, description: 'The module(s)' },
+	...itemFilters,
+	createdAt: dateFilter('When the object was locked'),
+	expiresAt: dateFilter('When the timelock / hashlock expires'),
+	completedAt: dateFilter('When the object was unlocked'),
+	expired: {
+		type: 'boolean',
+		description: 'Objects whose timelock expired (and which are still locked), or the ones that did not',
+	},
+	...pagination(['createdAt', 'expiresAt', 'completedAt']),
+} as const satisfies QuerySchema;
+
+export const EscrowsQuerySchema = {
+	cancelled: { type: 'boolean', description: 'Whether the escrow was cancelled' },
+	swapped: { type: 'boolean', description: 'Whether the escrow was swapped' },
+	recipient: { type: 'address', list: true, description: 'The recipient(s)' },
+	sender: { type: 'address', list: true, description: 'The sender(s)' },
+	involving: { type: 'address', description: 'Escrows sent or received by the address' },
+	isHashlock: { type: 'boolean', description: 'Whether the escrow requires a secret' },
+	module: { type: 'string', enum: ESCROW_MODULES, list: true, description: 'The module(s)' },
+	custodian: { type: 'address', list: true, description: 'The custodian(s) (`owned` escrows)' },
+	escrowedKey: { type: 'address', list: true, description: 'The escrowed key(s) (`owned` escrows)' },
+	keyId: { type: 'address', list: true, description: 'The key(s) of the requested locked objects' },
+	objectId: { type: 'address', list: true, description: 'The escrow(s)' },
+	...itemFilters,
+	createdAt: dateFilter('When the escrow was created'),
+	expiresAt: dateFilter('When the hashlock escrow times out'),
+	completedAt: dateFilter('When the escrow was swapped or cancelled'),
+	expired: {
+		type: 'boolean',
+		description: 'Hashlock escrows past their timeout (and still open), or the ones that are not',
+	},
+	...pagination(['createdAt', 'expiresAt', 'completedAt']),
+} as const satisfies QuerySchema;
+
+export const EventsQuerySchema = {
+	objectId: { type: 'address', list: true, description: 'The object(s) the events refer to' },
+	type: { type: 'string', list: true, description: 'The event struct name(s) (e.g. `SecretRevealed`)' },
+	module: { type: 'string', list: true, description: 'The module(s) that emitted the events' },
+	txDigest: { type: 'string', list: true, description: 'The transaction(s)' },
+	address: { type: 'address', description: 'The transaction sender, or an address of the event (e.g. a recipient)' },
+	from: { type: 'date', description: 'Events emitted at or after this time' },
+	to: { type: 'date', description: 'Events emitted at or before this time' },
+	...pagination([]),
+} as const satisfies QuerySchema;
+
+export const MatchesQuerySchema = {
+	address: { type: 'address', required: true, description: 'The address to find swaps for' },
+} as const satisfies QuerySchema;
+
+export type LockedQuery = InferQuery<typeof LockedQuerySchema>;
+export type EscrowsQuery = InferQuery<typeof EscrowsQuerySchema>;
+export type EventsQuery = InferQuery<typeof EventsQuerySchema>;
+export type MatchesQuery = InferQuery<typeof MatchesQuerySchema>;
+
+// === Transaction requests (`POST /tx/*`) ===
+
+export const TxRequestSchemas = {
+	lock: object({
+		sender: address(),
+		objectId: address('The object to lock'),
+		timelockMs: optional(integer('A custom timelock, in ms')),
+	}),
+	escrow: object({
+		sender: address(),
+		objectId: address('The object to escrow'),
+		lockedId: address('The requested locked object'),
+	}),
+	'hashlock-escrow': object({
+		sender: address(),
+		objectId: address('The object to escrow'),
+		lockedId: address('The requested locked object'),
+		hashCommitment: string('The keccak256 hash of the secret (32 bytes, hex)'),
+		timeoutMs: optional(integer('Defaults to 24 hours')),
+	}),
+	swap: object({
+		sender: address('The recipient of the `shared` escrow'),
+		escrowId: address(),
+	}),
+	reveal: object({
+		sender: address('The recipient of the `hashlock_shared` escrow'),
+		escrowId: address(),
+		secret: string(),
+		secretEncoding: optional(oneOf(['utf8', 'hex'], 'Defaults to `utf8`')),
+	}),
+	cancel: object({
+		sender: address('The sender of the escrow'),
+		escrowId: address(),
+	}),
+};
+
+export const TxResponseSchema = object(
+	{
+		sender: address(),
+		bytes: string('The unsigned transaction (base64), ready to be signed by `sender`'),
+	},
+	'An unsigned transaction',
+);
+
+export type TxRoute = keyof typeof TxRequestSchemas;
+export type TxRequest<R extends TxRoute> = Infer<(typeof TxRequestSchemas)[R]>;
+export type TxResponse = Infer<typeof TxResponseSchema>;
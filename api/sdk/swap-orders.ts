@@ -0,0 +1,86 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+
+/// The signed intents of the cross-chain order book (`crosschain-swap/api`). Makers offer SUI for ETH,
+/// and sign their intent (as a personal message, with their Sui wallet) so the order book can't forge or alter
+/// it. Takers sign when they accept an order. The messages are plain text, so wallets show what is signed.
+
+/// A maker's offer: `amount` SUI, for `ethAmount` ETH locked for `ethReceiver`, with the same hashlock.
+export type SwapIntent = {
+	// The Sui address of the maker, who signs the intent & locks the SUI
+	maker: string;
+	// The SUI offered, in MIST
+	amount: string;
+	// The ETH requested, in wei
+	ethAmount: string;
+	// The Ethereum address the taker locks the ETH for
+	ethReceiver: string;
+	// keccak256 of the maker's secret (hex, with or without `0x`), the hashlock of both legs of the swap
+	hashlock: string;
+	// When the order leaves the book (ms timestamp)
+	expiresAt: number;
+};
+
+/// A taker accepting an order of the book.
+export type OrderAcceptance = {
+	orderId: number;
+	// The hashlock of the order, so a signature can't be replayed on another book
+	hashlock: string;
+	// The Sui address of the taker, who signs the acceptance
+	taker: string;
+};
+
+const UINT_PATTERN = /^[1-9][0-9]*$/;
+const ETH_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const HASHLOCK_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+
+const normalizeHashlock = (hashlock: string) => hashlock.replace(/^0x/, '').toLowerCase();
+
+/// Why `intent` can't be posted, if it can't. Only checks its format; the signature is checked by the order book.
+export const swapIntentError = (intent: SwapIntent, now = Date.now()): string | undefined => {
+	if (typeof intent.maker !== 'string' || !isValidSuiAddress(normalizeSuiAddress(intent.maker))) {
+		return 'Invalid maker address';
+	}
+	if (typeof intent.amount !== 'string' || !UINT_PATTERN.test(intent.amount)) {
+		return 'The SUI amount must be a positive integer (in MIST)';
+	}
+	if (typeof intent.ethAmount !== 'string' || !UINT_PATTERN.test(intent.ethAmount)) {
+		return 'The ETH amount must be a positive integer (in wei)';
+	}
+	if (typeof intent.ethReceiver !== 'string' || !ETH_ADDRESS_PATTERN.test(intent.ethReceiver)) {
+		return 'The ETH receiver must be a 20-byte hex address';
+	}
+	if (typeof intent.hashlock !== 'string' || !HASHLOCK_PATTERN.test(intent.hashlock)) {
+		return 'The hashlock must be 32 bytes of hex';
+	}
+	if (!Number.isSafeInteger(intent.expiresAt) || intent.expiresAt <= now) {
+		return 'The order must expire in the future';
+	}
+};
+
+/// The message a maker signs to post `intent`. Addresses & the hashlock are normalized first.
+export const swapIntentMessage = (intent: SwapIntent) =>
+	[
+		'Cross-chain swap order',
+		`Maker: ${normalizeSuiAddress(intent.maker)}`,
+		`Offers: ${intent.amount} MIST`,
+		`For: ${intent.ethAmount} wei`,
+		`ETH receiver: ${intent.ethReceiver.toLowerCase()}`,
+		`Hashlock: ${normalizeHashlock(intent.hashlock)}`,
+		`Expires: ${new Date(intent.expiresAt).toISOString()}`,
+	].join('\n');
+
+/// The message a taker signs to accept an order.
+export const orderAcceptanceMessage = ({ orderId, hashlock, taker }: OrderAcceptance) =>
+	[
+		'Accept cross-chain swap order',
+		`Order: ${orderId}`,
+		`Hashlock: ${normalizeHashlock(hashlock)}`,
+		`Taker: ${normalizeSuiAddress(taker)}`,
+	].join('\n');
+
+/// The price of an order in ETH per SUI, as a float (to compare & show orders, not to compute amounts).
+export const orderRate = ({ amount, ethAmount }: Pick<SwapIntent, 'amount' | 'ethAmount'>) =>
+	(Number(ethAmount) / 1e18) / (Number(amount) / 1e9);
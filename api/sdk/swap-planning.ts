@@ -0,0 +1,182 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/// Deadline planning for two-leg atomic swaps (e.g. a Sui escrow & its EVM mirror lock).
+///
+/// The maker holds the secret and locks first; the taker then locks the other leg with the same
+/// hashlock. The maker reveals the secret to claim the taker's lock, and the taker claims the maker's
+/// lock with it. So the taker's lock must expire first, early enough that a secret revealed right before
+/// its deadline is final & can still be used on the maker's chain. Otherwise the maker can claim the
+/// taker's lock at the last moment, and refund their own lock before the taker gets to claim it.
+///
+/// Timing is not enough: the maker's lock must also pay the taker once claimed with the secret.
+/// A lock paying its creator back, someone else, or whoever claims it first (the maker knows the secret
+/// first), can never be safely joined, whatever the deadlines (see `lockPayoutError`).
+
+export type SwapChain = 'sui' | 'evm';
+
+/// How long a transaction takes to be final (irreversible) on each chain, by default.
+/// Sui checkpoints are final in seconds; Ethereum blocks are finalized after ~2 epochs (~13 minutes).
+export const DEFAULT_FINALITY_MS: Record<SwapChain, number> = {
+	sui: 10_000,
+	evm: 15 * 60_000,
+};
+
+/// Extra time for the taker to notice a revealed secret & claim (relayer latency, downtime, clock drift).
+export const DEFAULT_SAFETY_MARGIN_MS = 30 * 60_000;
+
+/// The shortest time the maker gets to reveal the secret once the taker's lock is final.
+export const DEFAULT_MIN_REVEAL_WINDOW_MS = 30 * 60_000;
+
+/// Who a lock pays once claimed with the secret: the counterparty (`taker`), its creator (`maker`),
+/// the sender of the claim (`claimer`), or anyone else (`other`).
+export type SwapPayee = 'taker' | 'maker' | 'claimer' | 'other';
+
+export type SwapOptions = {
+	// The chain of the maker's lock (the first one, whose creator holds the secret)
+	makerChain: SwapChain;
+	// The chain of the taker's (mirror) lock
+	takerChain: SwapChain;
+	// Who the maker's lock pays once claimed (see `lockPayee` for locks paying a recipient)
+	makerLockPayee: SwapPayee;
+	finalityMs?: Partial<Record<SwapChain, number>>;
+	safetyMarginMs?: number;
+	minRevealWindowMs?: number;
+	// The current time (ms), defaults to `Date.now()`
+	now?: number;
+};
+
+/// The deadlines (ms timestamps) of both legs of a swap.
+export type SwapDeadlines = {
+	makerDeadline: number;
+	takerDeadline: number;
+};
+
+/// The taker deadlines that keep a swap safe, for a given maker deadline.
+export type SwapPlan = {
+	makerDeadline: number;
+	takerDeadline: {
+		earliest: number;
+		latest: number;
+		// The latest safe deadline, which gives the maker the most time to reveal the secret
+		recommended: number;
+	};
+};
+
+export type SwapVerdict = {
+	safe: boolean;
+	// Why the swap is unsafe (empty when it's safe)
+	reasons: string[];
+	// How long the maker's lock outlives the taker's one, and how long it must
+	gapMs: number;
+	requiredGapMs: number;
+};
+
+/// Thrown when no taker deadline keeps a swap safe.
+export class UnsafeSwapError extends Error {}
+
+const resolveTiming = ({
+	makerChain,
+	takerChain,
+	finalityMs,
+	safetyMarginMs = DEFAULT_SAFETY_MARGIN_MS,
+	minRevealWindowMs = DEFAULT_MIN_REVEAL_WINDOW_MS,
+	now = Date.now(),
+}: SwapOptions) => {
+	const finality = { ...DEFAULT_FINALITY_MS, ...finalityMs };
+
+	return {
+		now,
+		// The secret revealed on the taker's chain must be final, then the taker's claim on the maker's chain.
+		requiredGapMs: finality[takerChain] + finality[makerChain] + safetyMarginMs,
+		// The taker's lock must be final before the maker reveals, then the reveal must be final in time.
+		minTakerDurationMs: 2 * finality[takerChain] + minRevealWindowMs,
+	};
+};
+
+const formatDuration = (ms: number) => {
+	const minutes = Math.ceil(ms / 60_000);
+	return minutes >= 120 ? `${Math.round((minutes / 60) * 10) / 10}h` : `${minutes}min`;
+};
+
+/// Who a lock paying a fixed `recipient` once claimed (e.g. `crosschain_htlc::escrow`) pays, for `taker`.
+/// Addresses are compared as is, so they must be normalized the same way.
+export const lockPayee = ({ creator, recipient }: { creator: string; recipient: string }, taker: string): SwapPayee => {
+	if (recipient === taker) return 'taker';
+	return recipient === creator ? 'maker' : 'other';
+};
+
+/// Why the taker can't get paid by claiming the maker's lock, if they can't.
+export const lockPayoutError = ({ makerChain, makerLockPayee }: SwapOptions) => {
+	if (makerLockPayee === 'maker') {
+		return `Claiming the ${makerChain} lock pays its creator back: the taker never gets paid`;
+	}
+	if (makerLockPayee === 'claimer') {
+		return `Claiming the ${makerChain} lock pays whoever claims it first, and the maker knows the secret first`;
+	}
+	if (makerLockPayee === 'other') {
+		return `Claiming the ${makerChain} lock pays someone other than the taker`;
+	}
+	return undefined;
+};
+
+/// The earliest maker deadline that leaves room for a safe taker lock.
+export const minMakerDeadline = (options: SwapOptions) => {
+	const { now, requiredGapMs, minTakerDurationMs } = resolveTiming(options);
+	return now + minTakerDurationMs + requiredGapMs;
+};
+
+/// Plans the taker's deadline for a maker deadline (e.g. the EVM lock mirroring a Sui escrow).
+/// Throws `UnsafeSwapError` if the maker's lock expires too soon for any taker deadline to be safe.
+/// Only the timing is planned: use `assessSwap` to check that a swap can be joined.
+export const planSwapDeadlines = (makerDeadline: number, options: SwapOptions): SwapPlan => {
+	const { now, requiredGapMs, minTakerDurationMs } = resolveTiming(options);
+	const earliest = now + minTakerDurationMs;
+	const latest = makerDeadline - requiredGapMs;
+
+	if (latest < earliest) {
+		throw new UnsafeSwapError(
+			`The ${options.makerChain} lock expires too soon: it must last at least ${formatDuration(
+				minTakerDurationMs + requiredGapMs,
+			)} for the ${options.takerChain} lock to be safe`,
+		);
+	}
+
+	return { makerDeadline, takerDeadline: { earliest, latest, recommended: latest } };
+};
+
+/// Checks a swap before joining it as the taker. The swap is safe if the maker's lock pays the taker,
+/// and the taker's lock expires early enough before the maker's one, while still leaving the maker
+/// enough time to reveal the secret.
+export const assessSwap = (
+	{ makerDeadline, takerDeadline }: SwapDeadlines,
+	options: SwapOptions,
+): SwapVerdict => {
+	const { now, requiredGapMs, minTakerDurationMs } = resolveTiming(options);
+	const gapMs = makerDeadline - takerDeadline;
+	const reasons: string[] = [];
+
+	const payoutError = lockPayoutError(options);
+	if (payoutError) reasons.push(payoutError);
+	if (makerDeadline <= now) reasons.push(`The ${options.makerChain} lock has expired`);
+	if (gapMs <= 0) {
+		reasons.push(
+			`The ${options.takerChain} lock outlives the ${options.makerChain} lock: the secret could be revealed after the ${options.makerChain} lock is refunded`,
+		);
+	} else if (gapMs < requiredGapMs) {
+		reasons.push(
+			`The ${options.makerChain} lock must outlive the ${options.takerChain} lock by at least ${formatDuration(
+				requiredGapMs,
+			)} (it does by ${formatDuration(gapMs)})`,
+		);
+	}
+	if (takerDeadline - now < minTakerDurationMs) {
+		reasons.push(
+			`The ${options.takerChain} lock must last at least ${formatDuration(
+				minTakerDurationMs,
+			)}, to leave time to reveal the secret`,
+		);
+	}
+
+	return { safe: reasons.length === 0, reasons, gapMs, requiredGapMs };
+};
@@ -0,0 +1,17 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+
+/// An object input: either an object ID, or the result of a previous command of the PTB.
+export type ObjectArg = string | TransactionObjectArgument;
+
+/// The shared `Clock` object.
+export const CLOCK_ID = '0x6';
+
+export const objectArg = (txb: Transaction, arg: ObjectArg) =>
+	typeof arg === 'string' ? txb.object(arg) : arg;
+
+/// Builds the `package::module::function` target of a Move call.
+export const moveTarget = (packageId: string, module: string, fn: string) =>
+	`${packageId}::${module}::${fn}`;
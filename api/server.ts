@@ -1,17 +1,42 @@
 // Copyright (c) Mysten Labs, Inc.
 // SPDX-License-Identifier: Apache-2.0
 
+import { normalizeSuiAddress } from '@mysten/sui/utils';
 import cors from 'cors';
 import express from 'express';
 
 import { prisma } from './db';
+import {
+	EscrowsQuerySchema,
+	EventsQuerySchema,
+	LockedQuerySchema,
+	MatchesQuerySchema,
+	TxResponse,
+	TxRoute,
+} from './sdk';
+import { notFound, sendError } from './utils/api-errors';
 import {
 	formatPaginatedResponse,
 	parsePaginationForQuery,
+	parseSortFilter,
+	parseTimeRange,
 	parseWhereStatement,
 	WhereParam,
 	WhereParamTypes,
 } from './utils/api-queries';
+import { subscribeToChanges } from './utils/change-stream';
+import { formatPrometheusMetrics, getIndexerHealth } from './utils/indexer-health';
+import { findMatches } from './utils/matchmaking';
+import { buildOpenApiDocument } from './utils/openapi';
+import { withQuery } from './utils/query-validation';
+import {
+	prepareCancelTransaction,
+	prepareEscrowTransaction,
+	prepareHashlockEscrowTransaction,
+	prepareLockTransaction,
+	prepareRevealTransaction,
+	prepareSwapTransaction,
+} from './utils/tx-requests';
 
 const app = express();
 app.use(cors());
@@ -23,8 +48,40 @@ app.get('/', async (req, res) => {
 	return res.send({ message: '🚀 API is functional 🚀' });
 });
 
+/// The OpenAPI document of the routes below, generated from the shared schemas (`sdk/schemas.ts`).
+const openApiDocument = buildOpenApiDocument();
+
 // @ts-ignore
-app.get('/locked', async (req, res) => {
+app.get('/openapi.json', async (req, res) => {
+	return res.send(openApiDocument);
+});
+
+/// Reports the health of each indexer tracker. Responds with `503` if any of them is unhealthy.
+// @ts-ignore
+app.get('/health', async (req, res) => {
+	try {
+		const health = await getIndexerHealth();
+		return res.status(health.healthy ? 200 : 503).send(health);
+	} catch (e) {
+		console.error(e);
+		return res.status(503).send({ healthy: false });
+	}
+});
+
+/// Exposes the indexer health in the Prometheus text format.
+// @ts-ignore
+app.get('/metrics', async (req, res) => {
+	try {
+		const health = await getIndexerHealth();
+		return res.type('text/plain; version=0.0.4').send(formatPrometheusMetrics(health));
+	} catch (e) {
+		console.error(e);
+		return res.status(500).send();
+	}
+});
+
+// @ts-ignore
+app.get('/locked', withQuery(LockedQuerySchema), async (req, res) => {
 	const acceptedQueries: WhereParam[] = [
 		{
 			key: 'deleted',
@@ -32,33 +89,89 @@ app.get('/locked', async (req, res) => {
 		},
 		{
 			key: 'creator',
-			type: WhereParamTypes.STRING,
+			type: WhereParamTypes.ADDRESS,
 		},
 		{
 			key: 'keyId',
-			type: WhereParamTypes.STRING,
+			type: WhereParamTypes.ADDRESS,
 		},
 		{
 			key: 'objectId',
+			type: WhereParamTypes.ADDRESS,
+		},
+		{
+			key: 'module',
 			type: WhereParamTypes.STRING,
 		},
+		{
+			key: 'itemType',
+			type: WhereParamTypes.MOVE_TYPE,
+		},
+		{
+			key: 'itemPackage',
+			type: WhereParamTypes.PACKAGE,
+			fields: ['itemType'],
+		},
+		{
+			key: 'createdAt',
+			type: WhereParamTypes.DATE,
+		},
+		{
+			key: 'expiresAt',
+			type: WhereParamTypes.DATE,
+		},
+		{
+			key: 'completedAt',
+			type: WhereParamTypes.DATE,
+		},
+		{
+			// Objects whose timelock expired (and which are still locked)
+			key: 'expired',
+			type: WhereParamTypes.COMPUTED,
+			compute: (expired) =>
+				expired
+					? { deleted: false, expiresAt: { lte: new Date() } }
+					: { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+		},
 	];
+	const sortableFields = ['createdAt', 'expiresAt', 'completedAt'];
 
 	try {
 		const locked = await prisma.locked.findMany({
-			where: parseWhereStatement(req.query, acceptedQueries)!,
-			...parsePaginationForQuery(req.query),
+			where: {
+				AND: [parseWhereStatement(req.query, acceptedQueries), parseSortFilter(req.query, sortableFields)],
+			},
+			...parsePaginationForQuery(req.query, sortableFields),
 		});
 
 		return res.send(formatPaginatedResponse(locked));
 	} catch (e) {
-		console.error(e);
-		return res.status(400).send(e);
+		return sendError(res, e);
 	}
 });
 
+/// Returns a single locked object, embedding any escrows that target it (by `keyId`).
 // @ts-ignore
-app.get('/escrows', async (req, res) => {
+app.get('/locked/:objectId', async (req, res) => {
+	try {
+		const locked = await prisma.locked.findUnique({
+			where: { objectId: normalizeSuiAddress(req.params.objectId) },
+		});
+
+		if (!locked) throw notFound('Locked object not found');
+
+		const escrows = locked.keyId
+			? await prisma.escrow.findMany({ where: { keyId: locked.keyId }, orderBy: { id: 'desc' } })
+			: [];
+
+		return res.send({ ...locked, escrows });
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+// @ts-ignore
+app.get('/escrows', withQuery(EscrowsQuerySchema), async (req, res) => {
 	const acceptedQueries: WhereParam[] = [
 		{
 			key: 'cancelled',
@@ -70,29 +183,219 @@ app.get('/escrows', async (req, res) => {
 		},
 		{
 			key: 'recipient',
-			type: WhereParamTypes.STRING,
+			type: WhereParamTypes.ADDRESS,
 		},
 		{
 			key: 'sender',
-			type: WhereParamTypes.STRING,
+			type: WhereParamTypes.ADDRESS,
 		},
 		{
 			key: 'isHashlock',
 			type: WhereParamTypes.BOOLEAN,
 		},
+		{
+			key: 'module',
+			type: WhereParamTypes.STRING,
+		},
+		{
+			key: 'custodian',
+			type: WhereParamTypes.ADDRESS,
+		},
+		{
+			key: 'escrowedKey',
+			type: WhereParamTypes.ADDRESS,
+		},
+		{
+			key: 'keyId',
+			type: WhereParamTypes.ADDRESS,
+		},
+		{
+			key: 'objectId',
+			type: WhereParamTypes.ADDRESS,
+		},
+		{
+			key: 'involving',
+			type: WhereParamTypes.ANY_OF,
+			fields: ['sender', 'recipient'],
+		},
+		{
+			key: 'itemType',
+			type: WhereParamTypes.MOVE_TYPE,
+		},
+		{
+			key: 'itemPackage',
+			type: WhereParamTypes.PACKAGE,
+			fields: ['itemType'],
+		},
+		{
+			key: 'createdAt',
+			type: WhereParamTypes.DATE,
+		},
+		{
+			key: 'expiresAt',
+			type: WhereParamTypes.DATE,
+		},
+		{
+			key: 'completedAt',
+			type: WhereParamTypes.DATE,
+		},
+		{
+			// Hashlock escrows past their timeout that haven't been swapped or cancelled yet
+			key: 'expired',
+			type: WhereParamTypes.COMPUTED,
+			compute: (expired) =>
+				expired
+					? { isHashlock: true, swapped: false, cancelled: false, expiresAt: { lte: new Date() } }
+					: { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+		},
 	];
+	const sortableFields = ['createdAt', 'expiresAt', 'completedAt'];
 
 	try {
 		const escrows = await prisma.escrow.findMany({
-			where: parseWhereStatement(req.query, acceptedQueries)!,
-			...parsePaginationForQuery(req.query),
+			where: {
+				AND: [parseWhereStatement(req.query, acceptedQueries), parseSortFilter(req.query, sortableFields)],
+			},
+			...parsePaginationForQuery(req.query, sortableFields),
 		});
 
 		return res.send(formatPaginatedResponse(escrows));
 	} catch (e) {
-		console.error(e);
-		return res.status(400).send(e);
+		return sendError(res, e);
 	}
 });
 
+/// Returns a single escrow, embedding the locked object it requests (by `keyId`).
+// @ts-ignore
+app.get('/escrows/:objectId', async (req, res) => {
+	try {
+		const escrow = await prisma.escrow.findUnique({
+			where: { objectId: normalizeSuiAddress(req.params.objectId) },
+		});
+
+		if (!escrow) throw notFound('Escrow not found');
+
+		const locked = escrow.keyId
+			? await prisma.locked.findFirst({ where: { keyId: escrow.keyId } })
+			: null;
+
+		return res.send({ ...escrow, locked });
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+/// Proposes the swaps available to `address` (see `utils/matchmaking.ts`).
+// @ts-ignore
+app.get('/matches', withQuery(MatchesQuerySchema), async (req, res) => {
+	try {
+		return res.send(await findMatches(normalizeSuiAddress(req.query.address as string)));
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+/// Builds unsigned transactions (base64 bytes) for `sender`, resolving types from the index.
+/// Wallets & bots sign and execute them on their own.
+const TX_ROUTES: Record<TxRoute, (body: Record<string, any>) => Promise<TxResponse>> = {
+	lock: prepareLockTransaction,
+	escrow: prepareEscrowTransaction,
+	'hashlock-escrow': prepareHashlockEscrowTransaction,
+	swap: prepareSwapTransaction,
+	reveal: prepareRevealTransaction,
+	cancel: prepareCancelTransaction,
+};
+
+for (const [route, prepare] of Object.entries(TX_ROUTES)) {
+	// @ts-ignore
+	app.post(`/tx/${route}`, async (req, res) => {
+		try {
+			return res.send(await prepare(req.body ?? {}));
+		} catch (e) {
+			return sendError(res, e);
+		}
+	});
+}
+
+// @ts-ignore
+app.get('/events', withQuery(EventsQuerySchema), async (req, res) => {
+	const acceptedQueries: WhereParam[] = [
+		{
+			key: 'objectId',
+			type: WhereParamTypes.ADDRESS,
+		},
+		{
+			key: 'type',
+			type: WhereParamTypes.STRING,
+		},
+		{
+			key: 'module',
+			type: WhereParamTypes.STRING,
+		},
+		{
+			key: 'txDigest',
+			type: WhereParamTypes.STRING,
+		},
+	];
+
+	try {
+		const where = {
+			...parseWhereStatement(req.query, acceptedQueries)!,
+			...parseTimeRange(req.query, 'timestamp'),
+		};
+		// The sender, or any address of the event's fields (e.g. an escrow's recipient or custodian).
+		// `parsedJson` stores addresses normalized, as JSON strings.
+		if (req.query.address) {
+			const address = normalizeSuiAddress(req.query.address as string);
+			where.AND = [
+				...(where.AND ?? []),
+				{ OR: [{ sender: address }, { parsedJson: { contains: `"${address}"` } }] },
+			];
+		}
+
+		const events = await prisma.event.findMany({
+			where,
+			...parsePaginationForQuery(req.query),
+		});
+
+		return res.send(
+			formatPaginatedResponse(
+				events.map((event) => ({ ...event, parsedJson: JSON.parse(event.parsedJson) })),
+			),
+		);
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+/// Streams change notifications (Server-Sent Events) whenever the indexer
+/// commits updates. Can be filtered by `address` or `objectId`.
+// @ts-ignore
+app.get('/stream', (req, res) => {
+	res.set({
+		'Content-Type': 'text/event-stream',
+		'Cache-Control': 'no-cache',
+		Connection: 'keep-alive',
+	});
+	res.flushHeaders();
+
+	const unsubscribe = subscribeToChanges(
+		{
+			address: req.query.address ? normalizeSuiAddress(req.query.address as string) : undefined,
+			objectId: req.query.objectId ? normalizeSuiAddress(req.query.objectId as string) : undefined,
+		},
+		(notification) => {
+			res.write(`event: change\nid: ${notification.id}\ndata: ${JSON.stringify(notification)}\n\n`);
+		},
+	);
+
+	// Keeps the connection alive through proxies.
+	const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15_000);
+
+	req.on('close', () => {
+		clearInterval(heartbeat);
+		unsubscribe();
+	});
+});
+
 app.listen(3001, '0.0.0.0', () => console.log(`🚀 Server ready at: http://localhost:3001`));
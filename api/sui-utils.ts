@@ -20,9 +20,8 @@ export const getActiveAddress = () => {
 	return execSync(`${SUI_BIN} client active-address`, { encoding: 'utf8' }).trim();
 };
 
-/** Returns a signer based on the active address of system's sui. */
-export const getSigner = () => {
-	const sender = getActiveAddress();
+/** Returns a signer for `sender` (the active address of system's sui by default). */
+export const getSigner = (sender = getActiveAddress()) => {
 
 	const keystore = JSON.parse(
 		readFileSync(path.join(homedir(), '.sui', 'sui_config', 'sui.keystore'), 'utf8'),
@@ -48,10 +47,13 @@ export const getClient = (network: Network) => {
 	return new SuiClient({ url: getFullnodeUrl(network) });
 };
 
-/** A helper to sign & execute a transaction. */
-export const signAndExecute = async (txb: Transaction, network: Network) => {
+/** A helper to sign & execute a transaction (with the active address by default). */
+export const signAndExecute = async (
+	txb: Transaction,
+	network: Network,
+	signer: Ed25519Keypair = getSigner(),
+) => {
 	const client = getClient(network);
-	const signer = getSigner();
 
 	return client.signAndExecuteTransaction({
 		transaction: txb,
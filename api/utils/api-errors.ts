@@ -0,0 +1,33 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { Response } from 'express';
+
+import { ApiErrorBody, ApiErrorCode } from '../sdk';
+
+/// An error the API responds with, as a structured body (see `ApiErrorSchema`).
+export class ApiError extends Error {
+	constructor(
+		message: string,
+		public status = 400,
+		public code: ApiErrorCode = 'invalid_query',
+		public issues?: ApiErrorBody['issues'],
+	) {
+		super(message);
+	}
+
+	toBody(): ApiErrorBody {
+		return { code: this.code, message: this.message, ...(this.issues ? { issues: this.issues } : {}) };
+	}
+}
+
+export const notFound = (message: string) => new ApiError(message, 404, 'not_found');
+
+/// Responds with `e` if it's an `ApiError`. Anything else is unexpected, and is logged instead of leaked.
+export const sendError = (res: Response, e: unknown) => {
+	if (e instanceof ApiError) return res.status(e.status).send(e.toBody());
+
+	console.error(e);
+	return res
+		.status(500)
+		.send({ code: 'internal_error', message: 'Internal server error' } satisfies ApiErrorBody);
+};
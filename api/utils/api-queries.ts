@@ -1,13 +1,17 @@
 // Copyright (c) Mysten Labs, Inc.
 // SPDX-License-Identifier: Apache-2.0
 
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+
 import { CONFIG } from '../config';
+import { ApiError } from './api-errors';
+
+type SortDirection = 'asc' | 'desc';
 
 export type ApiPagination = {
 	take?: number;
-	orderBy: {
-		id: 'asc' | 'desc';
-	};
+	// Sorted by the requested field (if any), then by `id` so the order is always stable.
+	orderBy: Record<string, SortDirection>[];
 	cursor?: {
 		id: number;
 	};
@@ -15,32 +19,62 @@ export type ApiPagination = {
 };
 
 export enum WhereParamTypes {
+	/// Exact match. A comma-separated value matches any of the values (e.g. `module=shared,owned`).
 	STRING,
+	/// Like `STRING`, for addresses & object IDs. Values are normalized the same way the indexer
+	/// stores them, so short addresses (e.g. `0x2`) match.
+	ADDRESS,
 	NUMBER,
 	BOOLEAN,
+	/// Matches an address against any of `fields` (e.g. `involving=0x..` as sender or recipient).
+	ANY_OF,
+	/// An exact date, or a range using `gt`, `gte`, `lt` & `lte` (e.g. `createdAt[gte]=...`).
+	/// Accepts ms timestamps or ISO dates.
+	DATE,
+	/// A boolean flag mapped to the where statement returned by `compute`.
+	COMPUTED,
+	/// Exact match of a full Move type (e.g. `0x2::coin::Coin<0x2::sui::SUI>`), normalized
+	/// the same way the indexer stores types. Not comma-separated, as generic types contain commas.
+	MOVE_TYPE,
+	/// Matches the Move types (stored in `fields[0]`) defined in the given package.
+	PACKAGE,
 }
 
 export type WhereParam = {
 	key: string;
 	type: WhereParamTypes;
+	// `ANY_OF` & `PACKAGE` only: the fields the value is matched against
+	fields?: string[];
+	// `COMPUTED` only: builds the where statement for the flag's value
+	compute?: (value: boolean) => Record<string, any>;
 };
 
+const RANGE_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+
 /**
  * A helper to prepare pagination based on `req.query`.
- * We are doing only primary key cursor + ordering for this example.
+ * Results can be sorted by any of the `sortableFields` (using `sortBy`), and are always
+ * sorted by the primary key as well, so the `id` cursor stays stable under every sort order.
+ * Use `parseSortFilter` with the same fields, as rows without the sorted field are excluded.
  */
-export const parsePaginationForQuery = (body: Record<string, any>) => {
+export const parsePaginationForQuery = (body: Record<string, any>, sortableFields: string[] = []) => {
+	const sort: SortDirection =
+		Object.hasOwn(body, 'sort') && ['asc', 'desc'].includes(body.sort) ? body.sort : 'desc';
+
 	const pagination: ApiPagination = {
-		orderBy: {
-			id: Object.hasOwn(body, 'sort') && ['asc', 'desc'].includes(body.sort) ? body.sort : 'desc',
-		},
+		orderBy: [{ id: sort }],
 	};
 
+	if (Object.hasOwn(body, 'sortBy') && body.sortBy !== 'id') {
+		if (!sortableFields.includes(body.sortBy)) throw new ApiError(`Invalid sortBy value`);
+		pagination.orderBy.unshift({ [body.sortBy]: sort });
+	}
+
 	// Prepare pagination limit (how many items to return)
 	if (Object.hasOwn(body, 'limit')) {
 		const requestLimit = Number(body.limit);
 
-		if (isNaN(requestLimit)) throw new Error('Invalid limit value');
+		if (isNaN(requestLimit)) throw new ApiError('Invalid limit value');
 
 		pagination.take = requestLimit > CONFIG.DEFAULT_LIMIT ? CONFIG.DEFAULT_LIMIT : requestLimit;
 	} else {
@@ -50,7 +84,7 @@ export const parsePaginationForQuery = (body: Record<string, any>) => {
 	// Prepare cursor pagination (which page to return)
 	if (Object.hasOwn(body, 'cursor')) {
 		const cursor = Number(body.cursor);
-		if (isNaN(cursor)) throw new Error('Invalid cursor');
+		if (isNaN(cursor)) throw new ApiError('Invalid cursor');
 		pagination.skip = 1;
 		pagination.cursor = {
 			id: cursor,
@@ -60,37 +94,137 @@ export const parsePaginationForQuery = (body: Record<string, any>) => {
 	return pagination;
 };
 
+/**
+ * Cursor pagination can't compare against `null` values, so when sorting by a (nullable) field
+ * we only return the rows that have it.
+ */
+export const parseSortFilter = (body: Record<string, any>, sortableFields: string[]) => {
+	if (!Object.hasOwn(body, 'sortBy') || !sortableFields.includes(body.sortBy)) return {};
+	return { [body.sortBy]: { not: null } };
+};
+
+const parseBoolean = (key: string, value: any) => {
+	if (value === 'true') return true;
+	if (value === 'false') return false;
+	throw new ApiError(`Invalid boolean for ${key}`);
+};
+
+const normalizeType = (key: string, value: string) => {
+	try {
+		return normalizeStructTag(value);
+	} catch (e) {
+		throw new ApiError(`Invalid type for ${key}`);
+	}
+};
+
+const parseDate = (key: string, value: any) => {
+	if (typeof value !== 'string') throw new ApiError(`Invalid date for ${key}`);
+
+	const date = new Date(isNaN(Number(value)) ? value : Number(value));
+	if (isNaN(date.getTime())) throw new ApiError(`Invalid date for ${key}`);
+	return date;
+};
+
 /** Parses a where statement based on the query params. */
 export const parseWhereStatement = (query: Record<string, any>, acceptedParams: WhereParam[]) => {
 	const params: Record<string, any> = {};
+	// Conditions that can't be keyed by field (OR matches, computed filters)
+	const conditions: Record<string, any>[] = [];
+
 	for (const key of Object.keys(query)) {
 		const whereParam = acceptedParams.find((x) => x.key === key);
 		if (!whereParam) continue;
 
 		const value = query[key];
 		if (whereParam.type === WhereParamTypes.STRING) {
-			params[key] = value;
+			if (typeof value !== 'string') throw new ApiError(`Invalid string for ${key}`);
+
+			const values = value.split(',');
+			params[key] = values.length > 1 ? { in: values } : value;
+		}
+		if (whereParam.type === WhereParamTypes.ADDRESS) {
+			if (typeof value !== 'string') throw new ApiError(`Invalid address for ${key}`);
+
+			const values = value.split(',').map((address) => normalizeSuiAddress(address));
+			params[key] = values.length > 1 ? { in: values } : values[0];
 		}
 		if (whereParam.type === WhereParamTypes.NUMBER) {
 			const number = Number(value);
-			if (isNaN(number)) throw new Error(`Invalid number for ${key}`);
+			if (isNaN(number)) throw new ApiError(`Invalid number for ${key}`);
 
 			params[key] = number;
 		}
 
 		// Handle boolean expected values.
 		if (whereParam.type === WhereParamTypes.BOOLEAN) {
-			let boolValue;
-			if (value === 'true') boolValue = true;
-			else if (value === 'false') boolValue = false;
-			else throw new Error(`Invalid boolean for ${key}`);
+			params[key] = parseBoolean(key, value);
+		}
+
+		if (whereParam.type === WhereParamTypes.ANY_OF) {
+			if (typeof value !== 'string') throw new ApiError(`Invalid address for ${key}`);
+
+			const address = normalizeSuiAddress(value);
+			conditions.push({ OR: whereParam.fields!.map((field) => ({ [field]: address })) });
+		}
+
+		if (whereParam.type === WhereParamTypes.DATE) {
+			if (typeof value === 'string') {
+				params[key] = parseDate(key, value);
+				continue;
+			}
+
+			const range: Record<string, Date> = {};
+			for (const operator of Object.keys(value ?? {})) {
+				if (!RANGE_OPERATORS.includes(operator)) throw new ApiError(`Invalid range operator for ${key}`);
+				range[operator] = parseDate(key, value[operator]);
+			}
+			params[key] = range;
+		}
+
+		if (whereParam.type === WhereParamTypes.COMPUTED) {
+			conditions.push(whereParam.compute!(parseBoolean(key, value)));
+		}
+
+		if (whereParam.type === WhereParamTypes.MOVE_TYPE) {
+			if (typeof value !== 'string') throw new ApiError(`Invalid type for ${key}`);
+
+			params[key] = normalizeType(key, value);
+		}
+
+		if (whereParam.type === WhereParamTypes.PACKAGE) {
+			if (typeof value !== 'string') throw new ApiError(`Invalid package for ${key}`);
 
-			params[key] = boolValue;
+			params[whereParam.fields![0]] = { startsWith: `${normalizeSuiAddress(value)}::` };
 		}
 	}
+
+	if (conditions.length > 0) params.AND = conditions;
 	return params;
 };
 
+/**
+ * Parses a `from` / `to` time range (ms timestamps or ISO dates) into a where statement
+ * for the `field` column.
+ */
+export const parseTimeRange = (query: Record<string, any>, field: string) => {
+	const range: { gte?: Date; lte?: Date } = {};
+
+	for (const [key, operator] of [
+		['from', 'gte'],
+		['to', 'lte'],
+	] as const) {
+		if (!Object.hasOwn(query, key)) continue;
+
+		const value = query[key];
+		const date = new Date(isNaN(Number(value)) ? value : Number(value));
+		if (isNaN(date.getTime())) throw new ApiError(`Invalid date for ${key}`);
+
+		range[operator] = date;
+	}
+
+	return Object.keys(range).length > 0 ? { [field]: range } : {};
+};
+
 export const getResponseCursor = (results: any[]): number | undefined => {
 	return results[results.length - 1]?.id || undefined;
 };
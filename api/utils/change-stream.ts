@@ -0,0 +1,157 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { Event } from '@prisma/client';
+import { EventEmitter } from 'events';
+
+import { CONFIG } from '../config';
+import { prisma } from '../db';
+
+/// Modules whose events are written to the `Locked` table. Every other module writes to `Escrow`.
+const LOCKED_MODULES = ['lock', 'hashlock'];
+
+export type ChangeNotification = {
+	// The `Event` log entry that triggered the notification
+	id: number;
+	table: 'escrow' | 'locked';
+	objectId: string;
+	module: string;
+	type: string;
+	txDigest: string;
+	// Every address involved with the changed record
+	addresses: string[];
+};
+
+export type ChangeFilter = {
+	address?: string;
+	objectId?: string;
+};
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+let pollerStarted = false;
+// The highest `Event` id streamed so far
+let lastEventId = 0;
+// The ids streamed within the overlap window (see `CONFIG.STREAM_OVERLAP_EVENTS`)
+const streamedIds = new Set<number>();
+
+const toNotification = async (event: Event): Promise<ChangeNotification> => {
+	const table = LOCKED_MODULES.includes(event.module) ? 'locked' : 'escrow';
+	const addresses = new Set([event.sender]);
+
+	if (table === 'locked') {
+		const locked = await prisma.locked.findUnique({ where: { objectId: event.objectId! } });
+		if (locked?.creator) addresses.add(locked.creator);
+	} else {
+		const escrow = await prisma.escrow.findUnique({ where: { objectId: event.objectId! } });
+		for (const address of [escrow?.sender, escrow?.recipient, escrow?.custodian]) {
+			if (address) addresses.add(address);
+		}
+	}
+
+	return {
+		id: event.id,
+		table,
+		objectId: event.objectId!,
+		module: event.module,
+		type: event.type,
+		txDigest: event.txDigest,
+		addresses: [...addresses],
+	};
+};
+
+/// Forgets the ids that fell out of the overlap window.
+const pruneStreamedIds = () => {
+	for (const id of streamedIds) {
+		if (id <= lastEventId - CONFIG.STREAM_OVERLAP_EVENTS) streamedIds.delete(id);
+	}
+};
+
+/**
+ * The indexer runs as a separate process, so we follow the append-only `Event` log
+ * (written right after the handlers commit their updates) and turn each new entry into
+ * a change notification for the changed `Escrow` / `Locked` row.
+ *
+ * Ids are not committed in order (each tracker writes in its own transaction), so every poll
+ * re-reads the last `CONFIG.STREAM_OVERLAP_EVENTS` ids and skips the ones already streamed.
+ */
+const pollChanges = async () => {
+	try {
+		const pageSize = CONFIG.STREAM_OVERLAP_EVENTS + CONFIG.DEFAULT_LIMIT;
+		let cursor = Math.max(lastEventId - CONFIG.STREAM_OVERLAP_EVENTS, 0);
+		let events: Event[];
+
+		do {
+			events = await prisma.event.findMany({
+				where: { id: { gt: cursor }, objectId: { not: null } },
+				orderBy: { id: 'asc' },
+				take: pageSize,
+			});
+
+			for (const event of events) {
+				cursor = event.id;
+				if (streamedIds.has(event.id)) continue;
+
+				emitter.emit('change', await toNotification(event));
+				streamedIds.add(event.id);
+				lastEventId = Math.max(lastEventId, event.id);
+			}
+		} while (events.length === pageSize);
+
+		pruneStreamedIds();
+	} catch (e) {
+		console.error(e);
+	}
+	setTimeout(pollChanges, CONFIG.POLLING_INTERVAL_MS);
+};
+
+const startPolling = async () => {
+	if (pollerStarted) return;
+	pollerStarted = true;
+
+	try {
+		// Only notify about changes that happen after the server started.
+		const latest = await prisma.event.findFirst({ orderBy: { id: 'desc' } });
+		lastEventId = latest?.id ?? 0;
+
+		const recent = await prisma.event.findMany({
+			where: { id: { gt: lastEventId - CONFIG.STREAM_OVERLAP_EVENTS } },
+			select: { id: true },
+		});
+		for (const { id } of recent) streamedIds.add(id);
+	} catch (e) {
+		// e.g. the database is locked or not migrated yet, so we try again later.
+		console.error('Failed to start the change stream:', e);
+		pollerStarted = false;
+		setTimeout(() => void startPolling().catch(console.error), CONFIG.POLLING_INTERVAL_MS);
+		return;
+	}
+
+	pollChanges();
+};
+
+const matchesFilter = (notification: ChangeNotification, filter: ChangeFilter) => {
+	if (filter.objectId && notification.objectId !== filter.objectId) return false;
+	if (filter.address && !notification.addresses.includes(filter.address)) return false;
+	return true;
+};
+
+/**
+ * Subscribes to change notifications that match `filter`.
+ * Returns a function that removes the subscription.
+ */
+export const subscribeToChanges = (
+	filter: ChangeFilter,
+	listener: (notification: ChangeNotification) => void,
+) => {
+	void startPolling().catch(console.error);
+
+	const handler = (notification: ChangeNotification) => {
+		if (matchesFilter(notification, filter)) listener(notification);
+	};
+	emitter.on('change', handler);
+
+	return () => {
+		emitter.off('change', handler);
+	};
+};
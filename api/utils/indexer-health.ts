@@ -0,0 +1,128 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { CONFIG } from '../config';
+import { prisma } from '../db';
+
+export type TrackerHealth = {
+	tracker: string;
+	healthy: boolean;
+	stopped: boolean;
+	lastPollAt: Date | null;
+	lastSuccessAt: Date | null;
+	// Time since the last successful poll
+	lagMs: number | null;
+	eventsProcessed: number;
+	errorCount: number;
+	consecutiveErrors: number;
+	lastError: string | null;
+	lastErrorAt: Date | null;
+	cursor: { eventSeq: string; txDigest: string } | null;
+};
+
+/**
+ * Reads the status the indexer records for each of its trackers.
+ * A tracker is healthy if it hasn't stopped and polled successfully within `CONFIG.HEALTH_MAX_LAG_MS`.
+ */
+export const getIndexerHealth = async () => {
+	const prefix = `${CONFIG.SWAP_CONTRACT.packageId}::`;
+	const [statuses, cursors] = await Promise.all([
+		prisma.indexerStatus.findMany({ where: { id: { startsWith: prefix } }, orderBy: { id: 'asc' } }),
+		prisma.cursor.findMany({ where: { id: { startsWith: prefix } } }),
+	]);
+
+	const now = Date.now();
+	const trackers: TrackerHealth[] = statuses.map((status) => {
+		const cursor = cursors.find((cursor) => cursor.id === status.id);
+		const lagMs = status.lastSuccessAt ? now - status.lastSuccessAt.getTime() : null;
+
+		return {
+			tracker: status.id.slice(prefix.length),
+			healthy: !status.stopped && lagMs !== null && lagMs <= CONFIG.HEALTH_MAX_LAG_MS,
+			stopped: status.stopped,
+			lastPollAt: status.lastPollAt,
+			lastSuccessAt: status.lastSuccessAt,
+			lagMs,
+			eventsProcessed: status.eventsProcessed,
+			errorCount: status.errorCount,
+			consecutiveErrors: status.consecutiveErrors,
+			lastError: status.lastError,
+			lastErrorAt: status.lastErrorAt,
+			cursor: cursor ? { eventSeq: cursor.eventSeq, txDigest: cursor.txDigest } : null,
+		};
+	});
+
+	return {
+		// No statuses means the indexer never ran.
+		healthy: trackers.length > 0 && trackers.every((tracker) => tracker.healthy),
+		packageId: CONFIG.SWAP_CONTRACT.packageId,
+		trackers,
+	};
+};
+
+/// Formats the indexer health in the Prometheus text exposition format.
+export const formatPrometheusMetrics = (health: Awaited<ReturnType<typeof getIndexerHealth>>) => {
+	const metrics: {
+		name: string;
+		help: string;
+		type: 'counter' | 'gauge';
+		value: (tracker: TrackerHealth) => number | null;
+	}[] = [
+		{
+			name: 'escrow_indexer_up',
+			help: 'Whether the tracker is healthy (1) or not (0).',
+			type: 'gauge',
+			value: (tracker) => (tracker.healthy ? 1 : 0),
+		},
+		{
+			name: 'escrow_indexer_stopped',
+			help: 'Whether the tracker stopped after a fatal error.',
+			type: 'gauge',
+			value: (tracker) => (tracker.stopped ? 1 : 0),
+		},
+		{
+			name: 'escrow_indexer_events_processed_total',
+			help: 'Events processed by the tracker.',
+			type: 'counter',
+			value: (tracker) => tracker.eventsProcessed,
+		},
+		{
+			name: 'escrow_indexer_errors_total',
+			help: 'Failed polls of the tracker.',
+			type: 'counter',
+			value: (tracker) => tracker.errorCount,
+		},
+		{
+			name: 'escrow_indexer_consecutive_errors',
+			help: 'Failed polls of the tracker since its last successful poll.',
+			type: 'gauge',
+			value: (tracker) => tracker.consecutiveErrors,
+		},
+		{
+			name: 'escrow_indexer_last_success_timestamp_seconds',
+			help: 'Unix time of the last successful poll.',
+			type: 'gauge',
+			value: (tracker) => (tracker.lastSuccessAt ? tracker.lastSuccessAt.getTime() / 1000 : null),
+		},
+		{
+			name: 'escrow_indexer_lag_seconds',
+			help: 'Seconds since the last successful poll.',
+			type: 'gauge',
+			value: (tracker) => (tracker.lagMs !== null ? tracker.lagMs / 1000 : null),
+		},
+	];
+
+	const lines: string[] = [];
+	for (const metric of metrics) {
+		lines.push(`# HELP ${metric.name} ${metric.help}`);
+		lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+		for (const tracker of health.trackers) {
+			const value = metric.value(tracker);
+			if (value === null) continue;
+			lines.push(`${metric.name}{tracker="${tracker.tracker}"} ${value}`);
+		}
+	}
+
+	return lines.join('\n') + '\n';
+};
@@ -0,0 +1,136 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { Escrow, Locked } from '@prisma/client';
+
+import { CONFIG } from '../config';
+import { prisma } from '../db';
+
+/// Everything needed to build the `shared::swap` PTB that accepts an escrow.
+export type SwapCall = {
+	target: string;
+	// `[escrowed item type, locked item type]`, `null` until the indexer resolved both types
+	typeArguments: [string, string] | null;
+	escrow: string;
+	key: string;
+	locked: string;
+};
+
+/// An open escrow requesting one of the user's locked objects, which the user can accept.
+export type IncomingMatch = {
+	escrow: Escrow;
+	locked: Locked;
+	swap: SwapCall;
+};
+
+/// A locked object of a counterparty that already wants one of the user's locked objects.
+/// The user can request it in return, by creating an escrow for `locked.keyId`.
+export type ReciprocalMatch = {
+	counterparty: string;
+	// The counterparty's escrow requesting one of the user's locked objects
+	escrow: Escrow;
+	locked: Locked;
+};
+
+/// Locked objects that can still be swapped (not destroyed, and their timelock didn't expire).
+const activeLocked = () => ({
+	deleted: false,
+	OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+});
+
+/// Escrows that can still be accepted.
+const openEscrows = () => ({
+	swapped: false,
+	cancelled: false,
+	OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+});
+
+/**
+ * Ranks matches expiring first (so they aren't missed), then the most recent ones.
+ * Matches without an expiry come after the expiring ones.
+ */
+const byExpiryAndRecency = (a: Escrow | Locked, b: Escrow | Locked) => {
+	if (a.expiresAt && b.expiresAt && a.expiresAt.getTime() !== b.expiresAt.getTime())
+		return a.expiresAt.getTime() - b.expiresAt.getTime();
+	if (a.expiresAt && !b.expiresAt) return -1;
+	if (!a.expiresAt && b.expiresAt) return 1;
+
+	return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || b.id - a.id;
+};
+
+/// The earliest expiry of the pair, so a match is ranked by whichever side expires first.
+const pairRanking = (escrow: Escrow, locked: Locked) => {
+	const [first] = [escrow, locked].sort(byExpiryAndRecency);
+	return first;
+};
+
+/**
+ * Finds the swaps available to `address`:
+ * - `incoming`: open escrows requesting one of its locked objects (ready to be accepted).
+ * - `reciprocal`: locked objects of the senders of those escrows, which the user could request in return.
+ *
+ * Only `shared` escrows are matched, as they're the only ones the recipient accepts directly
+ * (custodian escrows are swapped by their custodian, hashlock escrows need their secret).
+ */
+export const findMatches = async (address: string) => {
+	const userLocked = await prisma.locked.findMany({
+		where: { creator: address, keyId: { not: null }, ...activeLocked() },
+	});
+
+	const incomingEscrows = await prisma.escrow.findMany({
+		where: {
+			module: 'shared',
+			keyId: { in: userLocked.map((locked) => locked.keyId!) },
+			sender: { not: address },
+			...openEscrows(),
+		},
+	});
+
+	const incoming: IncomingMatch[] = incomingEscrows
+		.map((escrow) => {
+			const locked = userLocked.find((locked) => locked.keyId === escrow.keyId)!;
+
+			return {
+				escrow,
+				locked,
+				swap: {
+					target: `${CONFIG.SWAP_CONTRACT.packageId}::shared::swap`,
+					typeArguments:
+						escrow.itemType && locked.itemType
+							? ([escrow.itemType, locked.itemType] as [string, string])
+							: null,
+					escrow: escrow.objectId,
+					key: escrow.keyId!,
+					locked: locked.objectId,
+				},
+			};
+		})
+		.sort((a, b) => byExpiryAndRecency(pairRanking(a.escrow, a.locked), pairRanking(b.escrow, b.locked)))
+		.slice(0, CONFIG.DEFAULT_LIMIT);
+
+	const counterparties = [...new Set(incoming.map((match) => match.escrow.sender!))];
+
+	const [counterpartyLocked, requested] = await Promise.all([
+		prisma.locked.findMany({
+			where: { creator: { in: counterparties }, keyId: { not: null }, ...activeLocked() },
+		}),
+		// Locked objects the user already requested with an open escrow
+		prisma.escrow.findMany({
+			where: { sender: address, ...openEscrows() },
+			select: { keyId: true },
+		}),
+	]);
+	const requestedKeys = new Set(requested.map((escrow) => escrow.keyId));
+
+	const reciprocal: ReciprocalMatch[] = counterpartyLocked
+		.filter((locked) => !requestedKeys.has(locked.keyId))
+		.map((locked) => ({
+			counterparty: locked.creator!,
+			// `incoming` is ranked, so this is the counterparty's most relevant escrow
+			escrow: incoming.find((match) => match.escrow.sender === locked.creator)!.escrow,
+			locked,
+		}))
+		.sort((a, b) => byExpiryAndRecency(a.locked, b.locked))
+		.slice(0, CONFIG.DEFAULT_LIMIT);
+
+	return { address, incoming, reciprocal };
+};
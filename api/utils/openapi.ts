@@ -0,0 +1,187 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import {
+	ApiErrorSchema,
+	EscrowDetailSchema,
+	EscrowSchema,
+	EscrowsQuerySchema,
+	EventSchema,
+	EventsQuerySchema,
+	LockedDetailSchema,
+	LockedQuerySchema,
+	LockedSchema,
+	MatchesQuerySchema,
+	MatchesSchema,
+	paginated,
+	QuerySchema,
+	Schema,
+	TxRequestSchemas,
+	TxResponseSchema,
+} from '../sdk';
+
+type Route = {
+	summary: string;
+	query?: QuerySchema;
+	// Path params (e.g. `{objectId}`) are strings
+	pathParams?: string[];
+	body?: Schema;
+	response: Schema;
+	notFound?: boolean;
+};
+
+/// Schemas referenced by name (`#/components/schemas/...`) wherever they're used.
+const COMPONENTS: Record<string, Schema> = {
+	Locked: LockedSchema,
+	Escrow: EscrowSchema,
+	LockedDetail: LockedDetailSchema,
+	EscrowDetail: EscrowDetailSchema,
+	Event: EventSchema,
+	Matches: MatchesSchema,
+	Error: ApiErrorSchema,
+};
+
+const GET_ROUTES: Record<string, Route> = {
+	'/locked': {
+		summary: 'Returns indexed locked objects',
+		query: LockedQuerySchema,
+		response: paginated(LockedSchema),
+	},
+	'/locked/{objectId}': {
+		summary: 'Returns a single locked object',
+		pathParams: ['objectId'],
+		response: LockedDetailSchema,
+		notFound: true,
+	},
+	'/escrows': {
+		summary: 'Returns indexed escrows',
+		query: EscrowsQuerySchema,
+		response: paginated(EscrowSchema),
+	},
+	'/escrows/{objectId}': {
+		summary: 'Returns a single escrow',
+		pathParams: ['objectId'],
+		response: EscrowDetailSchema,
+		notFound: true,
+	},
+	'/matches': {
+		summary: 'Proposes swaps for an address',
+		query: MatchesQuerySchema,
+		response: MatchesSchema,
+	},
+	'/events': {
+		summary: 'Returns the raw history of indexed events',
+		query: EventsQuerySchema,
+		response: paginated(EventSchema),
+	},
+};
+
+/// Converts a schema to OpenAPI, replacing the named ones by references.
+const toOpenApiSchema = (schema: Schema, root = false): Record<string, any> => {
+	const name = Object.keys(COMPONENTS).find((name) => COMPONENTS[name] === schema);
+	if (name && !root) return { $ref: `#/components/schemas/${name}` };
+
+	const { optional, ...rest } = schema;
+	const result: Record<string, any> = JSON.parse(JSON.stringify(rest));
+
+	if (schema.type === 'array') result.items = toOpenApiSchema(schema.items);
+	if (schema.type === 'object' && 'properties' in schema) {
+		const properties = Object.entries(schema.properties);
+		result.properties = Object.fromEntries(properties.map(([key, value]) => [key, toOpenApiSchema(value)]));
+		result.required = properties.filter(([, value]) => !value.optional).map(([key]) => key);
+	}
+
+	return result;
+};
+
+const QUERY_PARAM_TYPES: Record<string, Record<string, any>> = {
+	string: { type: 'string' },
+	integer: { type: 'integer', minimum: 0 },
+	boolean: { type: 'boolean' },
+	date: { type: 'string', description: 'A ms timestamp or an ISO date' },
+	address: { type: 'string', format: 'sui-address' },
+	'move-type': { type: 'string', format: 'move-type' },
+};
+
+const toOpenApiParameters = (query: QuerySchema) =>
+	Object.entries(query).map(([name, param]) => ({
+		name,
+		in: 'query',
+		required: param.required ?? false,
+		description: [
+			param.description,
+			param.list && 'Accepts comma-separated values.',
+			param.ranges && `Accepts ranges (\`${name}[gte]=...\`, with \`gt\`, \`gte\`, \`lt\` or \`lte\`).`,
+		]
+			.filter(Boolean)
+			.join(' '),
+		schema: {
+			...QUERY_PARAM_TYPES[param.type],
+			...(param.enum && !param.list ? { enum: param.enum } : {}),
+		},
+	}));
+
+const errorResponse = (description: string) => ({
+	description,
+	content: { 'application/json': { schema: toOpenApiSchema(ApiErrorSchema) } },
+});
+
+const toOperation = (route: Route) => ({
+	summary: route.summary,
+	parameters: [
+		...(route.pathParams ?? []).map((name) => ({
+			name,
+			in: 'path',
+			required: true,
+			schema: { type: 'string' },
+		})),
+		...(route.query ? toOpenApiParameters(route.query) : []),
+	],
+	...(route.body
+		? {
+				requestBody: {
+					required: true,
+					content: { 'application/json': { schema: toOpenApiSchema(route.body) } },
+				},
+			}
+		: {}),
+	responses: {
+		200: {
+			description: 'OK',
+			content: { 'application/json': { schema: toOpenApiSchema(route.response) } },
+		},
+		400: errorResponse('Invalid request'),
+		...(route.notFound ? { 404: errorResponse('Not found') } : {}),
+		500: errorResponse('Unexpected error'),
+	},
+});
+
+/// The OpenAPI 3.0 document of the API, generated from the schemas shared with its clients (`sdk/schemas.ts`).
+export const buildOpenApiDocument = () => ({
+	openapi: '3.0.3',
+	info: {
+		title: 'Escrow API',
+		version: '1.0.0',
+		description: 'Serves the escrows & locked objects indexed from the escrow package.',
+	},
+	paths: {
+		...Object.fromEntries(Object.entries(GET_ROUTES).map(([path, route]) => [path, { get: toOperation(route) }])),
+		...Object.fromEntries(
+			Object.entries(TxRequestSchemas).map(([route, body]) => [
+				`/tx/${route}`,
+				{
+					post: toOperation({
+						summary: 'Builds an unsigned transaction',
+						body,
+						response: TxResponseSchema,
+						notFound: true,
+					}),
+				},
+			]),
+		),
+	},
+	components: {
+		schemas: Object.fromEntries(
+			Object.entries(COMPONENTS).map(([name, schema]) => [name, toOpenApiSchema(schema, true)]),
+		),
+	},
+});
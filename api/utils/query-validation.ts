@@ -0,0 +1,94 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { isValidSuiAddress, normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { NextFunction, Request, Response } from 'express';
+
+import { ApiErrorBody, QueryParamSchema, QuerySchema, RANGE_OPERATORS } from '../sdk';
+import { ApiError, sendError } from './api-errors';
+
+const isDate = (value: string) => !isNaN(new Date(isNaN(Number(value)) ? value : Number(value)).getTime());
+
+const isMoveType = (value: string) => {
+	try {
+		normalizeStructTag(value);
+		return true;
+	} catch (e) {
+		return false;
+	}
+};
+
+/// Returns why `value` doesn't match `param`, if it doesn't.
+const checkValue = (param: QueryParamSchema, value: string) => {
+	if (value === '') return 'Expected a value';
+
+	switch (param.type) {
+		case 'boolean':
+			return ['true', 'false'].includes(value) ? undefined : 'Expected `true` or `false`';
+		case 'integer':
+			return /^\d+$/.test(value) && Number.isSafeInteger(Number(value)) ? undefined : 'Expected a positive integer';
+		case 'date':
+			return isDate(value) ? undefined : 'Expected a ms timestamp or an ISO date';
+		case 'address':
+			return isValidSuiAddress(normalizeSuiAddress(value)) ? undefined : 'Expected a Sui address or object ID';
+		case 'move-type':
+			return isMoveType(value) ? undefined : 'Expected a Move type';
+		case 'string':
+			return !param.enum || param.enum.includes(value) ? undefined : `Expected one of ${param.enum.join(', ')}`;
+	}
+};
+
+const checkParam = (param: QueryParamSchema, value: unknown) => {
+	if (typeof value === 'string') {
+		const values = param.list ? value.split(',') : [value];
+		return values.map((value) => checkValue(param, value)).find(Boolean);
+	}
+
+	// Express parses `createdAt[gte]=...` as `{ gte: '...' }`
+	if (param.ranges && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+		for (const [operator, bound] of Object.entries(value)) {
+			if (!(RANGE_OPERATORS as readonly string[]).includes(operator))
+				return `Invalid range operator \`${operator}\``;
+
+			const issue = typeof bound === 'string' ? checkValue(param, bound) : 'Expected a single value';
+			if (issue) return issue;
+		}
+		return undefined;
+	}
+
+	return 'Expected a single value';
+};
+
+/**
+ * Validates a query (as parsed by express) against `schema`, so routes only deal with known,
+ * well-formed params. Every invalid param is reported at once.
+ */
+export const validateQuery = (query: Record<string, unknown>, schema: QuerySchema) => {
+	const issues: NonNullable<ApiErrorBody['issues']> = [];
+
+	for (const [key, value] of Object.entries(query)) {
+		if (!Object.hasOwn(schema, key)) {
+			issues.push({ param: key, message: 'Unknown query parameter' });
+			continue;
+		}
+
+		const issue = checkParam(schema[key], value);
+		if (issue) issues.push({ param: key, message: issue });
+	}
+
+	for (const [key, param] of Object.entries(schema)) {
+		if (param.required && query[key] === undefined) issues.push({ param: key, message: 'Required' });
+	}
+
+	if (issues.length > 0) throw new ApiError('Invalid query parameters', 400, 'invalid_query', issues);
+};
+
+/// A middleware rejecting the requests whose query doesn't match `schema`.
+export const withQuery = (schema: QuerySchema) => (req: Request, res: Response, next: NextFunction) => {
+	try {
+		validateQuery(req.query, schema);
+	} catch (e) {
+		return sendError(res, e);
+	}
+
+	next();
+};
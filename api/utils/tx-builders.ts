@@ -0,0 +1,165 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction } from '@mysten/sui/transactions';
+
+import { CONFIG } from '../config';
+import { hashlockOwned, hashlockShared, lock, shared } from '../sdk';
+
+const packageId = () => CONFIG.SWAP_CONTRACT.packageId;
+
+/// Locks `objectId` (optionally with a custom timelock), and sends the `Locked` object & its `Key` to `sender`.
+export const buildLockTransaction = (params: {
+	sender: string;
+	objectId: string;
+	itemType: string;
+	timelockMs?: number;
+}) => {
+	const txb = new Transaction();
+
+	const [locked, key] =
+		params.timelockMs === undefined
+			? lock.lock(txb, packageId(), { obj: params.objectId }, params.itemType)
+			: lock.lockWithTimelock(
+					txb,
+					packageId(),
+					{ obj: params.objectId, timelockDuration: params.timelockMs },
+					params.itemType,
+				);
+
+	txb.transferObjects([locked, key], txb.pure.address(params.sender));
+
+	return txb;
+};
+
+/// Escrows `objectId` in exchange of the locked object unlocked by `keyId`, owned by `recipient`.
+export const buildCreateEscrowTransaction = (params: {
+	objectId: string;
+	itemType: string;
+	keyId: string;
+	recipient: string;
+}) => {
+	const txb = new Transaction();
+
+	shared.create(
+		txb,
+		packageId(),
+		{ escrowed: params.objectId, exchangeKey: params.keyId, recipient: params.recipient },
+		params.itemType,
+	);
+
+	return txb;
+};
+
+/// Same as `buildCreateEscrowTransaction`, but the swap also requires the preimage of `hashCommitment`.
+/// Uses the contract's default timeout (24 hours) unless `timeoutMs` is set.
+export const buildCreateHashlockEscrowTransaction = (params: {
+	objectId: string;
+	itemType: string;
+	keyId: string;
+	recipient: string;
+	hashCommitment: number[];
+	timeoutMs?: number;
+}) => {
+	const txb = new Transaction();
+
+	const args = {
+		escrowed: params.objectId,
+		exchangeKey: params.keyId,
+		recipient: params.recipient,
+		hashCommitment: params.hashCommitment,
+	};
+
+	if (params.timeoutMs === undefined) {
+		hashlockShared.createHashlockEscrow(txb, packageId(), args, params.itemType);
+	} else {
+		hashlockShared.createHashlockEscrowWithDuration(
+			txb,
+			packageId(),
+			{ ...args, timeoutDuration: params.timeoutMs },
+			params.itemType,
+		);
+	}
+
+	return txb;
+};
+
+/// Accepts a `shared` escrow with the requested locked object, and sends the escrowed item to `sender`.
+export const buildSwapTransaction = (params: {
+	sender: string;
+	escrowId: string;
+	keyId: string;
+	lockedId: string;
+	escrowType: string;
+	lockedType: string;
+}) => {
+	const txb = new Transaction();
+
+	const item = shared.swap(
+		txb,
+		packageId(),
+		{ escrow: params.escrowId, key: params.keyId, locked: params.lockedId },
+		[params.escrowType, params.lockedType],
+	);
+
+	txb.transferObjects([item], txb.pure.address(params.sender));
+
+	return txb;
+};
+
+/**
+ * Accepts a `hashlock_shared` escrow by revealing its secret, and sends the escrowed item to `sender`.
+ * The requested object is either a `Locked` object (unlocked with `keyId`) or a `Hashlocked` one.
+ */
+export const buildRevealTransaction = (params: {
+	sender: string;
+	escrowId: string;
+	lockedId: string;
+	// Only for `Locked` objects
+	keyId?: string;
+	escrowType: string;
+	lockedType: string;
+	secret: number[];
+}) => {
+	const txb = new Transaction();
+
+	const item = params.keyId
+		? hashlockShared.swapWithSecret(
+				txb,
+				packageId(),
+				{ escrow: params.escrowId, key: params.keyId, locked: params.lockedId, secret: params.secret },
+				[params.escrowType, params.lockedType],
+			)
+		: hashlockShared.swapHashlockForHashlock(
+				txb,
+				packageId(),
+				{ escrow: params.escrowId, hashlocked: params.lockedId, secret: params.secret },
+				[params.escrowType, params.lockedType],
+			);
+
+	txb.transferObjects([item], txb.pure.address(params.sender));
+
+	return txb;
+};
+
+/// Returns the escrowed item of a `shared`, `hashlock_shared` or `hashlock_owned` escrow to `sender`.
+export const buildCancelTransaction = (params: {
+	sender: string;
+	escrowId: string;
+	module: 'shared' | 'hashlock_shared' | 'hashlock_owned';
+	itemType: string;
+}) => {
+	const txb = new Transaction();
+
+	const escrow = { escrow: params.escrowId };
+	const item =
+		params.module === 'shared'
+			? shared.returnToSender(txb, packageId(), escrow, params.itemType)
+			: params.module === 'hashlock_shared'
+				? hashlockShared.returnToSender(txb, packageId(), escrow, params.itemType)
+				: hashlockOwned.returnToSender(txb, packageId(), escrow, params.itemType);
+
+	txb.transferObjects([item], txb.pure.address(params.sender));
+
+	return txb;
+};
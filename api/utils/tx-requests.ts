@@ -0,0 +1,226 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction } from '@mysten/sui/transactions';
+import { isValidSuiAddress, normalizeStructTag, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+
+import { CONFIG } from '../config';
+import { prisma } from '../db';
+import { SECRET_ENCODINGS, SecretEncoding, secretToBytes, validateSecret, verifySecret } from '../sdk';
+import { getClient } from '../sui-utils';
+import { ApiError } from './api-errors';
+import {
+	buildCancelTransaction,
+	buildCreateEscrowTransaction,
+	buildCreateHashlockEscrowTransaction,
+	buildLockTransaction,
+	buildRevealTransaction,
+	buildSwapTransaction,
+} from './tx-builders';
+
+/// A request that can't be turned into a transaction, with the status code to respond with.
+export class TxRequestError extends ApiError {
+	constructor(message: string, status = 400) {
+		super(message, status, status === 404 ? 'not_found' : 'invalid_request');
+	}
+}
+
+const client = getClient(CONFIG.NETWORK);
+
+const parseAddress = (body: Record<string, any>, key: string) => {
+	const value = body[key];
+	if (typeof value !== 'string' || !isValidSuiAddress(normalizeSuiAddress(value)))
+		throw new TxRequestError(`Invalid ${key}`);
+
+	return normalizeSuiAddress(value);
+};
+
+const parseOptionalInteger = (body: Record<string, any>, key: string) => {
+	if (body[key] === undefined) return undefined;
+
+	const value = Number(body[key]);
+	if (!Number.isSafeInteger(value) || value <= 0) throw new TxRequestError(`Invalid ${key}`);
+	return value;
+};
+
+const parseBytes = (body: Record<string, any>, key: string, encoding: SecretEncoding = 'hex') => {
+	const value = body[key];
+	if (typeof value !== 'string' || validateSecret({ value, encoding })) throw new TxRequestError(`Invalid ${key}`);
+	return Array.from(secretToBytes({ value, encoding }));
+};
+
+/// The Move type of an object, read from the chain (used for objects that aren't indexed).
+const getObjectType = async (objectId: string) => {
+	const object = await client.getObject({ id: objectId, options: { showType: true } });
+	if (!object.data?.type) throw new TxRequestError(`Object ${objectId} not found`, 404);
+
+	return normalizeStructTag(object.data.type);
+};
+
+/// The type of an indexed item, falling back to the chain if the indexer hasn't resolved it yet.
+const getItemType = (row: { itemId: string | null; itemType: string | null }) => {
+	if (row.itemType) return row.itemType;
+	if (!row.itemId) throw new TxRequestError('The item has not been indexed yet', 404);
+
+	return getObjectType(row.itemId);
+};
+
+const getOpenEscrow = async (objectId: string) => {
+	const escrow = await prisma.escrow.findUnique({ where: { objectId } });
+	if (!escrow) throw new TxRequestError('Escrow not found', 404);
+	if (escrow.swapped || escrow.cancelled) throw new TxRequestError('The escrow is no longer open');
+
+	return escrow;
+};
+
+const getActiveLocked = async (where: { objectId: string } | { keyId: string }) => {
+	const locked = await prisma.locked.findFirst({ where });
+	if (!locked) throw new TxRequestError('Locked object not found', 404);
+	if (locked.deleted) throw new TxRequestError('The locked object has been unlocked');
+
+	return locked;
+};
+
+/// Serializes the unsigned transaction for `sender` (gas is resolved from the sender's coins).
+const serialize = async (txb: Transaction, sender: string) => {
+	txb.setSender(sender);
+
+	let bytes: Uint8Array;
+	try {
+		bytes = await txb.build({ client });
+	} catch (e) {
+		// The SDK throws plain errors for transactions that can't be built (e.g. a failed dry run or no gas coins).
+		// RPC failures have their own error classes, and are left to the route as server errors.
+		if (e instanceof Error && e.constructor === Error) throw new ApiError(e.message, 400, 'invalid_transaction');
+		throw e;
+	}
+
+	return { sender, bytes: toBase64(bytes) };
+};
+
+/// `POST /tx/lock`: `{ sender, objectId, timelockMs? }`
+export const prepareLockTransaction = async (body: Record<string, any>) => {
+	const sender = parseAddress(body, 'sender');
+	const objectId = parseAddress(body, 'objectId');
+
+	const txb = buildLockTransaction({
+		sender,
+		objectId,
+		itemType: await getObjectType(objectId),
+		timelockMs: parseOptionalInteger(body, 'timelockMs'),
+	});
+
+	return serialize(txb, sender);
+};
+
+/// `POST /tx/escrow`: `{ sender, objectId, lockedId }`
+export const prepareEscrowTransaction = async (body: Record<string, any>) => {
+	const sender = parseAddress(body, 'sender');
+	const objectId = parseAddress(body, 'objectId');
+	const locked = await getActiveLocked({ objectId: parseAddress(body, 'lockedId') });
+
+	const txb = buildCreateEscrowTransaction({
+		objectId,
+		itemType: await getObjectType(objectId),
+		keyId: locked.keyId!,
+		recipient: locked.creator!,
+	});
+
+	return serialize(txb, sender);
+};
+
+/// `POST /tx/hashlock-escrow`: `{ sender, objectId, lockedId, hashCommitment, timeoutMs? }`
+export const prepareHashlockEscrowTransaction = async (body: Record<string, any>) => {
+	const sender = parseAddress(body, 'sender');
+	const objectId = parseAddress(body, 'objectId');
+	const hashCommitment = parseBytes(body, 'hashCommitment');
+	if (hashCommitment.length !== 32) throw new TxRequestError('hashCommitment must be a 32 bytes keccak256 hash');
+
+	const locked = await getActiveLocked({ objectId: parseAddress(body, 'lockedId') });
+
+	const txb = buildCreateHashlockEscrowTransaction({
+		objectId,
+		itemType: await getObjectType(objectId),
+		keyId: locked.keyId!,
+		recipient: locked.creator!,
+		hashCommitment,
+		timeoutMs: parseOptionalInteger(body, 'timeoutMs'),
+	});
+
+	return serialize(txb, sender);
+};
+
+/// `POST /tx/swap`: `{ sender, escrowId }`
+export const prepareSwapTransaction = async (body: Record<string, any>) => {
+	const sender = parseAddress(body, 'sender');
+	const escrow = await getOpenEscrow(parseAddress(body, 'escrowId'));
+
+	if (escrow.module !== 'shared')
+		throw new TxRequestError('Only `shared` escrows can be swapped, use `/tx/reveal` for hashlock escrows');
+	if (escrow.recipient !== sender) throw new TxRequestError('Only the recipient can accept the escrow');
+
+	const locked = await getActiveLocked({ keyId: escrow.keyId! });
+
+	const txb = buildSwapTransaction({
+		sender,
+		escrowId: escrow.objectId,
+		keyId: escrow.keyId!,
+		lockedId: locked.objectId,
+		escrowType: await getItemType(escrow),
+		lockedType: await getItemType(locked),
+	});
+
+	return serialize(txb, sender);
+};
+
+/// `POST /tx/reveal`: `{ sender, escrowId, secret, secretEncoding? }` (`utf8` by default, or `hex`)
+export const prepareRevealTransaction = async (body: Record<string, any>) => {
+	const sender = parseAddress(body, 'sender');
+	const escrow = await getOpenEscrow(parseAddress(body, 'escrowId'));
+
+	if (escrow.module !== 'hashlock_shared')
+		throw new TxRequestError('Only `hashlock_shared` escrows can be revealed');
+	if (escrow.recipient !== sender) throw new TxRequestError('Only the recipient can accept the escrow');
+
+	const encoding = body.secretEncoding ?? 'utf8';
+	if (!SECRET_ENCODINGS.includes(encoding)) throw new TxRequestError('Invalid secretEncoding');
+
+	// Checked here, so a wrong secret never reaches the wallet.
+	const secret = parseBytes(body, 'secret', encoding);
+	if (!escrow.hashCommitment || !verifySecret(secret, escrow.hashCommitment))
+		throw new TxRequestError('The secret does not match the escrow hash commitment');
+
+	const locked = await getActiveLocked({ keyId: escrow.keyId! });
+
+	const txb = buildRevealTransaction({
+		sender,
+		escrowId: escrow.objectId,
+		lockedId: locked.objectId,
+		// `Hashlocked` objects are their own key
+		keyId: locked.module === 'hashlock' ? undefined : escrow.keyId!,
+		escrowType: await getItemType(escrow),
+		lockedType: await getItemType(locked),
+		secret,
+	});
+
+	return serialize(txb, sender);
+};
+
+/// `POST /tx/cancel`: `{ sender, escrowId }`
+export const prepareCancelTransaction = async (body: Record<string, any>) => {
+	const sender = parseAddress(body, 'sender');
+	const escrow = await getOpenEscrow(parseAddress(body, 'escrowId'));
+
+	if (escrow.module !== 'shared' && escrow.module !== 'hashlock_shared' && escrow.module !== 'hashlock_owned')
+		throw new TxRequestError('`owned` escrows can only be returned by their custodian');
+	if (escrow.sender !== sender) throw new TxRequestError('Only the sender can cancel the escrow');
+
+	const txb = buildCancelTransaction({
+		sender,
+		escrowId: escrow.objectId,
+		module: escrow.module,
+		itemType: await getItemType(escrow),
+	});
+
+	return serialize(txb, sender);
+};
@@ -35,6 +35,7 @@
 module escrow::owned;
 
 use escrow::lock::{Locked, Key};
+use sui::event;
 
 /// An object held in escrow
 public struct Escrow<T: key + store> has key {
@@ -97,6 +98,16 @@ public fun create<T: key + store>(
         escrowed: locked.unlock(key),
     };
 
+    event::emit(EscrowCreated {
+        escrow_id: object::id(&escrow),
+        key_id: exchange_key,
+        escrowed_key: escrow.escrowed_key,
+        sender: escrow.sender,
+        recipient,
+        custodian,
+        item_id: object::id(&escrow.escrowed),
+    });
+
     transfer::transfer(escrow, custodian);
 }
 
@@ -121,6 +132,10 @@ public fun swap<T: key + store, U: key + store>(obj1: Escrow<T>, obj2: Escrow<U>
         escrowed_key: escrowed_key2,
         escrowed: escrowed2,
     } = obj2;
+
+    event::emit(EscrowSwapped { escrow_id: id1.to_inner() });
+    event::emit(EscrowSwapped { escrow_id: id2.to_inner() });
+
     id1.delete();
     id2.delete();
 
@@ -149,10 +164,39 @@ public fun return_to_sender<T: key + store>(obj: Escrow<T>) {
         escrowed_key: _,
         escrowed,
     } = obj;
+
+    event::emit(EscrowCancelled { escrow_id: id.to_inner() });
+
     id.delete();
     transfer::public_transfer(escrowed, sender);
 }
 
+// === Events ===
+public struct EscrowCreated has copy, drop {
+    /// the ID of the escrow that was created
+    escrow_id: ID,
+    /// The ID of the `Key` that unlocks the requested object.
+    key_id: ID,
+    /// The ID of the `Key` that locked the escrowed object.
+    escrowed_key: ID,
+    /// The id of the sender who'll receive `T` upon swap
+    sender: address,
+    /// The (original) recipient of the escrowed object
+    recipient: address,
+    /// The third-party holding the escrow until it is swapped or returned
+    custodian: address,
+    /// The ID of the escrowed item
+    item_id: ID,
+}
+
+public struct EscrowSwapped has copy, drop {
+    escrow_id: ID,
+}
+
+public struct EscrowCancelled has copy, drop {
+    escrow_id: ID,
+}
+
 // === Tests ===
 // #[test_only]
 // use sui::coin::{Self, Coin};
@@ -0,0 +1,38 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { readFileSync } from 'fs';
+
+import { ACTIVE_NETWORK } from './utils/sui-utils';
+
+/// The output of `npm run deploy`, in the format: { "packageId": "0x...", "factoryId": "0x..." }
+const parseConfigurationFile = (fileName: string) => {
+	try {
+		return JSON.parse(readFileSync(`${fileName}.json`, 'utf8'));
+	} catch (e) {
+		throw new Error(`Missing config file ${fileName}.json. Run \`npm run deploy\` first.`);
+	}
+};
+
+/// The configuration of the indexer & the API.
+export const CONFIG = {
+	/// Look for events every 1s
+	POLLING_INTERVAL_MS: 1000,
+	/// Upper bound for the exponential backoff applied to failing event trackers
+	MAX_BACKOFF_MS: 60_000,
+	DEFAULT_LIMIT: 50,
+	/// The frontend expects the API on `http://localhost:3003` (`API_ENDPOINT`)
+	PORT: Number(process.env.PORT) || 3003,
+	NETWORK: ACTIVE_NETWORK,
+	/// The JSON-RPC endpoint of the EVM chain of the swaps (a local anvil / hardhat node by default)
+	EVM_RPC_URL: process.env.EVM_RPC_URL || 'http://127.0.0.1:8545',
+	/// The unlocked account the relayer sends EVM transactions from. Defaults to the node's first account.
+	EVM_FROM: process.env.EVM_FROM || undefined,
+	/// The first EVM block the relayer reads HTLC events from
+	EVM_START_BLOCK: BigInt(process.env.EVM_START_BLOCK || 0),
+	/// The most EVM blocks read per `eth_getLogs` request
+	EVM_MAX_BLOCK_RANGE: 1000n,
+	/// A relay job is marked as failed after this many attempts
+	RELAYER_MAX_ATTEMPTS: Number(process.env.RELAYER_MAX_ATTEMPTS) || 5,
+	HTLC_CONTRACT: parseConfigurationFile('crosschain-htlc-contract') as { packageId: string; factoryId?: string },
+};
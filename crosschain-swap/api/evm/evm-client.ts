@@ -0,0 +1,173 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import {
+	decodeAddress,
+	decodeBool,
+	decodeHtlcLog,
+	decodeWord,
+	encodeView,
+	encodeWithdraw,
+	EvmLog,
+	HTLC_EVENTS,
+	HtlcEvent,
+} from './htlc-abi';
+
+/// The state of an HTLC contract (see `htlc-abi.ts`).
+export type HtlcState = {
+	sender: string;
+	receiver: string;
+	// keccak256 of the secret (hex, without `0x`)
+	hashlock: string;
+	amount: bigint;
+	// In seconds
+	deadline: bigint;
+	withdrawn: boolean;
+	refunded: boolean;
+};
+
+/**
+ * What the relayer (and the demo tooling) needs from an EVM chain.
+ * `JsonRpcEvmClient` talks to a dev node with unlocked accounts (anvil, hardhat);
+ * other implementations (e.g. signing with a private key) can be swapped in.
+ */
+export interface EvmHtlcClient {
+	getBlockNumber(): Promise<bigint>;
+	/// The HTLC events emitted between `fromBlock` & `toBlock` (inclusive), by any contract.
+	getHtlcEvents(fromBlock: bigint, toBlock: bigint): Promise<HtlcEvent[]>;
+	getHtlcState(contract: string): Promise<HtlcState>;
+	/// The runtime code of a contract (hex, with `0x`), `0x` if there is none.
+	getCode(contract: string): Promise<string>;
+	/// Calls `withdraw(secret)`. Resolves with the transaction hash once it's mined.
+	withdraw(contract: string, secret: Uint8Array): Promise<string>;
+	/// Deploys a contract (`data` is its bytecode & encoded constructor arguments), sending it `value` wei.
+	/// Resolves with its address once it's mined.
+	deployContract(data: string, value?: bigint): Promise<string>;
+}
+
+type JsonRpcResponse<T> = { result?: T; error?: { code: number; message: string } };
+
+type TransactionReceipt = { status: string; transactionHash: string; contractAddress: string | null };
+
+/// How often a pending transaction's receipt is polled, and for how long.
+const RECEIPT_POLLING_MS = 500;
+const RECEIPT_TIMEOUT_MS = 60_000;
+
+/**
+ * An `EvmHtlcClient` over JSON-RPC. Transactions are sent with `eth_sendTransaction`,
+ * so `from` must be an account unlocked by the node (defaults to its first account).
+ */
+export class JsonRpcEvmClient implements EvmHtlcClient {
+	private requestId = 0;
+
+	constructor(
+		public readonly url: string,
+		private from?: string,
+	) {}
+
+	async request<T>(method: string, params: unknown[] = []): Promise<T> {
+		const res = await fetch(this.url, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+		});
+		if (!res.ok) throw new Error(`EVM RPC ${method} failed with HTTP ${res.status}`);
+
+		const body = (await res.json()) as JsonRpcResponse<T>;
+		if (body.error) throw new Error(`EVM RPC ${method} failed: ${body.error.message}`);
+		return body.result as T;
+	}
+
+	/// The account transactions are sent from.
+	async getSender() {
+		if (!this.from) {
+			const [account] = await this.request<string[]>('eth_accounts');
+			if (!account) throw new Error('The EVM node has no unlocked account, set `EVM_FROM`');
+			this.from = account;
+		}
+		return this.from;
+	}
+
+	async getBlockNumber() {
+		return BigInt(await this.request<string>('eth_blockNumber'));
+	}
+
+	async getHtlcEvents(fromBlock: bigint, toBlock: bigint) {
+		const logs = await this.request<EvmLog[]>('eth_getLogs', [
+			{
+				fromBlock: `0x${fromBlock.toString(16)}`,
+				toBlock: `0x${toBlock.toString(16)}`,
+				// Any of the HTLC events, emitted by any contract
+				topics: [Object.values(HTLC_EVENTS)],
+			},
+		]);
+
+		return logs.map(decodeHtlcLog).filter((event): event is HtlcEvent => !!event);
+	}
+
+	async getHtlcState(contract: string): Promise<HtlcState> {
+		const call = (name: string) =>
+			this.request<string>('eth_call', [{ to: contract, data: encodeView(name) }, 'latest']);
+
+		const [sender, receiver, hashlock, amount, deadline, withdrawn, refunded] = await Promise.all(
+			['sender', 'receiver', 'hashlock', 'amount', 'deadline', 'withdrawn', 'refunded'].map(call),
+		);
+		if (hashlock === '0x') throw new Error(`${contract} is not an HTLC contract`);
+
+		return {
+			sender: decodeAddress(sender),
+			receiver: decodeAddress(receiver),
+			hashlock: hashlock.replace(/^0x/, '').toLowerCase(),
+			amount: decodeWord(amount),
+			deadline: decodeWord(deadline),
+			withdrawn: decodeBool(withdrawn),
+			refunded: decodeBool(refunded),
+		};
+	}
+
+	async getCode(contract: string) {
+		return (await this.request<string>('eth_getCode', [contract, 'latest'])).toLowerCase();
+	}
+
+	async withdraw(contract: string, secret: Uint8Array) {
+		const receipt = await this.sendTransaction({ to: contract, data: encodeWithdraw(secret) });
+		return receipt.transactionHash;
+	}
+
+	async deployContract(data: string, value?: bigint) {
+		const receipt = await this.sendTransaction({ data, value });
+		if (!receipt.contractAddress) throw new Error(`EVM transaction ${receipt.transactionHash} created no contract`);
+		return receipt.contractAddress.toLowerCase();
+	}
+
+	/// Sends a transaction from `getSender()`, and waits for it to succeed.
+	/// The gas is estimated first, as some nodes default to a limit too low for deployments.
+	/// Estimating also surfaces reverts (e.g. a wrong secret) before anything is sent.
+	async sendTransaction(tx: { to?: string; data: string; value?: bigint }) {
+		const params = {
+			from: await this.getSender(),
+			to: tx.to,
+			data: tx.data,
+			value: tx.value !== undefined ? `0x${tx.value.toString(16)}` : undefined,
+		};
+		const gas = await this.request<string>('eth_estimateGas', [params]);
+		const hash = await this.request<string>('eth_sendTransaction', [{ ...params, gas }]);
+
+		return this.waitForReceipt(hash);
+	}
+
+	async waitForReceipt(hash: string) {
+		const timeoutAt = Date.now() + RECEIPT_TIMEOUT_MS;
+
+		while (Date.now() < timeoutAt) {
+			const receipt = await this.request<TransactionReceipt | null>('eth_getTransactionReceipt', [hash]);
+			if (receipt) {
+				if (receipt.status !== '0x1') throw new Error(`EVM transaction ${hash} reverted`);
+				return receipt;
+			}
+			await new Promise((resolve) => setTimeout(resolve, RECEIPT_POLLING_MS));
+		}
+
+		throw new Error(`EVM transaction ${hash} was not mined after ${RECEIPT_TIMEOUT_MS / 1000}s`);
+	}
+}
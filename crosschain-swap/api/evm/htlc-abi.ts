@@ -0,0 +1,128 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { fromHex, toHex } from '@mysten/sui/utils';
+import { keccak256 } from 'js-sha3';
+
+/**
+ * The ABI of the EVM leg of a swap: one HTLC contract per swap, locking ETH for `receiver`
+ * until `deadline` (seconds), unlocked by the secret whose keccak256 is `hashlock`
+ * (the same hash the Sui escrow uses, so one secret unlocks both legs).
+ *
+ * ```solidity
+ * constructor(address receiver, bytes32 hashlock, uint256 deadline) payable;
+ * function withdraw(bytes secret) external;  // pays `receiver`, anyone can call it
+ * function refund() external;                // pays `sender`, after `deadline`
+ * function sender() view returns (address);
+ * function receiver() view returns (address);
+ * function hashlock() view returns (bytes32);
+ * function amount() view returns (uint256);
+ * function deadline() view returns (uint256);
+ * function withdrawn() view returns (bool);
+ * function refunded() view returns (bool);
+ * event Locked(bytes32 indexed hashlock, address indexed sender, address indexed receiver, uint256 amount, uint256 deadline);
+ * event Withdrawn(bytes32 indexed hashlock, bytes secret);
+ * event Refunded(bytes32 indexed hashlock);
+ * ```
+ */
+
+/// The topic (keccak256 of the signature) of each HTLC event.
+export const HTLC_EVENTS = {
+	Locked: `0x${keccak256('Locked(bytes32,address,address,uint256,uint256)')}`,
+	Withdrawn: `0x${keccak256('Withdrawn(bytes32,bytes)')}`,
+	Refunded: `0x${keccak256('Refunded(bytes32)')}`,
+};
+
+/// A log, as returned by `eth_getLogs`.
+export type EvmLog = {
+	address: string;
+	topics: string[];
+	data: string;
+	blockNumber: string;
+	transactionHash: string;
+	logIndex: string;
+};
+
+export type HtlcEvent =
+	| {
+			type: 'Locked';
+			contract: string;
+			hashlock: string;
+			sender: string;
+			receiver: string;
+			amount: bigint;
+			// In seconds
+			deadline: bigint;
+			txHash: string;
+	  }
+	| { type: 'Withdrawn'; contract: string; hashlock: string; secret: Uint8Array; txHash: string }
+	| { type: 'Refunded'; contract: string; hashlock: string; txHash: string };
+
+const strip0x = (hex: string) => hex.replace(/^0x/, '');
+
+/// The 4-byte selector of a function signature, as hex without `0x`.
+export const selector = (signature: string) => keccak256(signature).slice(0, 8);
+
+/// Encodes a `uint256` (or any static word) as a 32-byte hex word.
+export const encodeWord = (value: bigint) => value.toString(16).padStart(64, '0');
+
+/// Encodes an `address` as a 32-byte hex word.
+export const encodeAddress = (address: string) => strip0x(address).toLowerCase().padStart(64, '0');
+
+/// Encodes `bytes` as the tail of a dynamic argument (length, then the data padded to words).
+const encodeBytes = (bytes: Uint8Array) => {
+	const data = toHex(bytes);
+	return encodeWord(BigInt(bytes.length)) + data.padEnd(Math.ceil(data.length / 64) * 64, '0');
+};
+
+/// The calldata of `withdraw(bytes secret)`.
+export const encodeWithdraw = (secret: Uint8Array) =>
+	`0x${selector('withdraw(bytes)')}${encodeWord(32n)}${encodeBytes(secret)}`;
+
+/// The calldata of a view function without arguments (e.g. `hashlock()`).
+export const encodeView = (name: string) => `0x${selector(`${name}()`)}`;
+
+/// The 32-byte words of ABI encoded data.
+const words = (data: string) => strip0x(data).match(/.{64}/g) ?? [];
+
+export const decodeWord = (data: string) => BigInt(`0x${words(data)[0] ?? '0'}`);
+
+export const decodeAddress = (word: string) => `0x${strip0x(word).slice(-40)}`;
+
+export const decodeBool = (data: string) => decodeWord(data) !== 0n;
+
+/// Decodes `bytes` encoded as the only (dynamic) value of `data`.
+const decodeBytes = (data: string) => {
+	const hex = strip0x(data);
+	const offset = Number(BigInt(`0x${hex.slice(0, 64)}`)) * 2;
+	const length = Number(BigInt(`0x${hex.slice(offset, offset + 64)}`)) * 2;
+	return fromHex(hex.slice(offset + 64, offset + 64 + length));
+};
+
+/// Decodes an HTLC log. Returns `undefined` for logs of other events.
+export const decodeHtlcLog = (log: EvmLog): HtlcEvent | undefined => {
+	const [topic, hashlockTopic] = log.topics;
+	const contract = log.address.toLowerCase();
+	const hashlock = strip0x(hashlockTopic ?? '').toLowerCase();
+	const txHash = log.transactionHash;
+
+	switch (topic) {
+		case HTLC_EVENTS.Locked: {
+			const [amount, deadline] = words(log.data).map((word) => BigInt(`0x${word}`));
+			return {
+				type: 'Locked',
+				contract,
+				hashlock,
+				sender: decodeAddress(log.topics[2]),
+				receiver: decodeAddress(log.topics[3]),
+				amount,
+				deadline,
+				txHash,
+			};
+		}
+		case HTLC_EVENTS.Withdrawn:
+			return { type: 'Withdrawn', contract, hashlock, secret: decodeBytes(log.data), txHash };
+		case HTLC_EVENTS.Refunded:
+			return { type: 'Refunded', contract, hashlock, txHash };
+	}
+};
@@ -0,0 +1,12 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+/// Generated by `npm run compile-htlc` from `contracts/evm/HashedTimelock.sol`, do not edit.
+export const HTLC_ARTIFACT = {
+	contractName: 'HashedTimelock',
+	compiler: 'solc 0.8.37+commit.f401782d.Emscripten.clang',
+	abi: [{"inputs":[{"internalType":"address","name":"receiver_","type":"address"},{"internalType":"bytes32","name":"hashlock_","type":"bytes32"},{"internalType":"uint256","name":"deadline_","type":"uint256"}],"stateMutability":"payable","type":"constructor"},{"inputs":[],"name":"AlreadyCompleted","type":"error"},{"inputs":[],"name":"DeadlineNotReached","type":"error"},{"inputs":[],"name":"DeadlinePassed","type":"error"},{"inputs":[],"name":"InvalidLock","type":"error"},{"inputs":[],"name":"InvalidSecret","type":"error"},{"inputs":[],"name":"TransferFailed","type":"error"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"hashlock","type":"bytes32"},{"indexed":true,"internalType":"address","name":"sender","type":"address"},{"indexed":true,"internalType":"address","name":"receiver","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"deadline","type":"uint256"}],"name":"Locked","type":"event"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"hashlock","type":"bytes32"}],"name":"Refunded","type":"event"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"hashlock","type":"bytes32"},{"indexed":false,"internalType":"bytes","name":"secret","type":"bytes"}],"name":"Withdrawn","type":"event"},{"inputs":[],"name":"amount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"deadline","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"hashlock","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"receiver","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"refund","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"refunded","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"sender","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"bytes","name":"secret","type":"bytes"}],"name":"withdraw","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"withdrawn","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"}],
+	bytecode: '0x610120604052604051610735380380610735833981016040819052610023916100cc565b34158061003757506001600160a01b038316155b806100425750428111155b1561006057604051630f10a90160e21b815260040160405180910390fd5b3360808190526001600160a01b03841660a081905260c08490523460e0819052610100849052604080519182526020820185905291929185917f9c46dd03d783850e02b90c047546a4c280a6685e86ab93bbfac7221c53b51d62910160405180910390a450505061010f565b6000806000606084860312156100e157600080fd5b83516001600160a01b03811681146100f857600080fd5b602085015160409095015190969495509392505050565b60805160a05160c05160e051610100516105ab61018a6000396000818160d90152818161020a015261036e01526000818161017c015261043c0152600081816101550152818161024b015281816102b201526103c00152600081816101b0015261030e015260008181610116015261040801526105ab6000f3fe608060405234801561001057600080fd5b50600436106100935760003560e01c806367e404ce1161006657806367e404ce14610111578063a782086e14610150578063aa8c217c14610177578063c80ec5221461019e578063f7260d3e146101ab57600080fd5b80630968f2641461009857806312f53950146100ad57806329dcb0cf146100d4578063590e1ae314610109575b600080fd5b6100ab6100a63660046104c2565b6101d2565b005b6000546100bf90610100900460ff1681565b60405190151581526020015b60405180910390f35b6100fb7f000000000000000000000000000000000000000000000000000000000000000081565b6040519081526020016100cb565b6100ab610336565b6101387f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100cb565b6100fb7f000000000000000000000000000000000000000000000000000000000000000081565b6100fb7f000000000000000000000000000000000000000000000000000000000000000081565b6000546100bf9060ff1681565b6101387f000000000000000000000000000000000000000000000000000000000000000081565b60005460ff16806101ea5750600054610100900460ff165b156102085760405163195332a560e01b815260040160405180910390fd5b7f00000000000000000000000000000000000000000000000000000000000000004211156102495760405163387b2e5560e11b815260040160405180910390fd5b7f0000000000000000000000000000000000000000000000000000000000000000828260405161027a929190610536565b6040518091039020146102a05760405163abab6bd760e01b815260040160405180910390fd5b6000805460ff191660011790556040517f0000000000000000000000000000000000000000000000000000000000000000907f76fe72b2ba1fa864a0c0d5f7ab1ba36f07f6f3280596bf7cc588f0e54c64df16906103019085908590610546565b60405180910390a26103327f000000000000000000000000000000000000000000000000000000000000000061042e565b5050565b60005460ff168061034e5750600054610100900460ff165b1561036c5760405163195332a560e01b815260040160405180910390fd5b7f000000000000000000000000000000000000000000000000000000000000000042116103ac57604051633376277360e11b815260040160405180910390fd5b6000805461ff0019166101001781556040517f0000000000000000000000000000000000000000000000000000000000000000917ffe509803c09416b28ff3d8f690c8b0c61462a892c46d5430c8fb20abe472daf091a261042c7f000000000000000000000000000000000000000000000000000000000000000061042e565b565b6000816001600160a01b03167f000000000000000000000000000000000000000000000000000000000000000060405160006040518083038185875af1925050503d806000811461049b576040519150601f19603f3d011682016040523d82523d6000602084013e6104a0565b606091505b5050905080610332576040516312171d8360e31b815260040160405180910390fd5b600080602083850312156104d557600080fd5b823567ffffffffffffffff8111156104ec57600080fd5b8301601f810185136104fd57600080fd5b803567ffffffffffffffff81111561051457600080fd5b85602082840101111561052657600080fd5b6020919091019590945092505050565b8183823760009101908152919050565b60208152816020820152818360408301376000818301604090810191909152601f909201601f1916010191905056fea2646970667358221220937996ac3563071da715ade237a62ceea505c80f1c9cec6c16c2f5bbeebf5d5a64736f6c63430008250033',
+	deployedBytecode: '0x608060405234801561001057600080fd5b50600436106100935760003560e01c806367e404ce1161006657806367e404ce14610111578063a782086e14610150578063aa8c217c14610177578063c80ec5221461019e578063f7260d3e146101ab57600080fd5b80630968f2641461009857806312f53950146100ad57806329dcb0cf146100d4578063590e1ae314610109575b600080fd5b6100ab6100a63660046104c2565b6101d2565b005b6000546100bf90610100900460ff1681565b60405190151581526020015b60405180910390f35b6100fb7f000000000000000000000000000000000000000000000000000000000000000081565b6040519081526020016100cb565b6100ab610336565b6101387f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100cb565b6100fb7f000000000000000000000000000000000000000000000000000000000000000081565b6100fb7f000000000000000000000000000000000000000000000000000000000000000081565b6000546100bf9060ff1681565b6101387f000000000000000000000000000000000000000000000000000000000000000081565b60005460ff16806101ea5750600054610100900460ff165b156102085760405163195332a560e01b815260040160405180910390fd5b7f00000000000000000000000000000000000000000000000000000000000000004211156102495760405163387b2e5560e11b815260040160405180910390fd5b7f0000000000000000000000000000000000000000000000000000000000000000828260405161027a929190610536565b6040518091039020146102a05760405163abab6bd760e01b815260040160405180910390fd5b6000805460ff191660011790556040517f0000000000000000000000000000000000000000000000000000000000000000907f76fe72b2ba1fa864a0c0d5f7ab1ba36f07f6f3280596bf7cc588f0e54c64df16906103019085908590610546565b60405180910390a26103327f000000000000000000000000000000000000000000000000000000000000000061042e565b5050565b60005460ff168061034e5750600054610100900460ff165b1561036c5760405163195332a560e01b815260040160405180910390fd5b7f000000000000000000000000000000000000000000000000000000000000000042116103ac57604051633376277360e11b815260040160405180910390fd5b6000805461ff0019166101001781556040517f0000000000000000000000000000000000000000000000000000000000000000917ffe509803c09416b28ff3d8f690c8b0c61462a892c46d5430c8fb20abe472daf091a261042c7f000000000000000000000000000000000000000000000000000000000000000061042e565b565b6000816001600160a01b03167f000000000000000000000000000000000000000000000000000000000000000060405160006040518083038185875af1925050503d806000811461049b576040519150601f19603f3d011682016040523d82523d6000602084013e6104a0565b606091505b5050905080610332576040516312171d8360e31b815260040160405180910390fd5b600080602083850312156104d557600080fd5b823567ffffffffffffffff8111156104ec57600080fd5b8301601f810185136104fd57600080fd5b803567ffffffffffffffff81111561051457600080fd5b85602082840101111561052657600080fd5b6020919091019590945092505050565b8183823760009101908152919050565b60208152816020820152818360408301376000818301604090810191909152601f909201601f1916010191905056fea2646970667358221220937996ac3563071da715ade237a62ceea505c80f1c9cec6c16c2f5bbeebf5d5a64736f6c63430008250033',
+	immutableRanges: [{"length":32,"start":217},{"length":32,"start":278},{"length":32,"start":341},{"length":32,"start":380},{"length":32,"start":432},{"length":32,"start":522},{"length":32,"start":587},{"length":32,"start":690},{"length":32,"start":782},{"length":32,"start":878},{"length":32,"start":960},{"length":32,"start":1032},{"length":32,"start":1084}],
+} as const;
@@ -0,0 +1,111 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+// The swap planning module shared with the frontends, so both check swaps identically
+import { assessSwap, lockPayee, planSwapDeadlines, SwapOptions } from '../../../api/sdk/swap-planning';
+import { encodeAddress, encodeWord, HtlcEvent } from './htlc-abi';
+import { EvmHtlcClient } from './evm-client';
+import { HTLC_ARTIFACT } from './htlc-artifact';
+
+/// The Sui escrow is the maker's leg of the swap (its creator holds the secret), the mirror lock the taker's.
+/// Escrows pay their `recipient` once claimed, which is the taker when the swap is set up as planned.
+export const MIRROR_LOCK_OPTIONS: SwapOptions = { makerChain: 'sui', takerChain: 'evm', makerLockPayee: 'taker' };
+
+export type DeployHtlcParams = {
+	receiver: string;
+	// keccak256 of the secret (hex, with or without `0x`)
+	hashlock: string;
+	// In seconds
+	deadline: bigint;
+	// In wei
+	amount: bigint;
+};
+
+/// Deploys a `HashedTimelock` (see `contracts/evm/HashedTimelock.sol`), locking `amount`. Returns its address.
+export const deployHtlc = (client: EvmHtlcClient, { receiver, hashlock, deadline, amount }: DeployHtlcParams) => {
+	if (!/^0x[0-9a-fA-F]{40}$/.test(receiver)) throw new Error(`Invalid receiver address: ${receiver}`);
+	if (!/^(0x)?[0-9a-fA-F]{64}$/.test(hashlock)) throw new Error(`Invalid hashlock: ${hashlock}`);
+
+	const constructorArgs = encodeAddress(receiver) + hashlock.replace(/^0x/, '').toLowerCase() + encodeWord(deadline);
+	return client.deployContract(HTLC_ARTIFACT.bytecode + constructorArgs, amount);
+};
+
+export type MirrorLockParams = {
+	// The `hashlock` & `eth_receiver` of the Sui escrow (hex)
+	hashlock: string;
+	ethReceiver: string;
+	// The `creator` & `recipient` of the Sui escrow
+	creator: string;
+	recipient: string;
+	// The Sui address of the taker locking the ETH, who the escrow must pay
+	taker: string;
+	// The `deadline` of the Sui escrow (ms)
+	suiDeadline: number;
+	// In wei
+	amount: bigint;
+	// The deadline of the mirror lock (ms), the latest safe one by default
+	deadline?: number;
+};
+
+/**
+ * Creates the EVM leg of a Sui escrow: an HTLC paying its `eth_receiver`, with the same hashlock
+ * and a deadline early enough that the escrow can still be claimed with a secret revealed on the
+ * EVM chain right before it (see `planSwapDeadlines`). Throws if the lock is unsafe, including when
+ * the escrow doesn't pay the taker (see `lockPayee`). Returns the address & the state of the lock.
+ */
+export const createMirrorLock = async (
+	client: EvmHtlcClient,
+	{ hashlock, ethReceiver, creator, recipient, taker, suiDeadline, amount, deadline }: MirrorLockParams,
+) => {
+	const options: SwapOptions = { ...MIRROR_LOCK_OPTIONS, makerLockPayee: lockPayee({ creator, recipient }, taker) };
+
+	// Throws if the Sui escrow expires too soon for any mirror lock to be safe
+	const plan = planSwapDeadlines(suiDeadline, options);
+	const deadlineMs = deadline ?? plan.takerDeadline.recommended;
+
+	const verdict = assessSwap({ makerDeadline: suiDeadline, takerDeadline: deadlineMs }, options);
+	if (!verdict.safe) throw new Error(`Unsafe mirror lock: ${verdict.reasons.join('. ')}`);
+
+	const contract = await deployHtlc(client, {
+		receiver: ethReceiver,
+		hashlock,
+		// Rounded down to seconds, i.e. a bit earlier
+		deadline: BigInt(Math.floor(deadlineMs / 1000)),
+		amount,
+	});
+
+	return { contract, state: await client.getHtlcState(contract) };
+};
+
+/// Zeroes the immutables of `HashedTimelock` runtime code (hex, with `0x`), which differ per deployment.
+const maskImmutables = (code: string) => {
+	let masked = code.toLowerCase();
+	for (const { start, length } of HTLC_ARTIFACT.immutableRanges) {
+		const offset = 2 + start * 2;
+		masked = masked.slice(0, offset) + '0'.repeat(length * 2) + masked.slice(offset + length * 2);
+	}
+	return masked;
+};
+
+const HTLC_RUNTIME_CODE = maskImmutables(HTLC_ARTIFACT.deployedBytecode);
+
+/**
+ * Checks that the contract of a `Locked` event is a genuine `HashedTimelock`: any contract can emit
+ * the event, so its runtime code must match the artifact's (but for the immutables), and its state
+ * the event's. Returns why it doesn't, if it doesn't.
+ */
+export const htlcLockError = async (client: EvmHtlcClient, event: Extract<HtlcEvent, { type: 'Locked' }>) => {
+	const code = await client.getCode(event.contract);
+	if (code.length !== HTLC_RUNTIME_CODE.length || maskImmutables(code) !== HTLC_RUNTIME_CODE) {
+		return 'its code is not the HashedTimelock artifact';
+	}
+
+	const state = await client.getHtlcState(event.contract);
+	const matches =
+		state.hashlock === event.hashlock &&
+		state.sender === event.sender &&
+		state.receiver === event.receiver &&
+		state.amount === event.amount &&
+		state.deadline === event.deadline;
+	return matches ? undefined : 'its state does not match its Locked event';
+};
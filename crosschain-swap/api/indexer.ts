@@ -0,0 +1,6 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { setupListeners } from './indexer/event-indexer';
+
+setupListeners();
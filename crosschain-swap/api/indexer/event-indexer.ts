@@ -0,0 +1,162 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { EventId, SuiEvent, SuiEventFilter } from '@mysten/sui/client';
+import { Prisma } from '@prisma/client';
+
+import { EventExecutionResult, EventJob, executeEventJob, runEventJob } from '../../../api/indexer/event-loop';
+import { CONFIG } from '../config';
+import { prisma } from '../db';
+import { getClient } from '../utils/sui-utils';
+import { handleOrderEvents } from './order-handler';
+import { handleSwapEvents } from './swap-handler';
+
+/// Trackers run with the escrow API's event loop (`api/indexer/event-loop.ts`).
+
+export type EventTracker = {
+	// The module that defines the type, with format `package::module`
+	type: string;
+	// The key of the tracker's cursor, if several trackers follow the same module (defaults to `type`)
+	cursorId?: string;
+	filter: SuiEventFilter;
+	// Writes the events' changes using the transaction client of the batch
+	callback: (events: SuiEvent[], type: string, db: Prisma.TransactionClient) => Promise<void>;
+};
+
+export const EVENTS_TO_TRACK: EventTracker[] = [
+	{
+		type: `${CONFIG.HTLC_CONTRACT.packageId}::escrow`,
+		filter: {
+			MoveEventModule: {
+				module: 'escrow',
+				package: CONFIG.HTLC_CONTRACT.packageId,
+			},
+		},
+		// Orders follow the swaps, so they're updated once the swaps are
+		callback: async (events, type, db) => {
+			await handleSwapEvents(events, type, db);
+			await handleOrderEvents(events, type, db);
+		},
+	},
+];
+
+/// The key of a tracker's cursor.
+const getCursorId = (tracker: EventTracker) => tracker.cursorId ?? tracker.type;
+
+/// The swap writes & the cursor are committed together, so a crash never leaves them
+/// out of sync (and the handlers' writes are idempotent if a page is replayed anyway).
+const toEventJob = (tracker: EventTracker): EventJob => ({
+	name: getCursorId(tracker),
+	filter: tracker.filter,
+	commit: (events, nextCursor) =>
+		prisma.$transaction(
+			async (db) => {
+				await tracker.callback(events, tracker.type, db);
+				await saveLatestCursor(tracker, nextCursor, db);
+
+				return events;
+			},
+			{ timeout: 30_000 },
+		),
+	reindexCommand: 'npm run reindex',
+});
+
+const POLLING_OPTIONS = {
+	intervalMs: CONFIG.POLLING_INTERVAL_MS,
+	maxBackoffMs: CONFIG.MAX_BACKOFF_MS,
+};
+
+/// Puts the orders back on the book before their swaps are wiped. Re-indexing links them again.
+const unlinkOrders = () =>
+	prisma.order.updateMany({
+		where: { escrowId: { not: null } },
+		data: { escrowId: null, status: 'pending', secret: null, txDigest: null },
+	});
+
+/**
+ * Cursors are keyed by `package::module`, so when the HTLC package is redeployed, the tracker
+ * starts from scratch under a new cursor key. Swaps of the previous package can't be claimed
+ * from the frontend anymore, so we wipe them together with the stale cursors (and unlink their orders).
+ */
+const handlePackageChange = async () => {
+	const stale = { NOT: { id: { startsWith: `${CONFIG.HTLC_CONTRACT.packageId}::` } } };
+	if ((await prisma.cursor.count({ where: stale })) === 0) return;
+
+	console.warn(`Package ID changed to ${CONFIG.HTLC_CONTRACT.packageId}. Re-indexing from scratch.`);
+	await prisma.$transaction([
+		prisma.cursor.deleteMany({ where: stale }),
+		prisma.swap.deleteMany(),
+		unlinkOrders(),
+	]);
+};
+
+/**
+ * Wipes the indexed swaps & cursors and rebuilds them (and the orders' escrows) from genesis.
+ * Resolves once every tracker has caught up with the chain.
+ * The indexer must not be running while re-indexing.
+ */
+export const reindex = async () => {
+	await prisma.$transaction([
+		prisma.cursor.deleteMany({ where: { id: { in: EVENTS_TO_TRACK.map(getCursorId) } } }),
+		prisma.swap.deleteMany(),
+		unlinkOrders(),
+	]);
+
+	const client = getClient(CONFIG.NETWORK);
+
+	for (const tracker of EVENTS_TO_TRACK) {
+		const job = toEventJob(tracker);
+		let result: EventExecutionResult = { cursor: undefined, hasNextPage: true, eventsProcessed: 0 };
+
+		while (result.hasNextPage) {
+			result = await executeEventJob(client, job, result.cursor);
+			if (result.error) throw new Error(`Re-indexing \`${tracker.type}\` failed (${result.error} error)`);
+		}
+	}
+};
+
+/// Gets the latest cursor of an event tracker from the DB, if it has one.
+const getLatestCursor = async (tracker: EventTracker) => {
+	const cursor = await prisma.cursor.findUnique({
+		where: {
+			id: getCursorId(tracker),
+		},
+	});
+
+	return cursor || undefined;
+};
+
+/// Saves the latest cursor of an event tracker to the db, so we can resume from there.
+const saveLatestCursor = async (
+	tracker: EventTracker,
+	cursor: EventId,
+	db: Prisma.TransactionClient,
+) => {
+	const data = {
+		eventSeq: cursor.eventSeq,
+		txDigest: cursor.txDigest,
+	};
+
+	return db.cursor.upsert({
+		where: {
+			id: getCursorId(tracker),
+		},
+		update: data,
+		create: { id: getCursorId(tracker), ...data },
+	});
+};
+
+/// Starts polling the events of `tracker`, from its latest cursor.
+export const startTracker = async (tracker: EventTracker) => {
+	runEventJob(getClient(CONFIG.NETWORK), toEventJob(tracker), await getLatestCursor(tracker), POLLING_OPTIONS);
+};
+
+/// Sets up all the listeners for the events we want to track.
+/// They are polling the RPC endpoint every second.
+export const setupListeners = async () => {
+	await handlePackageChange();
+
+	for (const tracker of EVENTS_TO_TRACK) {
+		await startTracker(tracker);
+	}
+};
@@ -0,0 +1,53 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { SuiEvent } from '@mysten/sui/client';
+import { Order, Prisma, Swap } from '@prisma/client';
+
+/// Whether `swap` is the escrow the maker of `order` signed for: SUI, with the amount & ETH receiver of the order,
+/// paying the order's taker once claimed.
+const matchesOrder = (order: Order, swap: Swap) =>
+	swap.kind === 'sui' &&
+	swap.amount === order.amount &&
+	swap.ethReceiver === order.ethReceiver &&
+	!!order.taker &&
+	swap.recipient === order.taker;
+
+/**
+ * Moves `order` along with its escrow: `locked` while the escrow is active, then `claimed` or `refunded`.
+ * Only the maker's escrows with the order's hashlock count, and the first matching one is kept, since anyone
+ * can create an escrow with a hashlock that's on the book.
+ */
+export const linkOrder = async (db: Prisma.TransactionClient, order: Order, swap: Swap) => {
+	if (swap.creator !== order.maker || swap.hashlock !== order.hashlock) return;
+	if (order.escrowId ? order.escrowId !== swap.escrowId : !matchesOrder(order, swap)) return;
+
+	await db.order.update({
+		where: { id: order.id },
+		data: {
+			escrowId: swap.escrowId,
+			status: swap.status === 'active' ? 'locked' : swap.status,
+			secret: swap.preimage,
+			txDigest: swap.completedTxDigest ?? swap.createdTxDigest,
+		},
+	});
+};
+
+/**
+ * Updates the orders of the escrows of `events`, once `handleSwapEvents` indexed them.
+ * It reads the indexed swaps rather than the events, so orders follow swaps whatever the order of events.
+ */
+export const handleOrderEvents = async (events: SuiEvent[], _type: string, db: Prisma.TransactionClient) => {
+	const escrowIds = [...new Set(events.map((event) => (event.parsedJson as { escrow_id: string }).escrow_id))];
+	const swaps = await db.swap.findMany({
+		where: { escrowId: { in: escrowIds }, creator: { not: null }, hashlock: { not: null } },
+	});
+
+	for (const swap of swaps) {
+		// Read one at a time, as an earlier swap of the batch may have linked the order already
+		const order = await db.order.findUnique({
+			where: { maker_hashlock: { maker: swap.creator!, hashlock: swap.hashlock! } },
+		});
+		if (order) await linkOrder(db, order, swap);
+	}
+};
@@ -0,0 +1,113 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiObjectId, toHex } from '@mysten/sui/utils';
+import { Prisma } from '@prisma/client';
+
+import { FatalIndexerError } from '../../../api/indexer/errors';
+
+type EscrowCreated = {
+	escrow_id: string;
+	creator: string;
+	recipient: string;
+	hashlock: number[];
+	eth_receiver: number[];
+	amount: string;
+	deadline: string;
+	item_id: string;
+};
+
+type PreimageRevealed = {
+	escrow_id: string;
+	preimage: number[];
+	claimer: string;
+	amount: string;
+	item_id: string;
+};
+
+type EscrowRefunded = {
+	escrow_id: string;
+	creator: string;
+	amount: string;
+	item_id: string;
+};
+
+/// `SuiEscrow` events carry an empty `item_id`.
+const NO_ITEM_ID = normalizeSuiObjectId('0x0');
+
+const eventTimestamp = (event: SuiEvent) =>
+	event.timestampMs ? new Date(Number(event.timestampMs)) : undefined;
+
+/**
+ * Handles the events emitted by `crosschain_htlc::escrow`.
+ * Like the escrow API's handlers, the updates are built so events can be applied in any order,
+ * and so several events of the same swap in one batch result in a single write.
+ * Creation events never set `status`, so a swap claimed or refunded in an earlier batch stays so.
+ * */
+export const handleSwapEvents = async (
+	events: SuiEvent[],
+	type: string,
+	db: Prisma.TransactionClient,
+) => {
+	const updates: Record<string, Prisma.SwapCreateInput> = {};
+
+	for (const event of events) {
+		if (!event.type.startsWith(type)) throw new FatalIndexerError('Invalid event module origin');
+		const name = event.type.split('::')[2];
+		const { escrow_id } = event.parsedJson as { escrow_id: string };
+
+		if (!updates[escrow_id]) {
+			updates[escrow_id] = { escrowId: escrow_id };
+		}
+		const update = updates[escrow_id];
+
+		switch (name) {
+			case 'EscrowCreated': {
+				const data = event.parsedJson as EscrowCreated;
+				const isObject = normalizeSuiObjectId(data.item_id) !== NO_ITEM_ID;
+
+				update.kind = isObject ? 'object' : 'sui';
+				update.itemId = isObject ? data.item_id : undefined;
+				update.creator = data.creator;
+				update.recipient = data.recipient;
+				update.ethReceiver = `0x${toHex(Uint8Array.from(data.eth_receiver))}`;
+				update.hashlock = toHex(Uint8Array.from(data.hashlock));
+				update.amount = String(data.amount);
+				update.deadline = new Date(Number(data.deadline));
+				update.createdAt = eventTimestamp(event);
+				update.createdTxDigest = event.id.txDigest;
+				break;
+			}
+			case 'PreimageRevealed': {
+				const data = event.parsedJson as PreimageRevealed;
+
+				update.status = 'claimed';
+				update.preimage = toHex(Uint8Array.from(data.preimage));
+				update.claimer = data.claimer;
+				update.completedAt = eventTimestamp(event);
+				update.completedTxDigest = event.id.txDigest;
+				break;
+			}
+			case 'EscrowRefunded': {
+				const data = event.parsedJson as EscrowRefunded;
+
+				update.status = 'refunded';
+				update.creator = data.creator;
+				update.completedAt = eventTimestamp(event);
+				update.completedTxDigest = event.id.txDigest;
+				break;
+			}
+			default:
+				throw new FatalIndexerError(`Unknown event \`${event.type}\``);
+		}
+	}
+
+	for (const update of Object.values(updates)) {
+		await db.swap.upsert({
+			where: { escrowId: update.escrowId },
+			create: update,
+			update,
+		});
+	}
+};
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "Swap" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "escrowId" TEXT NOT NULL,
+    "kind" TEXT,
+    "itemId" TEXT,
+    "creator" TEXT,
+    "ethReceiver" TEXT,
+    "hashlock" TEXT,
+    "amount" TEXT,
+    "deadline" DATETIME,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "preimage" TEXT,
+    "claimer" TEXT,
+    "createdAt" DATETIME,
+    "completedAt" DATETIME,
+    "createdTxDigest" TEXT,
+    "completedTxDigest" TEXT
+);
+
+-- CreateTable
+CREATE TABLE "Cursor" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "eventSeq" TEXT NOT NULL,
+    "txDigest" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Swap_escrowId_key" ON "Swap"("escrowId");
+
+-- CreateIndex
+CREATE INDEX "Swap_creator_idx" ON "Swap"("creator");
+
+-- CreateIndex
+CREATE INDEX "Swap_ethReceiver_idx" ON "Swap"("ethReceiver");
+
+-- CreateIndex
+CREATE INDEX "Swap_status_idx" ON "Swap"("status");
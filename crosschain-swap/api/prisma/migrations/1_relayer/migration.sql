@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "Relay" (
+    "hashlock" TEXT NOT NULL PRIMARY KEY,
+    "escrowId" TEXT,
+    "escrowKind" TEXT,
+    "suiDeadline" DATETIME,
+    "suiStatus" TEXT,
+    "evmContract" TEXT,
+    "evmDeadline" DATETIME,
+    "evmStatus" TEXT,
+    "secret" TEXT,
+    "revealedOn" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "RelayJob" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "kind" TEXT NOT NULL,
+    "hashlock" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "txDigest" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "EvmCursor" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "blockNumber" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "Relay_escrowId_idx" ON "Relay"("escrowId");
+
+-- CreateIndex
+CREATE INDEX "Relay_evmContract_idx" ON "Relay"("evmContract");
+
+-- CreateIndex
+CREATE INDEX "RelayJob_status_nextAttemptAt_idx" ON "RelayJob"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RelayJob_kind_hashlock_key" ON "RelayJob"("kind", "hashlock");
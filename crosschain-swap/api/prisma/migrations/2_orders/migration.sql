@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "Order" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "maker" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "ethAmount" TEXT NOT NULL,
+    "ethReceiver" TEXT NOT NULL,
+    "hashlock" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "signature" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "taker" TEXT,
+    "takerSignature" TEXT,
+    "acceptedAt" DATETIME,
+    "escrowId" TEXT,
+    "secret" TEXT,
+    "txDigest" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_maker_hashlock_key" ON "Order"("maker", "hashlock");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_escrowId_key" ON "Order"("escrowId");
+
+-- CreateIndex
+CREATE INDEX "Order_maker_idx" ON "Order"("maker");
+
+-- CreateIndex
+CREATE INDEX "Order_taker_idx" ON "Order"("taker");
+
+-- CreateIndex
+CREATE INDEX "Order_status_idx" ON "Order"("status");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Swap" ADD COLUMN "recipient" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Swap_recipient_idx" ON "Swap"("recipient");
@@ -0,0 +1,23 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { reindex } from './indexer/event-indexer';
+
+/// Wipes & rebuilds the indexed swaps from genesis.
+/// Usage: `npm run reindex -- --yes`
+const run = async () => {
+	if (!process.argv.includes('--yes')) {
+		console.log('This deletes every indexed swap & cursor, then re-indexes them from genesis.');
+		console.log('Make sure the indexer is stopped, then re-run with `--yes` to continue.');
+		process.exit(1);
+	}
+
+	console.log('Re-indexing swaps from genesis...');
+	await reindex();
+	console.log('Done. The swaps have caught up with the chain, you can restart the indexer.');
+};
+
+run().catch((e) => {
+	console.error(e);
+	process.exit(1);
+});
@@ -0,0 +1,9 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { setupRelayer } from './relayer/relayer';
+
+setupRelayer().catch((e) => {
+	console.error(e);
+	process.exit(1);
+});
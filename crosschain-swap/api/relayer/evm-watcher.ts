@@ -0,0 +1,139 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { toHex } from '@mysten/sui/utils';
+import { Prisma } from '@prisma/client';
+
+// The secret module shared with the escrow API & the frontends, so hashlocks are computed identically
+import { hashSecretHex } from '../../../api/sdk/commitment';
+import { CONFIG } from '../config';
+import { prisma } from '../db';
+import { EvmHtlcClient } from '../evm/evm-client';
+import { HtlcEvent } from '../evm/htlc-abi';
+import { htlcLockError } from '../evm/htlc-contract';
+import { revealSecret, scheduleJobs } from './relays';
+
+const EVM_CURSOR_ID = 'evm';
+
+/**
+ * Applies an HTLC event to the relay of its hashlock.
+ * Any contract can emit these events, so only verified `Locked` events are applied (see `verifyLocks`),
+ * the first HTLC of a hashlock wins, events of other contracts are ignored, and secrets are only
+ * recorded if they match the hashlock.
+ */
+const applyHtlcEvent = async (db: Prisma.TransactionClient, event: HtlcEvent) => {
+	const relay = await db.relay.findUnique({ where: { hashlock: event.hashlock } });
+
+	if (event.type === 'Locked') {
+		if (relay?.evmContract && relay.evmContract !== event.contract) {
+			console.warn(`[relayer] HTLC ${event.contract} reuses the hashlock of ${relay.evmContract}, ignoring it`);
+			return;
+		}
+
+		const lock = { evmContract: event.contract, evmDeadline: new Date(Number(event.deadline) * 1000) };
+		await db.relay.upsert({
+			where: { hashlock: event.hashlock },
+			create: { hashlock: event.hashlock, ...lock, evmStatus: 'active' },
+			update: { ...lock, evmStatus: relay?.evmStatus ?? 'active' },
+		});
+		return;
+	}
+
+	if (relay?.evmContract !== event.contract) return;
+
+	if (event.type === 'Withdrawn') {
+		if (hashSecretHex(event.secret) !== event.hashlock) return;
+
+		await db.relay.update({
+			where: { hashlock: event.hashlock },
+			data: { evmStatus: 'withdrawn', ...revealSecret(relay, toHex(event.secret), 'evm') },
+		});
+		return;
+	}
+
+	await db.relay.update({ where: { hashlock: event.hashlock }, data: { evmStatus: 'refunded' } });
+};
+
+/// Drops the `Locked` events of contracts that aren't genuine HTLCs, so they can't take over a relay.
+const verifyLocks = async (client: EvmHtlcClient, events: HtlcEvent[]) => {
+	const forged = new Set<string>();
+
+	for (const event of events) {
+		if (event.type !== 'Locked') continue;
+
+		const error = await htlcLockError(client, event);
+		if (!error) continue;
+
+		console.warn(`[relayer] Ignoring the Locked event of ${event.contract}: ${error}`);
+		forged.add(event.contract);
+	}
+
+	return events.filter((event) => event.type !== 'Locked' || !forged.has(event.contract));
+};
+
+/// The next block to read events from.
+const getEvmCursor = async () => {
+	const cursor = await prisma.evmCursor.findUnique({ where: { id: EVM_CURSOR_ID } });
+	return cursor ? BigInt(cursor.blockNumber) : CONFIG.EVM_START_BLOCK;
+};
+
+/**
+ * Reads the HTLC events of the next range of blocks, and queues the jobs they unlock.
+ * The relays, the jobs & the cursor are committed together.
+ * Returns whether there are more blocks to read.
+ */
+const pollEvmEvents = async (client: EvmHtlcClient) => {
+	let fromBlock = await getEvmCursor();
+	const latest = await client.getBlockNumber();
+
+	// Dev nodes start from genesis again when they're restarted.
+	if (fromBlock > latest + 1n) {
+		console.warn(`[relayer] The EVM chain is at block ${latest}, behind block ${fromBlock}. Was the node restarted?`);
+		fromBlock = CONFIG.EVM_START_BLOCK;
+	}
+	if (fromBlock > latest) return false;
+
+	const toBlock =
+		fromBlock + CONFIG.EVM_MAX_BLOCK_RANGE - 1n < latest ? fromBlock + CONFIG.EVM_MAX_BLOCK_RANGE - 1n : latest;
+	// Verified before the transaction, as it takes RPC calls
+	const events = await verifyLocks(client, await client.getHtlcEvents(fromBlock, toBlock));
+
+	await prisma.$transaction(
+		async (db) => {
+			for (const event of events) {
+				await applyHtlcEvent(db, event);
+				await scheduleJobs(db, event.hashlock);
+			}
+
+			const blockNumber = String(toBlock + 1n);
+			await db.evmCursor.upsert({
+				where: { id: EVM_CURSOR_ID },
+				update: { blockNumber },
+				create: { id: EVM_CURSOR_ID, blockNumber },
+			});
+		},
+		{ timeout: 30_000 },
+	);
+
+	return toBlock < latest;
+};
+
+/// Follows the HTLC events of the EVM chain, with the same polling & backoff as the Sui trackers.
+export const runEvmWatcher = async (client: EvmHtlcClient, failures = 0) => {
+	let hasNextPage = false;
+	let consecutiveFailures = 0;
+
+	try {
+		hasNextPage = await pollEvmEvents(client);
+	} catch (e) {
+		console.error('[relayer] Error while reading EVM events:', e);
+		consecutiveFailures = failures + 1;
+	}
+
+	let delay = hasNextPage ? 0 : CONFIG.POLLING_INTERVAL_MS;
+	if (consecutiveFailures) {
+		delay = Math.min(CONFIG.POLLING_INTERVAL_MS * 2 ** consecutiveFailures, CONFIG.MAX_BACKOFF_MS);
+	}
+
+	setTimeout(() => runEvmWatcher(client, consecutiveFailures), delay);
+};
@@ -0,0 +1,139 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { Transaction } from '@mysten/sui/transactions';
+import { fromHex, SUI_CLOCK_OBJECT_ID } from '@mysten/sui/utils';
+import { Relay, RelayJob } from '@prisma/client';
+
+import { CONFIG } from '../config';
+import { prisma } from '../db';
+import { EvmHtlcClient } from '../evm/evm-client';
+import { getClient, signAndExecute } from '../utils/sui-utils';
+import { RelayJobKind } from './relays';
+
+/// How many due jobs are picked up per run.
+const JOBS_PER_RUN = 10;
+
+/// Thrown when a leg can't be completed anymore (its lock expired or was refunded), so retrying is pointless.
+class UnrecoverableJobError extends Error {}
+
+/// Withdraws the EVM leg with the secret revealed on Sui. Withdrawals pay the HTLC's receiver, whoever sends them.
+const withdrawOnEvm = async (client: EvmHtlcClient, relay: Relay, secret: Uint8Array) => {
+	const state = await client.getHtlcState(relay.evmContract!);
+
+	if (state.withdrawn) return null;
+	if (state.hashlock !== relay.hashlock) throw new UnrecoverableJobError('The HTLC hashlock does not match');
+	if (state.refunded) throw new UnrecoverableJobError('The HTLC was refunded');
+	if (Number(state.deadline) * 1000 <= Date.now()) throw new UnrecoverableJobError('The HTLC expired');
+
+	return client.withdraw(relay.evmContract!, secret);
+};
+
+/// Claims the Sui leg with the secret revealed on the EVM chain. Claims pay the escrow's recipient
+/// (the counterparty), whoever sends them.
+const claimOnSui = async (relay: Relay, secret: Uint8Array) => {
+	const escrow = await getClient(CONFIG.NETWORK).getObject({ id: relay.escrowId!, options: { showType: true } });
+
+	// Claimed or refunded in the meantime
+	if (escrow.error?.code === 'deleted') return null;
+	if (relay.suiDeadline && relay.suiDeadline.getTime() <= Date.now()) {
+		throw new UnrecoverableJobError('The escrow expired');
+	}
+
+	const txb = new Transaction();
+	if (relay.escrowKind === 'object') {
+		// `ObjectEscrow<T>` is generic over the escrowed object's type
+		const itemType = escrow.data?.type?.match(/::escrow::ObjectEscrow<(.+)>$/)?.[1];
+		if (!itemType) throw new Error(`Unexpected escrow type: ${escrow.data?.type}`);
+
+		txb.moveCall({
+			target: `${CONFIG.HTLC_CONTRACT.packageId}::escrow::claim_object_escrow`,
+			typeArguments: [itemType],
+			arguments: [
+				txb.object(relay.escrowId!),
+				txb.pure.vector('u8', Array.from(secret)),
+				txb.object(SUI_CLOCK_OBJECT_ID),
+			],
+		});
+	} else {
+		txb.moveCall({
+			target: `${CONFIG.HTLC_CONTRACT.packageId}::escrow::claim_escrow`,
+			arguments: [
+				txb.object(CONFIG.HTLC_CONTRACT.factoryId!),
+				txb.object(relay.escrowId!),
+				txb.pure.vector('u8', Array.from(secret)),
+				txb.object(SUI_CLOCK_OBJECT_ID),
+			],
+		});
+	}
+
+	const res = await signAndExecute(txb, CONFIG.NETWORK);
+	if (res.effects?.status.status !== 'success') {
+		throw new Error(`Claiming the escrow failed: ${res.effects?.status.error ?? 'unknown error'}`);
+	}
+	return res.digest;
+};
+
+/// Runs a job. Resolves with the digest of the transaction that completed the leg
+/// (`null` if it was already completed).
+const executeJob = async (client: EvmHtlcClient, job: RelayJob) => {
+	const relay = await prisma.relay.findUniqueOrThrow({ where: { hashlock: job.hashlock } });
+	const secret = fromHex(relay.secret!);
+
+	switch (job.kind as RelayJobKind) {
+		case 'evm_withdraw':
+			return withdrawOnEvm(client, relay, secret);
+		case 'sui_claim':
+			return claimOnSui(relay, secret);
+		default:
+			throw new UnrecoverableJobError(`Unknown job kind \`${job.kind}\``);
+	}
+};
+
+const processJob = async (client: EvmHtlcClient, job: RelayJob) => {
+	try {
+		const txDigest = await executeJob(client, job);
+		console.log(`[relayer] ${job.kind} ${job.hashlock} done${txDigest ? ` (${txDigest})` : ', already completed'}`);
+
+		await prisma.relayJob.update({
+			where: { id: job.id },
+			data: { status: 'done', attempts: { increment: 1 }, txDigest, lastError: null },
+		});
+	} catch (e) {
+		const attempts = job.attempts + 1;
+		const failed = e instanceof UnrecoverableJobError || attempts >= CONFIG.RELAYER_MAX_ATTEMPTS;
+		console.error(`[relayer] ${job.kind} ${job.hashlock} attempt ${attempts} failed:`, e);
+
+		await prisma.relayJob.update({
+			where: { id: job.id },
+			data: {
+				status: failed ? 'failed' : 'pending',
+				attempts,
+				lastError: e instanceof Error ? e.message : String(e),
+				// Exponential backoff, capped to `CONFIG.MAX_BACKOFF_MS`
+				nextAttemptAt: new Date(
+					Date.now() + Math.min(CONFIG.POLLING_INTERVAL_MS * 2 ** attempts, CONFIG.MAX_BACKOFF_MS),
+				),
+			},
+		});
+	}
+};
+
+/// Runs the due jobs of the queue, one at a time, then polls the queue again.
+export const runJobs = async (client: EvmHtlcClient) => {
+	try {
+		const jobs = await prisma.relayJob.findMany({
+			where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+			orderBy: { id: 'asc' },
+			take: JOBS_PER_RUN,
+		});
+
+		for (const job of jobs) {
+			await processJob(client, job);
+		}
+	} catch (e) {
+		console.error('[relayer] Error while running jobs:', e);
+	}
+
+	setTimeout(() => runJobs(client), CONFIG.POLLING_INTERVAL_MS);
+};
@@ -0,0 +1,37 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { CONFIG } from '../config';
+import { EventTracker, startTracker } from '../indexer/event-indexer';
+import { JsonRpcEvmClient } from '../evm/evm-client';
+import { runEvmWatcher } from './evm-watcher';
+import { runJobs } from './jobs';
+import { handleRelayerSuiEvents } from './sui-handler';
+
+/// Follows the same events as the indexer, under its own cursor.
+const RELAYER_TRACKER: EventTracker = {
+	type: `${CONFIG.HTLC_CONTRACT.packageId}::escrow`,
+	cursorId: `${CONFIG.HTLC_CONTRACT.packageId}::escrow::relayer`,
+	filter: {
+		MoveEventModule: {
+			module: 'escrow',
+			package: CONFIG.HTLC_CONTRACT.packageId,
+		},
+	},
+	callback: handleRelayerSuiEvents,
+};
+
+/**
+ * Starts the relayer: it follows both legs of the swaps (the Sui escrows & the EVM HTLCs sharing
+ * their hashlock), and once a secret is revealed on one chain, completes the other leg with it.
+ */
+export const setupRelayer = async () => {
+	if (!CONFIG.HTLC_CONTRACT.factoryId) throw new Error('Missing `factoryId` in crosschain-htlc-contract.json');
+
+	const evmClient = new JsonRpcEvmClient(CONFIG.EVM_RPC_URL, CONFIG.EVM_FROM);
+	console.log(`[relayer] Sui: ${CONFIG.NETWORK}, EVM: ${CONFIG.EVM_RPC_URL} (from ${await evmClient.getSender()})`);
+
+	await startTracker(RELAYER_TRACKER);
+	runEvmWatcher(evmClient);
+	runJobs(evmClient);
+};
@@ -0,0 +1,38 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { Prisma } from '@prisma/client';
+
+/// The jobs of the relayer (see `RelayJob`).
+export type RelayJobKind = 'evm_withdraw' | 'sui_claim';
+
+/**
+ * Queues the jobs completing the legs of a swap that are still locked, once its secret is known.
+ * Jobs are unique per leg, so scheduling the same relay twice is a no-op.
+ */
+export const scheduleJobs = async (db: Prisma.TransactionClient, hashlock: string) => {
+	const relay = await db.relay.findUnique({ where: { hashlock } });
+	if (!relay?.secret) return;
+
+	const kinds: RelayJobKind[] = [];
+	if (relay.evmContract && relay.evmStatus === 'active') kinds.push('evm_withdraw');
+	if (relay.escrowId && relay.suiStatus === 'active') kinds.push('sui_claim');
+
+	for (const kind of kinds) {
+		await db.relayJob.upsert({
+			where: { kind_hashlock: { kind, hashlock } },
+			create: { kind, hashlock },
+			update: {},
+		});
+	}
+};
+
+/// Records the secret of a relay, keeping the chain it was revealed on first.
+export const revealSecret = (
+	relay: { secret: string | null; revealedOn: string | null } | null,
+	secret: string,
+	chain: 'sui' | 'evm',
+) => ({
+	secret: relay?.secret ?? secret,
+	revealedOn: relay?.revealedOn ?? chain,
+});
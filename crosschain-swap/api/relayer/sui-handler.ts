@@ -0,0 +1,89 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiObjectId, toHex } from '@mysten/sui/utils';
+import { Prisma } from '@prisma/client';
+
+import { FatalIndexerError } from '../../../api/indexer/errors';
+// The secret module shared with the escrow API & the frontends, so hashlocks are computed identically
+import { hashSecretHex } from '../../../api/sdk/commitment';
+import { revealSecret, scheduleJobs } from './relays';
+
+type EscrowCreated = {
+	escrow_id: string;
+	hashlock: number[];
+	deadline: string;
+	item_id: string;
+};
+
+type PreimageRevealed = {
+	escrow_id: string;
+	preimage: number[];
+};
+
+type EscrowRefunded = {
+	escrow_id: string;
+};
+
+/**
+ * Follows the Sui leg of the swaps for the relayer:
+ * `EscrowCreated` registers the escrow under its hashlock (the first escrow of a hashlock wins),
+ * and `PreimageRevealed` records the secret, so the EVM leg can be withdrawn with it.
+ * */
+export const handleRelayerSuiEvents = async (
+	events: SuiEvent[],
+	type: string,
+	db: Prisma.TransactionClient,
+) => {
+	for (const event of events) {
+		if (!event.type.startsWith(type)) throw new FatalIndexerError('Invalid event module origin');
+		const name = event.type.split('::')[2];
+
+		switch (name) {
+			case 'EscrowCreated': {
+				const data = event.parsedJson as EscrowCreated;
+				const hashlock = toHex(Uint8Array.from(data.hashlock));
+				const relay = await db.relay.findUnique({ where: { hashlock } });
+
+				if (relay?.escrowId && relay.escrowId !== data.escrow_id) {
+					console.warn(`[relayer] Escrow ${data.escrow_id} reuses the hashlock of ${relay.escrowId}, ignoring it`);
+					continue;
+				}
+
+				const escrow = {
+					escrowId: data.escrow_id,
+					escrowKind: normalizeSuiObjectId(data.item_id) === normalizeSuiObjectId('0x0') ? 'sui' : 'object',
+					suiDeadline: new Date(Number(data.deadline)),
+				};
+				await db.relay.upsert({
+					where: { hashlock },
+					create: { hashlock, ...escrow, suiStatus: 'active' },
+					update: { ...escrow, suiStatus: relay?.suiStatus ?? 'active' },
+				});
+				await scheduleJobs(db, hashlock);
+				break;
+			}
+			case 'PreimageRevealed': {
+				const data = event.parsedJson as PreimageRevealed;
+				const hashlock = hashSecretHex(data.preimage);
+				const relay = await db.relay.findUnique({ where: { hashlock } });
+				if (relay?.escrowId !== data.escrow_id) continue;
+
+				await db.relay.update({
+					where: { hashlock },
+					data: { suiStatus: 'claimed', ...revealSecret(relay, toHex(Uint8Array.from(data.preimage)), 'sui') },
+				});
+				await scheduleJobs(db, hashlock);
+				break;
+			}
+			case 'EscrowRefunded': {
+				const data = event.parsedJson as EscrowRefunded;
+				await db.relay.updateMany({ where: { escrowId: data.escrow_id }, data: { suiStatus: 'refunded' } });
+				break;
+			}
+			default:
+				throw new FatalIndexerError(`Unknown event \`${event.type}\``);
+		}
+	}
+};
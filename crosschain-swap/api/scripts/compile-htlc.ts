@@ -0,0 +1,76 @@
+#!/usr/bin/env npx ts-node
+
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+// @ts-ignore-next-line (solc-js ships without types)
+import solc from 'solc';
+
+/**
+ * Compiles `contracts/evm/HashedTimelock.sol` with solc-js, and bundles its ABI & bytecode
+ * in `evm/htlc-artifact.ts`, so deploying the EVM leg doesn't need a Solidity toolchain.
+ * The runtime code & its immutable ranges let the relayer check that a contract is a genuine HTLC.
+ *
+ * Targets the `paris` EVM (no `PUSH0`), which every local dev node supports.
+ */
+
+const SOURCE_PATH = path.join(__dirname, '../../contracts/evm/HashedTimelock.sol');
+const ARTIFACT_PATH = path.join(__dirname, '../evm/htlc-artifact.ts');
+
+function compileHtlc() {
+	const input = {
+		language: 'Solidity',
+		sources: { 'HashedTimelock.sol': { content: readFileSync(SOURCE_PATH, 'utf8') } },
+		settings: {
+			optimizer: { enabled: true, runs: 200 },
+			evmVersion: 'paris',
+			outputSelection: {
+				'*': {
+					'*': [
+						'abi',
+						'evm.bytecode.object',
+						'evm.deployedBytecode.object',
+						'evm.deployedBytecode.immutableReferences',
+					],
+				},
+			},
+		},
+	};
+
+	const output = JSON.parse(solc.compile(JSON.stringify(input)));
+	const errors = (output.errors ?? []).filter((error: { severity: string }) => error.severity === 'error');
+	if (errors.length > 0) {
+		throw new Error(errors.map((error: { formattedMessage: string }) => error.formattedMessage).join('\n'));
+	}
+
+	const contract = output.contracts['HashedTimelock.sol'].HashedTimelock;
+	// The byte ranges of the runtime code holding immutables (set by the constructor, so they differ per deployment)
+	const immutableRanges = Object.values(
+		contract.evm.deployedBytecode.immutableReferences as Record<string, { start: number; length: number }[]>,
+	)
+		.flat()
+		.sort((a, b) => a.start - b.start);
+
+	writeFileSync(
+		ARTIFACT_PATH,
+		`// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+/// Generated by \`npm run compile-htlc\` from \`contracts/evm/HashedTimelock.sol\`, do not edit.
+export const HTLC_ARTIFACT = {
+	contractName: 'HashedTimelock',
+	compiler: 'solc ${solc.version()}',
+	abi: ${JSON.stringify(contract.abi)},
+	bytecode: '0x${contract.evm.bytecode.object}',
+	deployedBytecode: '0x${contract.evm.deployedBytecode.object}',
+	immutableRanges: ${JSON.stringify(immutableRanges)},
+} as const;
+`,
+	);
+
+	console.log(`✅ Compiled HashedTimelock with solc ${solc.version()} to ${path.relative(process.cwd(), ARTIFACT_PATH)}`);
+}
+
+compileHtlc();
@@ -5,17 +5,28 @@
 
 import { Transaction } from '@mysten/sui/transactions';
 import { getClient, getSigner, signAndExecute, ACTIVE_NETWORK, getActiveAddress } from '../utils/sui-utils';
-import { keccak256 } from 'js-sha3';
+// The secret module shared with the escrow API & the frontends, so commitments are computed identically
+import { hashSecret, hashSecretHex } from '../../../api/sdk/commitment';
 import { readFileSync } from 'fs';
 import { fromBase64 } from '@mysten/sui/utils';
+import { JsonRpcEvmClient } from '../evm/evm-client';
+import { createMirrorLock, MIRROR_LOCK_OPTIONS } from '../evm/htlc-contract';
+import { planSwapDeadlines } from '../../../api/sdk/swap-planning';
 
 /**
  * Create demo atomic swaps for testing
  * 
  * This script creates test escrows on Sui to demonstrate the cross-chain
  * atomic swap functionality.
+ *
+ * With `--evm`, it also creates the EVM leg of each swap on the node at `EVM_RPC_URL`
+ * (a local anvil / hardhat node by default): an HTLC locking `DEMO_ETH_AMOUNT` for the
+ * escrow's ETH receiver, with the same hashlock and the latest safe deadline (see `planSwapDeadlines`).
+ * Both legs are locked by the CLI's address, which is the escrow's recipient as well.
  */
 
+const DEMO_ETH_AMOUNT = 10n ** 15n; // 0.001 ETH in wei
+
 interface ContractConfig {
 	packageId: string;
 	factoryId?: string;
@@ -40,6 +51,9 @@ async function createDemoSwaps() {
 
 	const config = loadContractConfig();
 	const client = getClient(ACTIVE_NETWORK);
+	const evmClient = process.argv.includes('--evm')
+		? new JsonRpcEvmClient(process.env.EVM_RPC_URL || 'http://127.0.0.1:8545', process.env.EVM_FROM)
+		: undefined;
 	
 	// Generate demo secrets and their hashes
 	const demoSwaps = [
@@ -89,10 +103,10 @@ async function createDemoSwaps() {
 		console.log(`\n📝 Creating escrow ${i + 1}/3: ${swap.description}`);
 
 		try {
-			// Calculate hash commitment
-			const secretBytes = new TextEncoder().encode(swap.secret);
-			const hashHex = keccak256(secretBytes);
-			const hashArray = Array.from(Buffer.from(hashHex, 'hex'));
+			// Calculate hash commitment (the demo secrets are text)
+			const secret = { value: swap.secret, encoding: 'utf8' as const };
+			const hashHex = hashSecretHex(secret);
+			const hashArray = Array.from(hashSecret(secret));
 
 			console.log(`🔐 Secret: ${swap.secret}`);
 			console.log(`🔒 Hash: ${hashHex}`);
@@ -102,6 +116,8 @@ async function createDemoSwaps() {
 
 			// Calculate deadline (current time + timeout hours)
 			const deadline = Date.now() + (swap.timeoutHours * 60 * 60 * 1000);
+			// Don't lock anything on Sui if the EVM leg can't safely mirror it
+			if (evmClient) planSwapDeadlines(deadline, MIRROR_LOCK_OPTIONS);
 
 			// Create transaction
 			const txb = new Transaction();
@@ -132,6 +148,7 @@ async function createDemoSwaps() {
 					txb.pure.u64(swap.amount),
 					txb.pure.vector('u8', hashArray),
 					txb.pure.vector('u8', ethAddressBytes),
+					txb.pure.address(getActiveAddress()), // The recipient, as the demo plays both parties
 					txb.pure.u64(deadline),
 					txb.object('0x6'), // Clock object
 				],
@@ -152,6 +169,24 @@ async function createDemoSwaps() {
 				console.log(`📦 Escrow Object ID: ${createdEscrow.objectId}`);
 			}
 
+			if (evmClient) {
+				// The CLI's address locks both legs of the demo swaps
+				const address = getActiveAddress();
+				const { contract, state } = await createMirrorLock(evmClient, {
+					hashlock: hashHex,
+					ethReceiver: swap.ethAddress,
+					creator: address,
+					recipient: address,
+					taker: address,
+					suiDeadline: deadline,
+					amount: DEMO_ETH_AMOUNT,
+				});
+
+				console.log(`⛓️  EVM HTLC: ${contract}`);
+				console.log(`   💰 Locked: ${Number(state.amount) / 1e18} ETH for ${state.receiver}`);
+				console.log(`   📅 Deadline: ${new Date(Number(state.deadline) * 1000).toISOString()}`);
+			}
+
 			// Wait a bit between transactions
 			await new Promise(resolve => setTimeout(resolve, 2000));
 
@@ -169,6 +204,11 @@ async function createDemoSwaps() {
 	console.log('4. Go to "My Swaps" to see created escrows');
 	console.log('5. Try claiming with the demo secrets above');
 
+	if (evmClient) {
+		console.log('\n⛓️  EVM Testing:');
+		console.log('Run `npm run relayer`, then claim an escrow on Sui: the relayer withdraws its EVM HTLC.');
+	}
+
 	console.log('\n🔍 Manual Testing:');
 	console.log('You can test claiming escrows with these secrets:');
 	demoSwaps.forEach((swap, i) => {
@@ -0,0 +1,169 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import cors from 'cors';
+import express from 'express';
+
+// The signed intents shared with the frontend, so both build the same messages
+import { orderAcceptanceMessage, swapIntentMessage } from '../../api/sdk/swap-orders';
+import { CONFIG } from './config';
+import { prisma } from './db';
+import { linkOrder } from './indexer/order-handler';
+import { conflict, notFound, sendError } from './utils/api-errors';
+import {
+	formatOrder,
+	formatOrdersPage,
+	openOrdersFilter,
+	parseAcceptOrderBody,
+	parseOrderId,
+	parseOrdersQuery,
+	parsePostOrderBody,
+	parseQuoteAmount,
+	quoteOrders,
+} from './utils/order-queries';
+import { verifySignedMessage } from './utils/signatures';
+import { formatSwap, formatSwapsPage, parseEscrowId, parseSwapsQuery } from './utils/swap-queries';
+
+/**
+ * Serves the swaps indexed by `indexer.ts` to the frontend (`API_ENDPOINT`),
+ * and the order book makers post their swap intents to.
+ */
+const app = express();
+app.use(cors());
+
+app.use(express.json());
+
+// @ts-ignore
+app.get('/', async (req, res) => {
+	return res.send({ message: '🚀 Cross-chain swap API is functional 🚀' });
+});
+
+/// Lists swaps, filtered by `creator` (Sui address), `ethReceiver` (Ethereum address) and/or `status`.
+/// See `parseSwapsQuery` for the accepted query.
+// @ts-ignore
+app.get('/swaps', async (req, res) => {
+	try {
+		const swaps = await prisma.swap.findMany(parseSwapsQuery(req.query));
+
+		return res.send(formatSwapsPage(swaps));
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+/// Returns a single swap, by the ID of its escrow.
+// @ts-ignore
+app.get('/swaps/:escrowId', async (req, res) => {
+	try {
+		const swap = await prisma.swap.findUnique({
+			where: { escrowId: parseEscrowId(req.params.escrowId) },
+		});
+
+		if (!swap) throw notFound('Swap not found');
+
+		return res.send(formatSwap(swap));
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+/// Lists orders, filtered by `maker`, `taker`, `status` and/or `accepted`.
+/// See `parseOrdersQuery` for the accepted query.
+// @ts-ignore
+app.get('/orders', async (req, res) => {
+	try {
+		const orders = await prisma.order.findMany(parseOrdersQuery(req.query));
+
+		return res.send(formatOrdersPage(orders));
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+/// Quotes buying `amount` SUI (MIST) from the open orders of the book. See `quoteOrders`.
+// @ts-ignore
+app.get('/orders/quote', async (req, res) => {
+	try {
+		const amount = parseQuoteAmount(req.query);
+		const orders = await prisma.order.findMany({ where: openOrdersFilter() });
+
+		return res.send(quoteOrders(orders, amount));
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+/// Returns a single order, by its ID.
+// @ts-ignore
+app.get('/orders/:orderId', async (req, res) => {
+	try {
+		const order = await prisma.order.findUnique({ where: { id: parseOrderId(req.params.orderId) } });
+
+		if (!order) throw notFound('Order not found');
+
+		return res.send(formatOrder(order));
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+/// Posts a maker's signed swap intent to the book: `{ intent: SwapIntent, signature }`.
+/// If the maker already locked the escrow of the intent, the order is locked right away.
+// @ts-ignore
+app.post('/orders', async (req, res) => {
+	try {
+		const { intent, signature } = parsePostOrderBody(req.body ?? {});
+		await verifySignedMessage(swapIntentMessage(intent), signature, intent.maker);
+
+		const order = await prisma.$transaction(async (db) => {
+			const key = { maker: intent.maker, hashlock: intent.hashlock };
+			if (await db.order.findUnique({ where: { maker_hashlock: key } })) {
+				throw conflict('You already posted an order with this hashlock');
+			}
+
+			const order = await db.order.create({
+				data: { ...intent, expiresAt: new Date(intent.expiresAt), signature },
+			});
+
+			const swaps = await db.swap.findMany({
+				where: { hashlock: intent.hashlock, creator: intent.maker },
+				orderBy: { id: 'asc' },
+			});
+			for (const swap of swaps) await linkOrder(db, order, swap);
+
+			return db.order.findUniqueOrThrow({ where: { id: order.id } });
+		});
+
+		return res.status(201).send(formatOrder(order));
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+/// Accepts an open order: `{ taker, signature }`. An order can only be accepted once.
+// @ts-ignore
+app.post('/orders/:orderId/accept', async (req, res) => {
+	try {
+		const orderId = parseOrderId(req.params.orderId);
+		const { taker, signature } = parseAcceptOrderBody(req.body ?? {});
+
+		const order = await prisma.order.findUnique({ where: { id: orderId } });
+		if (!order) throw notFound('Order not found');
+		if (order.maker === taker) throw conflict('Makers cannot accept their own orders');
+
+		await verifySignedMessage(orderAcceptanceMessage({ orderId, hashlock: order.hashlock, taker }), signature, taker);
+
+		// Only accepts the order if it's still open, so concurrent takers can't both accept it
+		const { count } = await prisma.order.updateMany({
+			where: { id: orderId, ...openOrdersFilter() },
+			data: { taker, takerSignature: signature, acceptedAt: new Date() },
+		});
+		if (count === 0) throw conflict('The order is not open anymore');
+
+		return res.send(formatOrder(await prisma.order.findUniqueOrThrow({ where: { id: orderId } })));
+	} catch (e) {
+		return sendError(res, e);
+	}
+});
+
+app.listen(CONFIG.PORT, '0.0.0.0', () => console.log(`🚀 Server ready at: http://localhost:${CONFIG.PORT}`));
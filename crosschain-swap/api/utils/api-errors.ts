@@ -0,0 +1,27 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { Response } from 'express';
+
+/// An error the API responds with, as `{ code, message }` (like the escrow API).
+export class ApiError extends Error {
+	constructor(
+		message: string,
+		public status = 400,
+		public code: 'invalid_query' | 'invalid_order' | 'invalid_signature' | 'not_found' | 'conflict' = 'invalid_query',
+	) {
+		super(message);
+	}
+}
+
+export const notFound = (message: string) => new ApiError(message, 404, 'not_found');
+
+export const conflict = (message: string) => new ApiError(message, 409, 'conflict');
+
+/// Responds with `e` if it's an `ApiError`. Anything else is unexpected, and is logged instead of leaked.
+export const sendError = (res: Response, e: unknown) => {
+	if (e instanceof ApiError) return res.status(e.status).send({ code: e.code, message: e.message });
+
+	console.error(e);
+	return res.status(500).send({ code: 'internal_error', message: 'Internal server error' });
+};
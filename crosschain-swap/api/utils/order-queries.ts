@@ -0,0 +1,205 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+import { Order, Prisma } from '@prisma/client';
+
+// The signed intents shared with the frontend, so both build the same messages
+import { orderRate, SwapIntent, swapIntentError } from '../../../api/sdk/swap-orders';
+import { CONFIG } from '../config';
+import { ApiError } from './api-errors';
+
+/// The statuses the API serves. `expired` orders are `pending` ones past their expiry.
+export const ORDER_STATUSES = ['pending', 'locked', 'claimed', 'refunded', 'expired'] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+const statusFilter = (status: OrderStatus, now: Date): Prisma.OrderWhereInput => {
+	if (status === 'pending') return { status: 'pending', expiresAt: { gt: now } };
+	if (status === 'expired') return { status: 'pending', expiresAt: { lte: now } };
+	return { status };
+};
+
+/// The orders takers can accept: on the book, and not accepted yet.
+export const openOrdersFilter = (now = new Date()): Prisma.OrderWhereInput => ({
+	...statusFilter('pending', now),
+	taker: null,
+});
+
+const queryValue = (query: Record<string, unknown>, key: string) => {
+	const value = query[key];
+	if (value === undefined) return undefined;
+	if (typeof value !== 'string' || value === '') throw new ApiError(`Invalid ${key} value`);
+	return value;
+};
+
+const parseSuiAddress = (address: string, name: string) => {
+	if (!isValidSuiAddress(normalizeSuiAddress(address))) throw new ApiError(`Invalid ${name} address`);
+	return normalizeSuiAddress(address);
+};
+
+/**
+ * Parses the query of `GET /orders` to a Prisma query:
+ * - `maker` & `taker`: the Sui addresses that posted / accepted the orders
+ * - `status`: comma-separated `ORDER_STATUSES`
+ * - `accepted`: `true` or `false`, whether a taker accepted the orders (`status=pending&accepted=false` is the book)
+ * - `limit`, `cursor` (the `id` of the last order of the previous page) & `sort` (`asc` or `desc`, by `id`)
+ */
+export const parseOrdersQuery = (query: Record<string, unknown>) => {
+	const where: Prisma.OrderWhereInput[] = [];
+	const now = new Date();
+
+	const maker = queryValue(query, 'maker');
+	if (maker !== undefined) where.push({ maker: parseSuiAddress(maker, 'maker') });
+
+	const taker = queryValue(query, 'taker');
+	if (taker !== undefined) where.push({ taker: parseSuiAddress(taker, 'taker') });
+
+	const status = queryValue(query, 'status');
+	if (status !== undefined) {
+		const statuses = status.split(',');
+		const invalid = statuses.find((value) => !ORDER_STATUSES.includes(value as OrderStatus));
+		if (invalid) throw new ApiError(`Invalid status \`${invalid}\` (expected ${ORDER_STATUSES.join(', ')})`);
+		where.push({ OR: statuses.map((value) => statusFilter(value as OrderStatus, now)) });
+	}
+
+	const accepted = queryValue(query, 'accepted');
+	if (accepted !== undefined) {
+		if (accepted !== 'true' && accepted !== 'false') throw new ApiError('Invalid accepted value');
+		where.push({ taker: accepted === 'true' ? { not: null } : null });
+	}
+
+	const sort = queryValue(query, 'sort') ?? 'desc';
+	if (sort !== 'asc' && sort !== 'desc') throw new ApiError('Invalid sort value');
+
+	const limit = Number(queryValue(query, 'limit') ?? CONFIG.DEFAULT_LIMIT);
+	if (!Number.isInteger(limit) || limit < 1) throw new ApiError('Invalid limit value');
+
+	const pagination: Prisma.OrderFindManyArgs = {
+		orderBy: { id: sort },
+		take: Math.min(limit, CONFIG.DEFAULT_LIMIT),
+	};
+
+	const cursor = queryValue(query, 'cursor');
+	if (cursor !== undefined) {
+		if (!Number.isInteger(Number(cursor))) throw new ApiError('Invalid cursor');
+		pagination.cursor = { id: Number(cursor) };
+		pagination.skip = 1;
+	}
+
+	return { where: { AND: where }, ...pagination };
+};
+
+/// Parses the `:orderId` of `/orders/:orderId` routes.
+export const parseOrderId = (orderId: string) => {
+	if (!/^[1-9][0-9]*$/.test(orderId) || !Number.isSafeInteger(Number(orderId))) {
+		throw new ApiError('Invalid order ID');
+	}
+	return Number(orderId);
+};
+
+const parseSignature = (signature: unknown) => {
+	if (typeof signature !== 'string' || signature === '') {
+		throw new ApiError('Missing signature', 400, 'invalid_order');
+	}
+	return signature;
+};
+
+/// Parses the body of `POST /orders`: `{ intent, signature }`, the intent normalized as it's stored.
+export const parsePostOrderBody = (body: Record<string, unknown>) => {
+	const intent = (body.intent ?? {}) as SwapIntent;
+	const error = swapIntentError(intent);
+	if (error) throw new ApiError(error, 400, 'invalid_order');
+
+	return {
+		intent: {
+			...intent,
+			maker: normalizeSuiAddress(intent.maker),
+			ethReceiver: intent.ethReceiver.toLowerCase(),
+			hashlock: intent.hashlock.replace(/^0x/, '').toLowerCase(),
+		},
+		signature: parseSignature(body.signature),
+	};
+};
+
+/// Parses the body of `POST /orders/:orderId/accept`: `{ taker, signature }`.
+export const parseAcceptOrderBody = (body: Record<string, unknown>) => {
+	if (typeof body.taker !== 'string') throw new ApiError('Missing taker address', 400, 'invalid_order');
+
+	return { taker: parseSuiAddress(body.taker, 'taker'), signature: parseSignature(body.signature) };
+};
+
+/// An order as served by the API (a `CrossChainSwapOrder` of the frontend), with `expired` resolved from its expiry.
+export const formatOrder = (order: Order, now = new Date()) => ({
+	id: String(order.id),
+	fromChain: 'SUI' as const,
+	toChain: 'ETHEREUM' as const,
+	fromAmount: order.amount,
+	toAmount: order.ethAmount,
+	fromAddress: order.maker,
+	toAddress: order.ethReceiver,
+	hashCommitment: order.hashlock,
+	secret: order.secret ?? undefined,
+	deadline: order.expiresAt.getTime(),
+	status: (order.status === 'pending' && order.expiresAt <= now ? 'expired' : order.status) as OrderStatus,
+	createdAt: order.createdAt.getTime(),
+	txHash: order.txDigest ?? undefined,
+	taker: order.taker ?? undefined,
+	acceptedAt: order.acceptedAt?.getTime(),
+	escrowId: order.escrowId ?? undefined,
+});
+
+/// Formats a page of orders. `cursor` is the `id` to pass to get the next page.
+export const formatOrdersPage = (orders: Order[]) => {
+	const now = new Date();
+
+	return {
+		data: orders.map((order) => formatOrder(order, now)),
+		cursor: orders[orders.length - 1]?.id,
+	};
+};
+
+/// Parses the `amount` (MIST) of `GET /orders/quote`.
+export const parseQuoteAmount = (query: Record<string, unknown>) => {
+	const amount = queryValue(query, 'amount');
+	if (amount === undefined || !/^[1-9][0-9]*$/.test(amount)) throw new ApiError('Invalid amount (in MIST)');
+	return BigInt(amount);
+};
+
+/// Sorts orders by the ETH they ask per SUI, compared exactly (with integers), then by age.
+const compareRates = (a: Order, b: Order) => {
+	const diff = BigInt(a.ethAmount) * BigInt(b.amount) - BigInt(b.ethAmount) * BigInt(a.amount);
+	return diff < 0n ? -1 : diff > 0n ? 1 : a.id - b.id;
+};
+
+/**
+ * Quotes buying `amount` SUI (MIST) from the open orders (a `SwapQuote` of the frontend).
+ * Orders are taken cheapest first, and whole, so the quote may cover more SUI than asked.
+ * `priceImpact` is how much more the quote costs per SUI than the cheapest order, and `deadline`
+ * when its first order expires.
+ */
+export const quoteOrders = (orders: Order[], amount: bigint) => {
+	const book = [...orders].sort(compareRates);
+	const taken: Order[] = [];
+	let fromAmount = 0n;
+	let toAmount = 0n;
+
+	for (const order of book) {
+		if (fromAmount >= amount) break;
+		taken.push(order);
+		fromAmount += BigInt(order.amount);
+		toAmount += BigInt(order.ethAmount);
+	}
+	if (fromAmount < amount) throw new ApiError('Not enough SUI on the book', 404, 'not_found');
+
+	const rate = orderRate({ amount: String(fromAmount), ethAmount: String(toAmount) });
+
+	return {
+		fromAmount: String(fromAmount),
+		toAmount: String(toAmount),
+		rate,
+		priceImpact: rate / orderRate(book[0]) - 1,
+		deadline: Math.min(...taken.map((order) => order.expiresAt.getTime())),
+		orderIds: taken.map((order) => String(order.id)),
+	};
+};
@@ -0,0 +1,21 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+
+import { CONFIG } from '../config';
+import { ApiError } from './api-errors';
+import { getClient } from './sui-utils';
+
+/// Checks `signature` is `address` signing `message` as a personal message (the way wallets sign text).
+/// zkLogin signatures are verified against the network.
+export const verifySignedMessage = async (message: string, signature: string, address: string) => {
+	try {
+		await verifyPersonalMessageSignature(new TextEncoder().encode(message), signature, {
+			address,
+			client: getClient(CONFIG.NETWORK),
+		});
+	} catch (e) {
+		throw new ApiError(`Invalid signature of ${address}`, 401, 'invalid_signature');
+	}
+};
@@ -0,0 +1,104 @@
+// Copyright (c) 2024
+// SPDX-License-Identifier: MIT
+
+import { isValidSuiAddress, isValidSuiObjectId, normalizeSuiAddress, normalizeSuiObjectId } from '@mysten/sui/utils';
+import { Prisma, Swap } from '@prisma/client';
+
+import { CONFIG } from '../config';
+import { ApiError } from './api-errors';
+
+/// The statuses the API serves. `expired` swaps are `active` ones past their deadline (refundable).
+export const SWAP_STATUSES = ['active', 'expired', 'claimed', 'refunded'] as const;
+
+export type SwapStatus = (typeof SWAP_STATUSES)[number];
+
+const statusFilter = (status: SwapStatus, now: Date): Prisma.SwapWhereInput => {
+	if (status === 'active') return { status: 'active', deadline: { gt: now } };
+	if (status === 'expired') return { status: 'active', deadline: { lte: now } };
+	return { status };
+};
+
+const queryValue = (query: Record<string, unknown>, key: string) => {
+	const value = query[key];
+	if (value === undefined) return undefined;
+	if (typeof value !== 'string' || value === '') throw new ApiError(`Invalid ${key} value`);
+	return value;
+};
+
+/**
+ * Parses the query of `GET /swaps` to a Prisma query:
+ * - `creator`: the Sui address that created the swaps
+ * - `recipient`: the Sui address the swaps pay once claimed
+ * - `ethReceiver`: the Ethereum address receiving the swaps (any case)
+ * - `status`: comma-separated `SWAP_STATUSES`
+ * - `limit`, `cursor` (the `id` of the last swap of the previous page) & `sort` (`asc` or `desc`, by `id`)
+ */
+export const parseSwapsQuery = (query: Record<string, unknown>) => {
+	const where: Prisma.SwapWhereInput[] = [];
+	const now = new Date();
+
+	for (const key of ['creator', 'recipient'] as const) {
+		const address = queryValue(query, key);
+		if (address === undefined) continue;
+		if (!isValidSuiAddress(normalizeSuiAddress(address))) throw new ApiError(`Invalid ${key} address`);
+		where.push({ [key]: normalizeSuiAddress(address) });
+	}
+
+	const ethReceiver = queryValue(query, 'ethReceiver');
+	if (ethReceiver !== undefined) {
+		if (!/^0x[0-9a-fA-F]{40}$/.test(ethReceiver)) throw new ApiError('Invalid ethReceiver address');
+		where.push({ ethReceiver: ethReceiver.toLowerCase() });
+	}
+
+	const status = queryValue(query, 'status');
+	if (status !== undefined) {
+		const statuses = status.split(',');
+		const invalid = statuses.find((value) => !SWAP_STATUSES.includes(value as SwapStatus));
+		if (invalid) throw new ApiError(`Invalid status \`${invalid}\` (expected ${SWAP_STATUSES.join(', ')})`);
+		where.push({ OR: statuses.map((value) => statusFilter(value as SwapStatus, now)) });
+	}
+
+	const sort = queryValue(query, 'sort') ?? 'desc';
+	if (sort !== 'asc' && sort !== 'desc') throw new ApiError('Invalid sort value');
+
+	const limit = Number(queryValue(query, 'limit') ?? CONFIG.DEFAULT_LIMIT);
+	if (!Number.isInteger(limit) || limit < 1) throw new ApiError('Invalid limit value');
+
+	const pagination: Prisma.SwapFindManyArgs = {
+		orderBy: { id: sort },
+		take: Math.min(limit, CONFIG.DEFAULT_LIMIT),
+	};
+
+	const cursor = queryValue(query, 'cursor');
+	if (cursor !== undefined) {
+		if (!Number.isInteger(Number(cursor))) throw new ApiError('Invalid cursor');
+		pagination.cursor = { id: Number(cursor) };
+		pagination.skip = 1;
+	}
+
+	return { where: { AND: where }, ...pagination };
+};
+
+/// Parses the `:escrowId` of `GET /swaps/:escrowId`.
+export const parseEscrowId = (escrowId: string) => {
+	if (!isValidSuiObjectId(normalizeSuiObjectId(escrowId))) throw new ApiError('Invalid escrow ID');
+	return normalizeSuiObjectId(escrowId);
+};
+
+/// A swap as served by the API, with `expired` resolved from its deadline.
+export const formatSwap = (swap: Swap, now = new Date()) => ({
+	...swap,
+	status: (swap.status === 'active' && swap.deadline && swap.deadline <= now
+		? 'expired'
+		: swap.status) as SwapStatus,
+});
+
+/// Formats a page of swaps. `cursor` is the `id` to pass to get the next page.
+export const formatSwapsPage = (swaps: Swap[]) => {
+	const now = new Date();
+
+	return {
+		data: swaps.map((swap) => formatSwap(swap, now)),
+		cursor: swaps[swaps.length - 1]?.id,
+	};
+};
@@ -4,6 +4,7 @@
 /// Cross-chain HTLC Escrow compatible with 1inch Solidity contracts
 /// Uses Keccak-256 for hash compatibility across chains
 /// Generic implementation that works with SUI coins and any object type (NFTs, etc.)
+/// Claims pay the escrow's recipient (the counterparty), set when the escrow is created
 module crosschain_htlc::escrow {
     use sui::coin::{Self, Coin};
     use sui::sui::SUI;
@@ -54,6 +55,7 @@ module crosschain_htlc::escrow {
     public struct EscrowCreated has copy, drop {
         escrow_id: ID,
         creator: address,
+        recipient: address,
         hashlock: vector<u8>,
         eth_receiver: vector<u8>,
         amount: u64,
@@ -91,6 +93,7 @@ module crosschain_htlc::escrow {
         id: UID,
         hashlock: vector<u8>,      // 32 bytes: keccak256 preimage
         creator: address,          // who locked the SUI
+        recipient: address,        // who gets the SUI once claimed
         eth_receiver: vector<u8>,  // 20-byte ETH address who may claim
         deadline: u64,             // Unix timestamp in milliseconds
         amount: u64,               // amount in MIST (smallest SUI units)
@@ -102,6 +105,7 @@ module crosschain_htlc::escrow {
         id: UID,
         hashlock: vector<u8>,      // 32 bytes: keccak256 preimage
         creator: address,          // who locked the asset
+        recipient: address,        // who gets the asset once claimed
         eth_receiver: vector<u8>,  // 20-byte ETH address who may claim
         deadline: u64,             // Unix timestamp in milliseconds
         amount: u64,               // amount (always 1 for objects)
@@ -128,13 +132,14 @@ module crosschain_htlc::escrow {
     // === Public entry functions for SUI coins ===
     
     /// Create a new escrow by locking SUI with a hashlock
-    /// Called by Alice to lock SUI for cross-chain swap
+    /// Called by Alice to lock SUI for Bob (`recipient`) in a cross-chain swap
     public entry fun setup_escrow(
         factory: &mut EscrowFactory,
         mut coin: Coin<SUI>,
         amount: u64,
         hashlock: vector<u8>,
         eth_receiver: vector<u8>,
+        recipient: address,
         deadline: u64,
         clock: &Clock,
         ctx: &mut TxContext
@@ -162,6 +167,7 @@ module crosschain_htlc::escrow {
             id: escrow_id,
             hashlock,
             creator: tx_context::sender(ctx),
+            recipient,
             eth_receiver,
             deadline,
             amount,
@@ -171,6 +177,7 @@ module crosschain_htlc::escrow {
         event::emit(EscrowCreated {
             escrow_id: escrow_id_copy,
             creator: tx_context::sender(ctx),
+            recipient,
             hashlock,
             eth_receiver,
             amount,
@@ -190,7 +197,7 @@ module crosschain_htlc::escrow {
     }
     
     /// Claim SUI funds by revealing the secret preimage
-    /// Called when the preimage is revealed on either chain
+    /// Called when the preimage is revealed on either chain, by anyone: the SUI always goes to the recipient
     public entry fun claim_escrow(
         factory: &mut EscrowFactory,
         escrow: SuiEscrow,
@@ -209,23 +216,24 @@ module crosschain_htlc::escrow {
         // Extract fields before destroying escrow
         let escrow_id = object::uid_to_inner(&escrow.id);
         let amount = escrow.amount;
-        let creator = escrow.creator;
+        let recipient = escrow.recipient;
         
         // Destroy escrow
         let SuiEscrow { 
             id, 
             hashlock: _, 
             creator: _, 
+            recipient: _, 
             eth_receiver: _, 
             deadline: _, 
             amount: _ 
         } = escrow;
         object::delete(id);
         
-        // Release funds from vault to the creator (who will bridge to ETH)
+        // Release funds from vault to the recipient (the counterparty, who locked the other leg)
         let payout = balance::split(&mut factory.vault, amount);
         let payout_coin = coin::from_balance(payout, ctx);
-        transfer::public_transfer(payout_coin, creator);
+        transfer::public_transfer(payout_coin, recipient);
         
         // Emit preimage revealed event (this is what the relayer watches for)
         event::emit(PreimageRevealed {
@@ -262,6 +270,7 @@ module crosschain_htlc::escrow {
             id, 
             hashlock: _, 
             creator: _, 
+            recipient: _, 
             eth_receiver: _, 
             deadline: _, 
             amount: _ 
@@ -284,12 +293,13 @@ module crosschain_htlc::escrow {
 
     // === Public functions for generic assets (NFTs, etc.) ===
     
-    /// Create a new escrow with any asset type
+    /// Create a new escrow with any asset type, for `recipient`
     /// Generic version that works with NFTs, game items, etc.
     public fun create_object_escrow<T: key + store>(
         escrowed: T,
         hashlock: vector<u8>,
         eth_receiver: vector<u8>,
+        recipient: address,
         deadline: u64,
         clock: &Clock,
         ctx: &mut TxContext
@@ -306,6 +316,7 @@ module crosschain_htlc::escrow {
             id: object::new(ctx),
             hashlock,
             creator: tx_context::sender(ctx),
+            recipient,
             eth_receiver,
             deadline,
             amount: 1, // For objects, amount is always 1
@@ -321,6 +332,7 @@ module crosschain_htlc::escrow {
         event::emit(EscrowCreated {
             escrow_id,
             creator: tx_context::sender(ctx),
+            recipient,
             hashlock,
             eth_receiver,
             amount: 1,
@@ -333,12 +345,13 @@ module crosschain_htlc::escrow {
     }
     
     /// Claim any asset type by revealing the secret preimage
+    /// Anyone can claim: the asset always goes to the recipient
     public fun claim_object_escrow<T: key + store>(
         mut escrow: ObjectEscrow<T>,
         preimage: vector<u8>,
         clock: &Clock,
         ctx: &mut TxContext
-    ): T {
+    ) {
         // Check timelock - must claim before deadline
         let current_time = clock::timestamp_ms(clock);
         assert!(current_time <= escrow.deadline, EDeadlinePassed);
@@ -352,7 +365,7 @@ module crosschain_htlc::escrow {
         
         // Extract fields before destroying escrow
         let escrow_id = object::uid_to_inner(&escrow.id);
-        let creator = escrow.creator;
+        let recipient = escrow.recipient;
         let item_id = object::id(&escrowed);
         
         // Destroy escrow
@@ -360,12 +373,16 @@ module crosschain_htlc::escrow {
             id, 
             hashlock: _, 
             creator: _, 
+            recipient: _, 
             eth_receiver: _, 
             deadline: _, 
             amount: _ 
         } = escrow;
         object::delete(id);
         
+        // Hand the asset to the recipient
+        transfer::public_transfer(escrowed, recipient);
+        
         // Emit preimage revealed event
         event::emit(PreimageRevealed {
             escrow_id,
@@ -374,8 +391,6 @@ module crosschain_htlc::escrow {
             amount: 1,
             item_id,
         });
-        
-        escrowed
     }
     
     /// Refund any asset type after deadline expires
@@ -404,6 +419,7 @@ module crosschain_htlc::escrow {
             id, 
             hashlock: _, 
             creator: _, 
+            recipient: _, 
             eth_receiver: _, 
             deadline: _, 
             amount: _ 
@@ -423,6 +439,16 @@ module crosschain_htlc::escrow {
 
     // === View functions ===
     
+    /// Get the address a SUI escrow pays once claimed
+    public fun sui_escrow_recipient(escrow: &SuiEscrow): address {
+        escrow.recipient
+    }
+    
+    /// Get the address an object escrow pays once claimed
+    public fun object_escrow_recipient<T: key + store>(escrow: &ObjectEscrow<T>): address {
+        escrow.recipient
+    }
+    
     /// Get escrow details for SUI escrows
     public fun get_sui_escrow_info(escrow: &SuiEscrow): (vector<u8>, address, vector<u8>, u64, u64) {
         (escrow.hashlock, escrow.creator, escrow.eth_receiver, escrow.deadline, escrow.amount)
@@ -4,7 +4,7 @@
 #[test_only]
 module crosschain_htlc::escrow_tests {
     use crosschain_htlc::escrow::{Self, EscrowFactory, SuiEscrow, ObjectEscrow};
-    use sui::coin;
+    use sui::coin::{Self, Coin};
     use sui::sui::SUI;
     use sui::test_scenario::{Self, Scenario};
     use sui::clock::{Self, Clock};
@@ -58,6 +58,7 @@ module crosschain_htlc::escrow_tests {
                 500000, // 0.0005 SUI
                 hashlock,
                 ETH_ADDRESS,
+                BOB,
                 2000, // deadline at timestamp 2000
                 &clock,
                 test_scenario::ctx(&mut scenario)
@@ -90,6 +91,7 @@ module crosschain_htlc::escrow_tests {
                 500000,
                 hashlock,
                 ETH_ADDRESS,
+                BOB,
                 2000,
                 &clock,
                 test_scenario::ctx(&mut scenario)
@@ -118,6 +120,74 @@ module crosschain_htlc::escrow_tests {
             test_scenario::return_shared(factory);
         };
         
+        // Bob received the SUI
+        test_scenario::next_tx(&mut scenario, BOB);
+        {
+            let payout = test_scenario::take_from_address<Coin<SUI>>(&scenario, BOB);
+            assert!(coin::value(&payout) == 500000, 1);
+            coin::burn_for_testing(payout);
+        };
+        
+        clock::destroy_for_testing(clock);
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    fun test_creator_claim_pays_recipient() {
+        let (mut scenario, clock) = setup_test();
+        
+        // Alice locks SUI for Bob
+        test_scenario::next_tx(&mut scenario, ALICE);
+        let coin = coin::mint_for_testing<SUI>(500000, test_scenario::ctx(&mut scenario));
+        let secret = b"my_secret_32_bytes_long_password";
+        let hashlock = hash::keccak256(&secret);
+        
+        test_scenario::next_tx(&mut scenario, ALICE);
+        {
+            let mut factory = test_scenario::take_shared<EscrowFactory>(&scenario);
+            
+            escrow::setup_escrow(
+                &mut factory,
+                coin,
+                500000,
+                hashlock,
+                ETH_ADDRESS,
+                BOB,
+                2000,
+                &clock,
+                test_scenario::ctx(&mut scenario)
+            );
+            
+            test_scenario::return_shared(factory);
+        };
+        
+        // Alice knows the secret first, and claims her own escrow
+        test_scenario::next_tx(&mut scenario, ALICE);
+        {
+            let mut factory = test_scenario::take_shared<EscrowFactory>(&scenario);
+            let escrow = test_scenario::take_shared<SuiEscrow>(&scenario);
+            assert!(escrow::sui_escrow_recipient(&escrow) == BOB, 0);
+            
+            escrow::claim_escrow(
+                &mut factory,
+                escrow,
+                secret,
+                &clock,
+                test_scenario::ctx(&mut scenario)
+            );
+            
+            test_scenario::return_shared(factory);
+        };
+        
+        // The SUI still goes to Bob
+        test_scenario::next_tx(&mut scenario, ALICE);
+        {
+            assert!(!test_scenario::has_most_recent_for_address<Coin<SUI>>(ALICE), 1);
+            let payout = test_scenario::take_from_address<Coin<SUI>>(&scenario, BOB);
+            assert!(coin::value(&payout) == 500000, 2);
+            coin::burn_for_testing(payout);
+        };
+        
         clock::destroy_for_testing(clock);
         test_scenario::end(scenario);
     }
@@ -142,6 +212,7 @@ module crosschain_htlc::escrow_tests {
             nft,
             hashlock,
             ETH_ADDRESS,
+            BOB,
             2000, // deadline
             &clock,
             test_scenario::ctx(&mut scenario)
@@ -170,6 +241,7 @@ module crosschain_htlc::escrow_tests {
             nft,
             hashlock,
             ETH_ADDRESS,
+            BOB,
             2000,
             &clock,
             test_scenario::ctx(&mut scenario)
@@ -186,12 +258,18 @@ module crosschain_htlc::escrow_tests {
             // Check that the object is escrowed
             assert!(escrow::has_escrowed_object(&escrow), 1);
             
-            let claimed_nft = escrow::claim_object_escrow(
+            escrow::claim_object_escrow(
                 escrow,
                 secret,
                 &clock,
                 test_scenario::ctx(&mut scenario)
             );
+        };
+        
+        // Bob received the NFT
+        test_scenario::next_tx(&mut scenario, BOB);
+        {
+            let claimed_nft = test_scenario::take_from_address<TestNFT>(&scenario, BOB);
             
             // Verify we got the correct NFT
             assert!(claimed_nft.name == b"Test NFT", 2);
@@ -225,6 +303,7 @@ module crosschain_htlc::escrow_tests {
                 500000,
                 hashlock,
                 ETH_ADDRESS,
+                BOB,
                 2000, // deadline
                 &clock,
                 test_scenario::ctx(&mut scenario)
@@ -278,6 +357,7 @@ module crosschain_htlc::escrow_tests {
             nft,
             hashlock,
             ETH_ADDRESS,
+            BOB,
             2000, // deadline
             &clock,
             test_scenario::ctx(&mut scenario)
@@ -333,6 +413,7 @@ module crosschain_htlc::escrow_tests {
                 500000,
                 hashlock,
                 ETH_ADDRESS,
+                BOB,
                 2000,
                 &clock,
                 test_scenario::ctx(&mut scenario)
@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title The EVM leg of a cross-chain swap with `crosschain_htlc::escrow`
+/// @notice Locks ETH for `receiver` until `deadline`. Revealing the secret whose keccak256 is `hashlock`
+/// (the same hash the Sui escrow uses, so one secret unlocks both legs) pays `receiver`.
+/// After `deadline`, the ETH can only be refunded to `sender`.
+/// Both calls can be sent by anyone (e.g. a relayer), as they always pay the same party.
+contract HashedTimelock {
+    address public immutable sender;
+    address public immutable receiver;
+    bytes32 public immutable hashlock;
+    uint256 public immutable amount;
+    /// In seconds (`block.timestamp`)
+    uint256 public immutable deadline;
+    bool public withdrawn;
+    bool public refunded;
+
+    event Locked(
+        bytes32 indexed hashlock,
+        address indexed sender,
+        address indexed receiver,
+        uint256 amount,
+        uint256 deadline
+    );
+    event Withdrawn(bytes32 indexed hashlock, bytes secret);
+    event Refunded(bytes32 indexed hashlock);
+
+    error InvalidLock();
+    error AlreadyCompleted();
+    error InvalidSecret();
+    error DeadlinePassed();
+    error DeadlineNotReached();
+    error TransferFailed();
+
+    constructor(address receiver_, bytes32 hashlock_, uint256 deadline_) payable {
+        if (msg.value == 0 || receiver_ == address(0) || deadline_ <= block.timestamp) revert InvalidLock();
+
+        sender = msg.sender;
+        receiver = receiver_;
+        hashlock = hashlock_;
+        amount = msg.value;
+        deadline = deadline_;
+
+        emit Locked(hashlock_, msg.sender, receiver_, msg.value, deadline_);
+    }
+
+    /// @notice Pays `receiver` by revealing the secret, until `deadline` (like `escrow::claim_escrow`).
+    function withdraw(bytes calldata secret) external {
+        if (withdrawn || refunded) revert AlreadyCompleted();
+        if (block.timestamp > deadline) revert DeadlinePassed();
+        if (keccak256(secret) != hashlock) revert InvalidSecret();
+
+        withdrawn = true;
+        emit Withdrawn(hashlock, secret);
+        _pay(receiver);
+    }
+
+    /// @notice Pays `sender` back once `deadline` has passed (like `escrow::refund_escrow`).
+    function refund() external {
+        if (withdrawn || refunded) revert AlreadyCompleted();
+        if (block.timestamp <= deadline) revert DeadlineNotReached();
+
+        refunded = true;
+        emit Refunded(hashlock);
+        _pay(sender);
+    }
+
+    function _pay(address to) private {
+        (bool ok, ) = to.call{value: amount}("");
+        if (!ok) revert TransferFailed();
+    }
+}
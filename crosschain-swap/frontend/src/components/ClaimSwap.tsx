@@ -1,113 +1,58 @@
-import { useState, useEffect } from 'react'
-import { Box, Button, Card, Flex, Text, TextField, Heading, Badge, Separator, TextArea, Callout } from '@radix-ui/themes'
-// Icons removed for simplicity
+import { useState } from 'react'
+import { Box, Button, Card, Flex, Text, TextField, Heading, Badge, Callout } from '@radix-ui/themes'
+import { CheckIcon, ExclamationTriangleIcon } from '@radix-ui/react-icons'
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { formatAddress, toHex } from '@mysten/sui/utils'
 import { useParams, Link } from 'react-router-dom'
+import { EncodedSecret, verifySecret } from '@escrow/sdk'
+import SecretInput from './SecretInput'
+import SwapSafetyCheck from './SwapSafetyCheck'
+import { CHAINS } from '../constants/network'
+import { useEscrowDetails } from '../hooks/useEscrowDetails'
+import { useClaimEscrowMutation, useRefundEscrowMutation } from '../mutations/escrow'
 
-interface EscrowDetails {
-  id: string
-  type: 'sui' | 'nft' | 'other'
-  amount?: string
-  objectName?: string
-  ethAddress: string
-  hashCommitment: string
-  deadline: Date
-  status: 'active' | 'expired' | 'claimed'
-  createdAt: Date
-  creator: string
-}
+const STATUS_COLORS = {
+  active: 'green',
+  expired: 'red',
+  claimed: 'purple',
+  refunded: 'gray',
+} as const
 
 function ClaimSwap() {
   const { escrowId } = useParams<{ escrowId?: string }>()
   const [manualEscrowId, setManualEscrowId] = useState('')
-  const [secret, setSecret] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
-  const [escrowDetails, setEscrowDetails] = useState<EscrowDetails | null>(null)
+  const [secret, setSecret] = useState<EncodedSecret>({ value: '', encoding: 'utf8' })
   const [error, setError] = useState<string | null>(null)
-  const [isValidating, setIsValidating] = useState(false)
+  const account = useCurrentAccount()
 
-  const currentEscrowId = escrowId || manualEscrowId
+  const currentEscrowId = (escrowId || manualEscrowId).trim()
 
-  useEffect(() => {
-    if (currentEscrowId) {
-      loadEscrowDetails(currentEscrowId)
-    }
-  }, [currentEscrowId])
+  const { data: escrowDetails, isLoading: isValidating, error: loadError } = useEscrowDetails(currentEscrowId)
+  const { mutateAsync: claimEscrow, isPending: isClaiming } = useClaimEscrowMutation()
+  const { mutateAsync: refundEscrow, isPending: isRefunding } = useRefundEscrowMutation()
+  const isLoading = isClaiming || isRefunding
+
+  const handleClaim = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!escrowDetails || !secret.value) return
 
-  const loadEscrowDetails = async (id: string) => {
-    setIsValidating(true)
     setError(null)
-    
     try {
-      // TODO: Implement actual API call to load escrow details
-      // For now, showing mock data
-      const mockEscrow: EscrowDetails = {
-        id,
-        type: 'sui',
-        amount: '0.005',
-        ethAddress: '0x742d35Cc6635C0532925a3b8D0A9e2B9c2b6F5f1',
-        hashCommitment: 'ec21a956321345d29ec7f43f75655e77548ee6c2bf2080c0ab4b0ba09836ba5d',
-        deadline: new Date(Date.now() + 20 * 60 * 60 * 1000), // 20 hours from now
-        status: 'active',
-        createdAt: new Date(Date.now() - 4 * 60 * 60 * 1000), // 4 hours ago
-        creator: '0x6147bfc86f98012a2a231877658add760395918c080546d70a238f74f232d419'
-      }
-      
-      setEscrowDetails(mockEscrow)
+      await claimEscrow({ escrow: escrowDetails, secret })
+      setSecret({ value: '', encoding: 'utf8' })
     } catch (err) {
-      setError('Failed to load escrow details. Please check the escrow ID.')
-      setEscrowDetails(null)
-    } finally {
-      setIsValidating(false)
-    }
-  }
-
-  const validateSecret = async (secretToValidate: string) => {
-    if (!escrowDetails || !secretToValidate) return false
-    
-    try {
-      // TODO: Implement keccak256 hash validation
-      // For demo purposes, we'll accept "demo_secret_1_32_bytes_length!!!" 
-      const isValid = secretToValidate === 'demo_secret_1_32_bytes_length!!!'
-      return isValid
-    } catch {
-      return false
+      setError(err instanceof Error ? err.message : 'Failed to claim escrow. Please try again.')
     }
   }
 
-  const handleClaim = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!escrowDetails || !secret) return
+  const handleRefund = async () => {
+    if (!escrowDetails) return
 
-    setIsLoading(true)
     setError(null)
-
     try {
-      // Validate secret first
-      const isValidSecret = await validateSecret(secret)
-      if (!isValidSecret) {
-        throw new Error('Invalid secret. The secret does not match the hash commitment.')
-      }
-
-      // TODO: Implement actual claim transaction
-      console.log('Claiming escrow:', {
-        escrowId: escrowDetails.id,
-        secret,
-        hashCommitment: escrowDetails.hashCommitment
-      })
-
-      // Simulate transaction
-      await new Promise(resolve => setTimeout(resolve, 3000))
-
-      // Show success
-      alert('Escrow claimed successfully! Assets have been transferred.')
-      
-      // Reload escrow details to show updated status
-      await loadEscrowDetails(escrowDetails.id)
-      
+      await refundEscrow({ escrow: escrowDetails })
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to claim escrow. Please try again.')
-    } finally {
-      setIsLoading(false)
+      setError(err instanceof Error ? err.message : 'Failed to refund escrow. Please try again.')
     }
   }
 
@@ -175,20 +120,42 @@ function ClaimSwap() {
           ) : escrowDetails ? (
             <Box>
               <Flex align="center" gap="2" style={{ marginBottom: '1rem' }}>
-                <Badge color={escrowDetails.status === 'active' ? 'green' : 'red'}>
+                <Badge color={STATUS_COLORS[escrowDetails.status]}>
                   {escrowDetails.status.toUpperCase()}
                 </Badge>
-                <Badge color={escrowDetails.type === 'sui' ? 'blue' : 'purple'}>
-                  {escrowDetails.type.toUpperCase()}
+                <Badge color={escrowDetails.kind === 'sui' ? 'blue' : 'purple'}>
+                  {escrowDetails.kind === 'sui' ? 'SUI' : 'OBJECT'}
                 </Badge>
               </Flex>
 
               <Box style={{ marginBottom: '1rem' }}>
                 <Text size="2" color="gray" style={{ marginBottom: '0.25rem', display: 'block' }}>
-                  Asset to Claim:
+                  Escrowed Asset:
+                </Text>
+                <Text weight="medium" style={{ wordBreak: 'break-all' }}>
+                  {escrowDetails.kind === 'sui'
+                    ? `${Number(escrowDetails.amount) / 10 ** CHAINS.SUI.decimals} SUI`
+                    : escrowDetails.itemType ?? 'Object'}
+                </Text>
+              </Box>
+
+              <Box style={{ marginBottom: '1rem' }}>
+                <Text size="2" color="gray" style={{ marginBottom: '0.25rem', display: 'block' }}>
+                  Creator:
+                </Text>
+                <Text weight="medium" style={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>
+                  {formatAddress(escrowDetails.creator)}
+                  {escrowDetails.creator === account?.address && ' (you)'}
+                </Text>
+              </Box>
+
+              <Box style={{ marginBottom: '1rem' }}>
+                <Text size="2" color="gray" style={{ marginBottom: '0.25rem', display: 'block' }}>
+                  Recipient:
                 </Text>
-                <Text weight="medium">
-                  {escrowDetails.type === 'sui' ? `${escrowDetails.amount} SUI` : escrowDetails.objectName}
+                <Text weight="medium" style={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>
+                  {formatAddress(escrowDetails.recipient)}
+                  {escrowDetails.recipient === account?.address && ' (you)'}
                 </Text>
               </Box>
 
@@ -203,10 +170,10 @@ function ClaimSwap() {
 
               <Box style={{ marginBottom: '1rem' }}>
                 <Text size="2" color="gray" style={{ marginBottom: '0.25rem', display: 'block' }}>
-                  Time Remaining:
+                  Deadline:
                 </Text>
                 <Text weight="medium" color={escrowDetails.deadline.getTime() < Date.now() ? 'red' : 'green'}>
-                  {formatTimeRemaining(escrowDetails.deadline)}
+                  {escrowDetails.deadline.toLocaleString()} ({formatTimeRemaining(escrowDetails.deadline)})
                 </Text>
               </Box>
 
@@ -215,23 +182,36 @@ function ClaimSwap() {
                   Hash Commitment:
                 </Text>
                 <Text style={{ fontFamily: 'monospace', fontSize: '0.75rem', wordBreak: 'break-all' }}>
-                  {escrowDetails.hashCommitment}
+                  0x{escrowDetails.hashCommitment}
                 </Text>
               </Box>
             </Box>
-          ) : error ? (
+          ) : (
             <Callout.Root color="red">
               <Callout.Icon>
                 <ExclamationTriangleIcon />
               </Callout.Icon>
               <Callout.Text>
-                {error}
+                {loadError instanceof Error
+                  ? `Failed to load escrow details: ${loadError.message}`
+                  : 'No escrow found with this ID. Please check the escrow ID.'}
               </Callout.Text>
             </Callout.Root>
-          ) : null}
+          )}
         </Card>
       )}
 
+      {error && (
+        <Callout.Root color="red" style={{ marginBottom: '1.5rem' }}>
+          <Callout.Icon>
+            <ExclamationTriangleIcon />
+          </Callout.Icon>
+          <Callout.Text>
+            {error}
+          </Callout.Text>
+        </Callout.Root>
+      )}
+
       {/* Claim Form */}
       {escrowDetails && escrowDetails.status === 'active' && (
         <Card style={{ padding: '2rem' }}>
@@ -245,45 +225,39 @@ function ClaimSwap() {
               <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
                 Secret
               </Text>
-              <TextArea
+              <SecretInput
                 id="claim-secret"
-                name="secret"
-                value={secret}
-                onChange={(e) => setSecret(e.target.value)}
+                secret={secret}
+                onChange={setSecret}
                 placeholder="Enter the secret you used when creating this escrow"
-                rows={3}
-                required
+                commitment={escrowDetails.hashCommitment}
               />
               <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
-                This must be the exact secret that produces the hash commitment shown above
+                This must be the exact secret that produces the hash commitment shown above.
+                Claiming sends the assets to the escrow's recipient, whoever claims it, and revealing the secret
+                on-chain lets the counterparty claim the other side of the swap.
               </Text>
             </Box>
 
-            {error && (
-              <Callout.Root color="red" style={{ marginBottom: '1.5rem' }}>
-                <Callout.Icon>
-                  <ExclamationTriangleIcon />
-                </Callout.Icon>
-                <Callout.Text>
-                  {error}
-                </Callout.Text>
-              </Callout.Root>
-            )}
-
             <Button 
               type="submit" 
               size="3" 
               style={{ width: '100%' }}
-              disabled={isLoading || !secret.trim()}
-              loading={isLoading}
+              disabled={isLoading || !account || !verifySecret(secret, escrowDetails.hashCommitment)}
+              loading={isClaiming}
               id="claim-assets-submit-btn"
             >
-              {isLoading ? 'Claiming Assets...' : 'Claim Assets'}
+              {isClaiming ? 'Claiming Assets...' : account ? 'Claim Assets' : 'Connect your wallet'}
             </Button>
           </form>
         </Card>
       )}
 
+      {/* Deadline check for takers locking the ETH side */}
+      {escrowDetails && escrowDetails.status === 'active' && account && escrowDetails.creator !== account.address && (
+        <SwapSafetyCheck escrow={escrowDetails} taker={account.address} />
+      )}
+
       {/* Status Messages */}
       {escrowDetails && escrowDetails.status === 'expired' && (
         <Callout.Root color="orange">
@@ -296,13 +270,42 @@ function ClaimSwap() {
         </Callout.Root>
       )}
 
+      {escrowDetails && escrowDetails.status === 'expired' && escrowDetails.creator === account?.address && (
+        <Button
+          size="3"
+          color="orange"
+          style={{ width: '100%', marginTop: '1rem' }}
+          onClick={handleRefund}
+          disabled={isLoading}
+          loading={isRefunding}
+          id="refund-escrow-btn"
+        >
+          {isRefunding ? 'Refunding...' : 'Refund My Assets'}
+        </Button>
+      )}
+
       {escrowDetails && escrowDetails.status === 'claimed' && (
         <Callout.Root color="green">
           <Callout.Icon>
             <CheckIcon />
           </Callout.Icon>
           <Callout.Text>
-            This escrow has already been claimed. The atomic swap has been completed successfully.
+            This escrow has already been claimed
+            {escrowDetails.claimer && ` by ${formatAddress(escrowDetails.claimer)}`}, paying{' '}
+            {formatAddress(escrowDetails.recipient)}. The atomic swap has been completed successfully.
+            {escrowDetails.preimage && (
+              <>
+                {' '}Revealed secret: <code style={{ wordBreak: 'break-all' }}>0x{toHex(Uint8Array.from(escrowDetails.preimage))}</code>
+              </>
+            )}
+          </Callout.Text>
+        </Callout.Root>
+      )}
+
+      {escrowDetails && escrowDetails.status === 'refunded' && (
+        <Callout.Root color="gray">
+          <Callout.Text>
+            This escrow expired and was refunded to its creator.
           </Callout.Text>
         </Callout.Root>
       )}
@@ -314,7 +317,7 @@ function ClaimSwap() {
             💡 Demo Helper
           </Heading>
           <Text size="2" color="gray" style={{ lineHeight: 1.5, marginBottom: '1rem' }}>
-            For testing purposes, try this demo secret:
+            Escrows created by the demo script use text secrets, e.g.:
           </Text>
           <Box style={{ 
             backgroundColor: 'var(--gray-3)', 
@@ -329,7 +332,7 @@ function ClaimSwap() {
           <Button 
             variant="outline" 
             size="2" 
-            onClick={() => setSecret('demo_secret_1_32_bytes_length!!!')}
+            onClick={() => setSecret({ value: 'demo_secret_1_32_bytes_length!!!', encoding: 'utf8' })}
             disabled={isLoading}
             id="use-demo-secret-btn"
           >
@@ -1,48 +1,99 @@
 import { useState } from 'react'
-import { Box, Button, Card, Flex, Text, TextField, Select, Heading, Badge, Separator, TextArea } from '@radix-ui/themes'
+import { Box, Button, Card, Flex, Text, TextField, Select, Heading, Badge, Separator, Callout } from '@radix-ui/themes'
+import { useCurrentAccount, useSuiClientInfiniteQuery } from '@mysten/dapp-kit'
+import { formatAddress } from '@mysten/sui/utils'
+import { Link } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { EncodedSecret, generateSecret, minMakerDeadline, planSwapDeadlines, validateSecret } from '@escrow/sdk'
+import SecretInput from './SecretInput'
+import { SWAP_OPTIONS } from '../constants/network'
+import { useCreateObjectEscrowMutation, useCreateSuiEscrowMutation } from '../mutations/escrow'
+import { ethAddressError, parseSuiAmount, suiAddressError } from '../utils/validation'
 // Icons removed for simplicity
 
 type AssetType = 'sui' | 'nft' | 'other'
 
+const TIMEOUT_OPTIONS = [
+  { hours: 1, label: '1 Hour' },
+  { hours: 6, label: '6 Hours' },
+  { hours: 12, label: '12 Hours' },
+  { hours: 24, label: '24 Hours (Recommended)' },
+  { hours: 48, label: '48 Hours' },
+  { hours: 72, label: '72 Hours' },
+]
+
+const HOUR_MS = 60 * 60 * 1000
+
 function CreateSwap() {
   const [assetType, setAssetType] = useState<AssetType>('sui')
   const [amount, setAmount] = useState('')
   const [ethAddress, setEthAddress] = useState('')
+  const [recipient, setRecipient] = useState('')
   const [timeoutHours, setTimeoutHours] = useState('24')
-  const [secret, setSecret] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
+  const [secret, setSecret] = useState<EncodedSecret>({ value: '', encoding: 'hex' })
+  const [objectId, setObjectId] = useState('')
+  const [createdEscrowId, setCreatedEscrowId] = useState<string | null>(null)
+  const account = useCurrentAccount()
 
-  const generateSecret = () => {
-    // Generate a 32-byte secret for testing
-    const randomSecret = `secret_${Date.now()}_${Math.random().toString(36).substring(2)}`
-    setSecret(randomSecret)
-  }
+  const { mutateAsync: createSuiEscrow, isPending: isCreatingSuiEscrow } = useCreateSuiEscrowMutation()
+  const { mutateAsync: createObjectEscrow, isPending: isCreatingObjectEscrow } = useCreateObjectEscrowMutation()
+  const isLoading = isCreatingSuiEscrow || isCreatingObjectEscrow
+
+  // Objects that can be escrowed (`key + store`, i.e. publicly transferable), except coins
+  const { data: ownedObjects, refetch: refetchOwnedObjects } = useSuiClientInfiniteQuery(
+    'getOwnedObjects',
+    {
+      owner: account?.address ?? '',
+      options: { showType: true, showDisplay: true, showContent: true },
+    },
+    {
+      enabled: !!account && assetType !== 'sui',
+      select: (data) =>
+        data.pages
+          .flatMap((page) => page.data)
+          .flatMap((obj) => (obj.data ? [obj.data] : []))
+          .filter(
+            (obj) =>
+              obj.content?.dataType === 'moveObject' &&
+              obj.content.hasPublicTransfer &&
+              !obj.type?.startsWith('0x2::coin::Coin<') &&
+              // NFTs are the objects with a Display
+              (assetType === 'nft') === !!obj.display?.data,
+          ),
+    },
+  )
+
+  const selectedObject = ownedObjects?.find((obj) => obj.objectId === objectId)
+
+  // Timeouts too short for the counterparty to safely lock ETH against the escrow
+  const minTimeoutMs = minMakerDeadline(SWAP_OPTIONS) - Date.now()
+  const timeoutMs = Number(timeoutHours) * HOUR_MS
+  const plan = timeoutMs >= minTimeoutMs ? planSwapDeadlines(Date.now() + timeoutMs, SWAP_OPTIONS) : undefined
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    setIsLoading(true)
-    
+    setCreatedEscrowId(null)
+
     try {
-      // TODO: Implement actual escrow creation logic
-      console.log('Creating escrow:', {
-        assetType,
-        amount,
-        ethAddress,
-        timeoutHours,
-        secret
-      })
-      
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      // Show success message or redirect
-      alert('Escrow created successfully!')
-      
+      const deadline = Date.now() + timeoutMs
+      // Throws if no ETH lock could safely mirror the escrow
+      planSwapDeadlines(deadline, SWAP_OPTIONS)
+      const params = { secret, ethAddress, recipient, deadline }
+
+      let escrowId: string | undefined
+      if (assetType === 'sui') {
+        escrowId = await createSuiEscrow({ ...params, amount: parseSuiAmount(amount) })
+      } else {
+        if (!selectedObject) throw new Error('Select an object to lock')
+        escrowId = await createObjectEscrow({ ...params, object: selectedObject })
+        setObjectId('')
+        refetchOwnedObjects()
+      }
+
+      setCreatedEscrowId(escrowId ?? null)
     } catch (error) {
       console.error('Failed to create escrow:', error)
-      alert('Failed to create escrow. Please try again.')
-    } finally {
-      setIsLoading(false)
+      toast.error(error instanceof Error ? error.message : 'Failed to create escrow. Please try again.')
     }
   }
 
@@ -64,7 +115,13 @@ function CreateSwap() {
             <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
               Asset Type
             </Text>
-            <Select.Root value={assetType} onValueChange={(value: AssetType) => setAssetType(value)}>
+            <Select.Root
+              value={assetType}
+              onValueChange={(value: AssetType) => {
+                setAssetType(value)
+                setObjectId('')
+              }}
+            >
               <Select.Trigger style={{ width: '100%' }} id="asset-type" name="assetType" />
               <Select.Content>
                 <Select.Item value="sui">
@@ -116,11 +173,31 @@ function CreateSwap() {
                 <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
                   Select Object
                 </Text>
-                <Button variant="outline" style={{ width: '100%', height: '3rem' }} disabled id="select-object-btn">
-                  🔗 Connect wallet to select objects
-                </Button>
+                {account ? (
+                  <Select.Root value={objectId} onValueChange={setObjectId}>
+                    <Select.Trigger
+                      style={{ width: '100%' }}
+                      id="select-object"
+                      placeholder={`Select ${assetType === 'nft' ? 'an NFT' : 'an object'} to lock`}
+                    />
+                    <Select.Content>
+                      {ownedObjects?.map((obj) => (
+                        <Select.Item key={obj.objectId} value={obj.objectId}>
+                          {(obj.display?.data?.name as string | undefined) ?? obj.type?.split('::').pop()}{' '}
+                          ({formatAddress(obj.objectId)})
+                        </Select.Item>
+                      ))}
+                    </Select.Content>
+                  </Select.Root>
+                ) : (
+                  <Button variant="outline" style={{ width: '100%', height: '3rem' }} disabled id="select-object-btn">
+                    🔗 Connect wallet to select objects
+                  </Button>
+                )}
                 <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
-                  Connect your wallet to see available {assetType === 'nft' ? 'NFTs' : 'objects'}
+                  {account && ownedObjects?.length === 0
+                    ? `You don't own any ${assetType === 'nft' ? 'NFTs' : 'objects'} that can be escrowed`
+                    : `Your ${assetType === 'nft' ? 'NFTs' : 'objects'} that can be transferred (key + store)`}
                 </Text>
               </>
             )}
@@ -138,13 +215,43 @@ function CreateSwap() {
               name="ethAddress"
               value={ethAddress}
               onChange={(e) => setEthAddress(e.target.value)}
-              placeholder="0x742d35Cc6635C0532925a3b8D0A9e2B9c2b6F5f1"
+              placeholder="0x742d35cc6635c0532925a3b8d0a9e2b9c2b6f5f1"
               pattern="^0x[a-fA-F0-9]{40}$"
               required
             />
-            <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
-              The Ethereum address that can claim your assets after revealing the secret
+            {ethAddress && ethAddressError(ethAddress) ? (
+              <Text size="2" color="red" style={{ marginTop: '0.25rem', display: 'block' }}>
+                {ethAddressError(ethAddress)}
+              </Text>
+            ) : (
+              <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
+                Your Ethereum address, that the counterparty locks the ETH for
+              </Text>
+            )}
+          </Box>
+
+          {/* Counterparty */}
+          <Box style={{ marginBottom: '1.5rem' }}>
+            <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
+              Counterparty Sui Address
             </Text>
+            <TextField.Root
+              id="recipient"
+              name="recipient"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value.trim())}
+              placeholder="0x..."
+              required
+            />
+            {recipient && suiAddressError(recipient) ? (
+              <Text size="2" color="red" style={{ marginTop: '0.25rem', display: 'block' }}>
+                {suiAddressError(recipient)}
+              </Text>
+            ) : (
+              <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
+                Who gets your assets once the escrow is claimed with the secret: the party locking the ETH
+              </Text>
+            )}
           </Box>
 
           {/* Timeout */}
@@ -155,17 +262,27 @@ function CreateSwap() {
             <Select.Root value={timeoutHours} onValueChange={setTimeoutHours}>
               <Select.Trigger style={{ width: '100%' }} id="timeout-hours" name="timeoutHours" />
               <Select.Content>
-                <Select.Item value="1">1 Hour</Select.Item>
-                <Select.Item value="6">6 Hours</Select.Item>
-                <Select.Item value="12">12 Hours</Select.Item>
-                <Select.Item value="24">24 Hours (Recommended)</Select.Item>
-                <Select.Item value="48">48 Hours</Select.Item>
-                <Select.Item value="72">72 Hours</Select.Item>
+                {TIMEOUT_OPTIONS.map(({ hours, label }) => (
+                  <Select.Item key={hours} value={String(hours)} disabled={hours * HOUR_MS < minTimeoutMs}>
+                    {hours * HOUR_MS < minTimeoutMs ? `${label} (too short for a safe swap)` : label}
+                  </Select.Item>
+                ))}
               </Select.Content>
             </Select.Root>
             <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
               After this time, you can reclaim your assets if the swap isn't completed
             </Text>
+            {plan ? (
+              <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
+                An ETH lock mirroring this escrow must expire by{' '}
+                {new Date(plan.takerDeadline.latest).toLocaleString()}, so the secret revealed on Ethereum can still
+                be used here.
+              </Text>
+            ) : (
+              <Text size="2" color="red" style={{ marginTop: '0.25rem', display: 'block' }}>
+                This timeout is too short for the counterparty to safely lock ETH against your escrow.
+              </Text>
+            )}
           </Box>
 
           <Separator style={{ margin: '1.5rem 0' }} />
@@ -181,7 +298,7 @@ function CreateSwap() {
               <Button 
                 type="button" 
                 variant="outline" 
-                onClick={generateSecret}
+                onClick={() => setSecret(generateSecret())}
                 style={{ marginBottom: '0.5rem' }}
                 id="generate-secret-btn"
               >
@@ -189,14 +306,11 @@ function CreateSwap() {
               </Button>
             </Box>
             
-            <TextArea
+            <SecretInput
               id="secret"
-              name="secret"
-              value={secret}
-              onChange={(e) => setSecret(e.target.value)}
+              secret={secret}
+              onChange={setSecret}
               placeholder="Enter your secret (keep this safe!)"
-              rows={3}
-              required
             />
             <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
               ⚠️ Keep this secret safe! You'll need it to claim assets on Ethereum.
@@ -209,25 +323,43 @@ function CreateSwap() {
             type="submit" 
             size="3" 
             style={{ width: '100%' }}
-            disabled={isLoading || !secret || !ethAddress || (assetType === 'sui' && !amount)}
+            disabled={
+              isLoading ||
+              !account ||
+              !!validateSecret(secret) ||
+              !!ethAddressError(ethAddress) ||
+              !!suiAddressError(recipient) ||
+              !plan ||
+              (assetType === 'sui' ? !amount : !selectedObject)
+            }
             loading={isLoading}
             id="create-swap-submit-btn"
           >
-            {isLoading ? 'Creating Escrow...' : 'Create Atomic Swap'}
+            {isLoading ? 'Creating Escrow...' : account ? 'Create Atomic Swap' : 'Connect your wallet'}
           </Button>
         </form>
       </Card>
 
+      {createdEscrowId && (
+        <Callout.Root color="green" style={{ marginTop: '1.5rem' }}>
+          <Callout.Text>
+            Escrow created: <code>{createdEscrowId}</code>. Keep your secret safe, you'll need it to claim.{' '}
+            <Link to={`/claim/${createdEscrowId}`}>View the escrow</Link>
+          </Callout.Text>
+        </Callout.Root>
+      )}
+
       {/* Information Card */}
       <Card style={{ padding: '1.5rem', marginTop: '1.5rem', backgroundColor: 'var(--blue-2)' }}>
         <Heading size="4" style={{ marginBottom: '1rem' }}>
           💡 How it works
         </Heading>
         <Text size="2" color="gray" style={{ lineHeight: 1.5 }}>
-          1. Your assets will be locked in a smart contract with a hash of your secret<br/>
-          2. Someone on Ethereum can create a matching lock with the same hash<br/>
+          1. Your assets will be locked in a smart contract with a hash of your secret, for the counterparty<br/>
+          2. The counterparty creates a matching lock on Ethereum with the same hash, expiring well before yours<br/>
           3. You reveal your secret to claim their ETH<br/>
-          4. They use your revealed secret to claim your assets<br/>
+          4. Your revealed secret unlocks this escrow, which pays the counterparty whoever claims it (e.g. the
+          relayer)<br/>
           5. If no match is found before timeout, you can reclaim your assets
         </Text>
       </Card>
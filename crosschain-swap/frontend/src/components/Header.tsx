@@ -11,6 +11,7 @@ const Header = () => {
   const navItems = [
     { path: '/', label: 'Home' },
     { path: '/create', label: 'Create Swap' },
+    { path: '/orders', label: 'Order Book' },
     { path: '/my-swaps', label: 'My Swaps' },
     { path: '/claim', label: 'Claim' },
   ]
@@ -1,96 +1,46 @@
-import { useState, useEffect } from 'react'
-import { Box, Button, Card, Flex, Text, Heading, Badge, Separator, Tabs } from '@radix-ui/themes'
-// Icons removed for simplicity
+import { useState } from 'react'
+import { Box, Button, Card, Flex, Text, Heading, Badge, Separator, Tabs, SegmentedControl, TextField } from '@radix-ui/themes'
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { formatAddress } from '@mysten/sui/utils'
 import { Link } from 'react-router-dom'
+import { CHAINS } from '../constants/network'
+import { SwapsFilter, useSwaps } from '../hooks/useSwaps'
+import { EscrowStatus, IndexedSwap } from '../types'
+import { ethAddressError } from '../utils/validation'
 
-type SwapStatus = 'active' | 'completed' | 'expired' | 'claimed'
+type SwapsView = 'created' | 'paying' | 'receiving'
 
-interface Swap {
-  id: string
-  type: 'sui' | 'nft' | 'other'
-  amount?: string
-  objectName?: string
-  ethAddress: string
-  deadline: Date
-  status: SwapStatus
-  createdAt: Date
-  txHash?: string
-}
+const STATUS_TABS: EscrowStatus[] = ['active', 'expired', 'claimed', 'refunded']
+
+const STATUS_COLORS = {
+  active: 'blue',
+  expired: 'red',
+  claimed: 'green',
+  refunded: 'gray',
+} as const
+
+const STATUS_ICONS = {
+  active: '⏰',
+  expired: '⚠️',
+  claimed: '✅',
+  refunded: '↩️',
+} as const
 
 function MySwaps() {
-  const [swaps, setSwaps] = useState<Swap[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  const account = useCurrentAccount()
+  const [view, setView] = useState<SwapsView>('created')
+  const [ethAddress, setEthAddress] = useState('')
   const [activeTab, setActiveTab] = useState('all')
 
-  useEffect(() => {
-    loadSwaps()
-  }, [])
-
-  const loadSwaps = async () => {
-    setIsLoading(true)
-    try {
-      // TODO: Implement actual API call to load user's swaps
-      // For now, showing mock data
-      const mockSwaps: Swap[] = [
-        {
-          id: '1',
-          type: 'sui',
-          amount: '0.005',
-          ethAddress: '0x742d35Cc6635C0532925a3b8D0A9e2B9c2b6F5f1',
-          deadline: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours from now
-          status: 'active',
-          createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-          txHash: '0xabc123...'
-        },
-        {
-          id: '2',
-          type: 'nft',
-          objectName: 'Cool NFT #123',
-          ethAddress: '0x1234567890123456789012345678901234567890',
-          deadline: new Date(Date.now() - 1 * 60 * 60 * 1000), // 1 hour ago (expired)
-          status: 'expired',
-          createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000), // 25 hours ago
-          txHash: '0xdef456...'
-        },
-        {
-          id: '3',
-          type: 'sui',
-          amount: '0.1',
-          ethAddress: '0xAbcdEf123456789012345678901234567890AbCd',
-          deadline: new Date(Date.now() + 12 * 60 * 60 * 1000), // 12 hours from now
-          status: 'completed',
-          createdAt: new Date(Date.now() - 6 * 60 * 60 * 1000), // 6 hours ago
-          txHash: '0x789xyz...'
-        }
-      ]
-      
-      setSwaps(mockSwaps)
-    } catch (error) {
-      console.error('Failed to load swaps:', error)
-    } finally {
-      setIsLoading(false)
-    }
-  }
+  const ethError = ethAddress ? ethAddressError(ethAddress) : undefined
+  let filter: SwapsFilter | undefined
+  if (view === 'created' && account) filter = { creator: account.address }
+  if (view === 'paying' && account) filter = { recipient: account.address }
+  if (view === 'receiving' && ethAddress && !ethError) filter = { ethReceiver: ethAddress }
 
-  const getStatusColor = (status: SwapStatus) => {
-    switch (status) {
-      case 'active': return 'blue'
-      case 'completed': return 'green'
-      case 'expired': return 'red'
-      case 'claimed': return 'purple'
-      default: return 'gray'
-    }
-  }
-
-  const getStatusIcon = (status: SwapStatus) => {
-    switch (status) {
-      case 'active': return '⏰'
-      case 'completed': return '✅'
-      case 'expired': return '⚠️'
-      case 'claimed': return '✅'
-      default: return '⏰'
-    }
-  }
+  const { data, error, isLoading, isFetching, refetch, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useSwaps(filter)
+  const swaps = data?.pages.flatMap((page) => page.data) ?? []
 
   const formatTimeRemaining = (deadline: Date) => {
     const now = new Date()
@@ -110,20 +60,20 @@ function MySwaps() {
     }
   }
 
-  const filterSwaps = (swaps: Swap[]) => {
-    switch (activeTab) {
-      case 'active':
-        return swaps.filter(swap => swap.status === 'active')
-      case 'completed':
-        return swaps.filter(swap => swap.status === 'completed' || swap.status === 'claimed')
-      case 'expired':
-        return swaps.filter(swap => swap.status === 'expired')
-      default:
-        return swaps
-    }
+  const formatAsset = (swap: IndexedSwap) => {
+    if (swap.kind === 'object') return swap.itemId ? `Object ${formatAddress(swap.itemId)}` : 'Object'
+    return `${Number(swap.amount ?? 0) / 10 ** CHAINS.SUI.decimals} SUI`
   }
 
-  const filteredSwaps = filterSwaps(swaps)
+  const filteredSwaps = activeTab === 'all' ? swaps : swaps.filter((swap) => swap.status === activeTab)
+
+  const emptyMessage = () => {
+    if (view === 'created' && !account) return 'Connect your wallet to see the swaps you created'
+    if (view === 'paying' && !account) return 'Connect your wallet to see the swaps paying you'
+    if (view === 'receiving' && !filter) return 'Enter an Ethereum address to see the swaps sent to it'
+    if (error) return `Failed to load swaps: ${error.message}`
+    return activeTab === 'all' ? 'No swaps found' : `No ${activeTab} swaps`
+  }
 
   return (
     <Box style={{ maxWidth: '800px', margin: '0 auto' }}>
@@ -136,23 +86,42 @@ function MySwaps() {
             Track your cross-chain swap activities
           </Text>
         </Box>
-        <Button onClick={loadSwaps} variant="outline" disabled={isLoading}>
+        <Button onClick={() => refetch()} variant="outline" disabled={!filter || isFetching}>
           🔄 Refresh
         </Button>
       </Flex>
 
+      <Flex direction="column" gap="3" style={{ marginBottom: '1.5rem' }}>
+        <SegmentedControl.Root value={view} onValueChange={(value) => setView(value as SwapsView)}>
+          <SegmentedControl.Item value="created">Created by me</SegmentedControl.Item>
+          <SegmentedControl.Item value="paying">Paying me</SegmentedControl.Item>
+          <SegmentedControl.Item value="receiving">Sent to an ETH address</SegmentedControl.Item>
+        </SegmentedControl.Root>
+
+        {view === 'receiving' && (
+          <Box>
+            <TextField.Root
+              placeholder="0x... (the ETH receiver of the swaps)"
+              value={ethAddress}
+              onChange={(e) => setEthAddress(e.target.value.trim())}
+            />
+            {ethError && (
+              <Text size="2" color="red" style={{ marginTop: '0.25rem', display: 'block' }}>
+                {ethError}
+              </Text>
+            )}
+          </Box>
+        )}
+      </Flex>
+
       <Tabs.Root value={activeTab} onValueChange={setActiveTab}>
         <Tabs.List style={{ marginBottom: '1.5rem' }}>
           <Tabs.Trigger value="all">All ({swaps.length})</Tabs.Trigger>
-          <Tabs.Trigger value="active">
-            Active ({swaps.filter(s => s.status === 'active').length})
-          </Tabs.Trigger>
-          <Tabs.Trigger value="completed">
-            Completed ({swaps.filter(s => s.status === 'completed' || s.status === 'claimed').length})
-          </Tabs.Trigger>
-          <Tabs.Trigger value="expired">
-            Expired ({swaps.filter(s => s.status === 'expired').length})
-          </Tabs.Trigger>
+          {STATUS_TABS.map((status) => (
+            <Tabs.Trigger key={status} value={status}>
+              {status.charAt(0).toUpperCase() + status.slice(1)} ({swaps.filter((s) => s.status === status).length})
+            </Tabs.Trigger>
+          ))}
         </Tabs.List>
 
         <Tabs.Content value={activeTab}>
@@ -162,10 +131,10 @@ function MySwaps() {
             </Card>
           ) : filteredSwaps.length === 0 ? (
             <Card style={{ padding: '2rem', textAlign: 'center' }}>
-              <Text color="gray" style={{ marginBottom: '1rem' }}>
-                {activeTab === 'all' ? 'No swaps found' : `No ${activeTab} swaps`}
+              <Text color={error ? 'red' : 'gray'} style={{ marginBottom: '1rem', display: 'block' }}>
+                {emptyMessage()}
               </Text>
-              {activeTab === 'all' && (
+              {view === 'created' && account && !error && activeTab === 'all' && (
                 <Button asChild>
                   <Link to="/create">Create Your First Swap</Link>
                 </Button>
@@ -174,69 +143,98 @@ function MySwaps() {
           ) : (
             <Box style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
               {filteredSwaps.map((swap) => (
-                <Card key={swap.id} style={{ padding: '1.5rem' }}>
+                <Card key={swap.escrowId} style={{ padding: '1.5rem' }}>
                   <Flex align="start" justify="between" style={{ marginBottom: '1rem' }}>
                     <Flex align="center" gap="3">
-                      <Badge color={getStatusColor(swap.status)} size="2">
+                      <Badge color={STATUS_COLORS[swap.status]} size="2">
                         <Flex align="center" gap="1">
-                          {getStatusIcon(swap.status)}
+                          {STATUS_ICONS[swap.status]}
                           {swap.status.toUpperCase()}
                         </Flex>
                       </Badge>
-                      <Badge color={swap.type === 'sui' ? 'blue' : swap.type === 'nft' ? 'green' : 'purple'}>
-                        {swap.type.toUpperCase()}
+                      <Badge color={swap.kind === 'object' ? 'purple' : 'blue'}>
+                        {(swap.kind ?? 'sui').toUpperCase()}
                       </Badge>
                     </Flex>
                     
-                    <Text size="2" color="gray">
-                      {swap.createdAt.toLocaleDateString()} {swap.createdAt.toLocaleTimeString()}
-                    </Text>
+                    {swap.createdAt && (
+                      <Text size="2" color="gray">
+                        {new Date(swap.createdAt).toLocaleDateString()} {new Date(swap.createdAt).toLocaleTimeString()}
+                      </Text>
+                    )}
                   </Flex>
 
                   <Flex align="center" justify="between" style={{ marginBottom: '1rem' }}>
                     <Box>
                       <Text weight="medium" size="3" style={{ marginBottom: '0.25rem', display: 'block' }}>
-                        {swap.type === 'sui' ? `${swap.amount} SUI` : swap.objectName}
+                        {formatAsset(swap)}
                       </Text>
                       <Text size="2" color="gray">
-                        → {swap.ethAddress.slice(0, 8)}...{swap.ethAddress.slice(-6)}
+                        {view === 'created'
+                          ? `→ ${swap.ethReceiver?.slice(0, 8)}...${swap.ethReceiver?.slice(-6)}`
+                          : `← ${swap.creator ? formatAddress(swap.creator) : 'unknown creator'}`}
                       </Text>
                     </Box>
 
                     <Box style={{ textAlign: 'right' }}>
-                      <Text size="2" color={swap.status === 'expired' ? 'red' : 'gray'}>
-                        {formatTimeRemaining(swap.deadline)}
-                      </Text>
+                      {swap.status === 'claimed' || swap.status === 'refunded' ? (
+                        <Text size="2" color="gray">
+                          {swap.status === 'claimed' ? 'Claimed' : 'Refunded'}
+                          {swap.completedAt && ` ${new Date(swap.completedAt).toLocaleString()}`}
+                        </Text>
+                      ) : (
+                        swap.deadline && (
+                          <Text size="2" color={swap.status === 'expired' ? 'red' : 'gray'}>
+                            {formatTimeRemaining(new Date(swap.deadline))}
+                          </Text>
+                        )
+                      )}
                     </Box>
                   </Flex>
 
+                  {swap.preimage && (
+                    <Text size="1" color="gray" style={{ fontFamily: 'monospace', wordBreak: 'break-all', display: 'block' }}>
+                      Secret: 0x{swap.preimage}
+                    </Text>
+                  )}
+
                   <Separator style={{ margin: '1rem 0' }} />
 
                   <Flex align="center" justify="between">
                     <Text size="2" color="gray">
-                      TX: {swap.txHash?.slice(0, 10)}...{swap.txHash?.slice(-8)}
+                      TX: {(swap.completedTxDigest ?? swap.createdTxDigest)?.slice(0, 10)}...
                     </Text>
                     
                     <Flex gap="2">
                       {swap.status === 'active' && (
                         <Button asChild size="2">
-                          <Link to={`/claim/${swap.id}`}>
+                          <Link to={`/claim/${swap.escrowId}`}>
                             Reveal Secret
                           </Link>
                         </Button>
                       )}
-                      {swap.status === 'expired' && (
-                        <Button size="2" color="red">
-                          Reclaim Assets
+                      {swap.status === 'expired' && swap.creator === account?.address && (
+                        <Button asChild size="2" color="red">
+                          <Link to={`/claim/${swap.escrowId}`}>
+                            Reclaim Assets
+                          </Link>
                         </Button>
                       )}
-                      <Button variant="outline" size="2">
-                        View Details
+                      <Button asChild variant="outline" size="2">
+                        <Link to={`/claim/${swap.escrowId}`}>
+                          View Details
+                        </Link>
                       </Button>
                     </Flex>
                   </Flex>
                 </Card>
               ))}
+
+              {hasNextPage && (
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                </Button>
+              )}
             </Box>
           )}
         </Tabs.Content>
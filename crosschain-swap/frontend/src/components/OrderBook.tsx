@@ -0,0 +1,174 @@
+import { useState } from 'react'
+import { Box, Button, Card, Flex, Text, Heading, Badge, SegmentedControl, TextField } from '@radix-ui/themes'
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { formatAddress } from '@mysten/sui/utils'
+import { Link } from 'react-router-dom'
+import { orderRate } from '@escrow/sdk'
+import { CHAINS } from '../constants/network'
+import { OrdersFilter, useOrderQuote, useOrders } from '../hooks/useOrders'
+import { parseSuiAmount } from '../utils/validation'
+
+type OrdersView = 'book' | 'posted' | 'accepted'
+
+const STATUS_COLORS = {
+  pending: 'blue',
+  locked: 'orange',
+  claimed: 'green',
+  refunded: 'gray',
+  expired: 'red',
+} as const
+
+const formatSui = (mist: string) => `${Number(mist) / 10 ** CHAINS.SUI.decimals} SUI`
+const formatEth = (wei: string) => `${Number(wei) / 10 ** CHAINS.ETHEREUM.decimals} ETH`
+
+/**
+ * The order book: the open orders takers can accept (with a quote for buying an amount of SUI),
+ * and the orders the connected wallet posted or accepted.
+ */
+function OrderBook() {
+  const account = useCurrentAccount()
+  const [view, setView] = useState<OrdersView>('book')
+  const [quoteAmount, setQuoteAmount] = useState('')
+
+  let filter: OrdersFilter | undefined
+  if (view === 'book') filter = { book: true }
+  if (view === 'posted' && account) filter = { maker: account.address }
+  if (view === 'accepted' && account) filter = { taker: account.address }
+
+  const { data, error, isLoading, isFetching, refetch, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useOrders(filter)
+  const orders = data?.pages.flatMap((page) => page.data) ?? []
+
+  let quoteMist: bigint | undefined
+  let quoteAmountError: string | undefined
+  try {
+    quoteMist = quoteAmount ? parseSuiAmount(quoteAmount) : undefined
+  } catch (err) {
+    quoteAmountError = err instanceof Error ? err.message : 'Invalid amount'
+  }
+  const { data: quote, error: quoteError, isFetching: isQuoting } = useOrderQuote(quoteMist)
+
+  const emptyMessage = () => {
+    if (!filter) return 'Connect your wallet to see your orders'
+    if (error) return `Failed to load orders: ${error.message}`
+    return view === 'book' ? 'No open orders on the book' : 'No orders found'
+  }
+
+  return (
+    <Box style={{ maxWidth: '800px', margin: '0 auto' }}>
+      <Flex align="center" justify="between" style={{ marginBottom: '2rem' }}>
+        <Box>
+          <Heading size="6" style={{ marginBottom: '0.5rem' }}>
+            Order Book
+          </Heading>
+          <Text color="gray">
+            Offers to swap SUI for ETH, posted & signed by their makers
+          </Text>
+        </Box>
+        <Flex gap="2">
+          <Button onClick={() => refetch()} variant="outline" disabled={!filter || isFetching}>
+            🔄 Refresh
+          </Button>
+          <Button asChild>
+            <Link to="/orders/new">Post an Order</Link>
+          </Button>
+        </Flex>
+      </Flex>
+
+      <SegmentedControl.Root
+        value={view}
+        onValueChange={(value) => setView(value as OrdersView)}
+        style={{ width: '100%', marginBottom: '1.5rem' }}
+      >
+        <SegmentedControl.Item value="book">Open orders</SegmentedControl.Item>
+        <SegmentedControl.Item value="posted">Posted by me</SegmentedControl.Item>
+        <SegmentedControl.Item value="accepted">Accepted by me</SegmentedControl.Item>
+      </SegmentedControl.Root>
+
+      {/* Quote */}
+      {view === 'book' && (
+        <Card style={{ padding: '1.5rem', marginBottom: '1.5rem' }}>
+          <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
+            How much SUI do you want to buy?
+          </Text>
+          <TextField.Root
+            id="quote-amount"
+            value={quoteAmount}
+            onChange={(e) => setQuoteAmount(e.target.value)}
+            placeholder="1.5"
+            type="number"
+            step="0.001"
+            min="0"
+          />
+          <Text
+            size="2"
+            color={quoteAmountError || quoteError ? 'red' : 'gray'}
+            style={{ marginTop: '0.5rem', display: 'block' }}
+          >
+            {quoteAmountError ??
+              quoteError?.message ??
+              (quote
+                ? `${formatSui(quote.fromAmount)} for ${formatEth(quote.toAmount)} (${quote.rate.toPrecision(4)} ETH/SUI, ` +
+                  `+${(quote.priceImpact * 100).toFixed(2)}% over the best price) from ${quote.orderIds.length} ` +
+                  `order${quote.orderIds.length > 1 ? 's' : ''}, until ${new Date(quote.deadline).toLocaleString()}`
+                : isQuoting
+                  ? 'Quoting...'
+                  : 'Orders are taken cheapest first, and whole')}
+          </Text>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <Card style={{ padding: '2rem', textAlign: 'center' }}>
+          <Text>Loading orders...</Text>
+        </Card>
+      ) : orders.length === 0 ? (
+        <Card style={{ padding: '2rem', textAlign: 'center' }}>
+          <Text color={error ? 'red' : 'gray'}>{emptyMessage()}</Text>
+        </Card>
+      ) : (
+        <Box style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          {orders.map((order) => (
+            <Card key={order.id} style={{ padding: '1.5rem' }}>
+              <Flex align="center" justify="between" gap="3">
+                <Box>
+                  <Flex align="center" gap="2" style={{ marginBottom: '0.5rem' }}>
+                    <Badge color={STATUS_COLORS[order.status]}>{order.status.toUpperCase()}</Badge>
+                    {order.taker && order.status === 'pending' && <Badge color="purple">ACCEPTED</Badge>}
+                  </Flex>
+                  <Text weight="medium" size="3" style={{ display: 'block' }}>
+                    {formatSui(order.fromAmount)} → {formatEth(order.toAmount)}
+                  </Text>
+                  <Text size="2" color="gray">
+                    {orderRate({ amount: order.fromAmount, ethAmount: order.toAmount }).toPrecision(4)} ETH/SUI · by{' '}
+                    {formatAddress(order.fromAddress)}
+                    {order.fromAddress === account?.address && ' (you)'}
+                  </Text>
+                </Box>
+
+                <Box style={{ textAlign: 'right' }}>
+                  <Text size="2" color={order.status === 'expired' ? 'red' : 'gray'} style={{ display: 'block' }}>
+                    {order.status === 'pending' || order.status === 'expired'
+                      ? `Expires ${new Date(order.deadline).toLocaleString()}`
+                      : `Posted ${new Date(order.createdAt).toLocaleString()}`}
+                  </Text>
+                  <Button asChild variant="outline" size="2" style={{ marginTop: '0.5rem' }}>
+                    <Link to={`/orders/${order.id}`}>{view === 'book' ? 'View & Accept' : 'View'}</Link>
+                  </Button>
+                </Box>
+              </Flex>
+            </Card>
+          ))}
+
+          {hasNextPage && (
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </Button>
+          )}
+        </Box>
+      )}
+    </Box>
+  )
+}
+
+export default OrderBook
@@ -0,0 +1,245 @@
+import { useState } from 'react'
+import { Box, Button, Card, Flex, Text, Heading, Badge, Callout } from '@radix-ui/themes'
+import { CheckIcon, ExclamationTriangleIcon } from '@radix-ui/react-icons'
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { formatAddress } from '@mysten/sui/utils'
+import { useQueryClient } from '@tanstack/react-query'
+import { Link, useParams } from 'react-router-dom'
+import { EncodedSecret, orderRate, planSwapDeadlines, verifySecret } from '@escrow/sdk'
+import SecretInput from './SecretInput'
+import { CHAINS, SWAP_OPTIONS } from '../constants/network'
+import { useOrder } from '../hooks/useOrders'
+import { useCreateSuiEscrowMutation } from '../mutations/escrow'
+import { useAcceptOrderMutation } from '../mutations/orders'
+
+const STATUS_COLORS = {
+  pending: 'blue',
+  locked: 'orange',
+  claimed: 'green',
+  refunded: 'gray',
+  expired: 'red',
+} as const
+
+// How long the maker's escrow lasts, leaving the taker time to safely lock ETH against it
+const ESCROW_TIMEOUT_MS = 24 * 60 * 60 * 1000
+
+/**
+ * An order of the book, with the next step of the swap: takers accept open orders, then the maker
+ * locks the SUI for the taker with the order's secret, and the swap goes on from the escrow's page.
+ */
+function OrderDetails() {
+  const { orderId } = useParams<{ orderId: string }>()
+  const [secret, setSecret] = useState<EncodedSecret>({ value: '', encoding: 'hex' })
+  const [error, setError] = useState<string | null>(null)
+  const account = useCurrentAccount()
+  const queryClient = useQueryClient()
+
+  const { data: order, isLoading, error: loadError } = useOrder(orderId)
+  const { mutateAsync: acceptOrder, isPending: isAccepting } = useAcceptOrderMutation()
+  const { mutateAsync: createSuiEscrow, isPending: isLocking } = useCreateSuiEscrowMutation()
+
+  const isMaker = !!order && order.fromAddress === account?.address
+  const isTaker = !!order && order.taker === account?.address
+
+  const handleAccept = async () => {
+    if (!order) return
+
+    setError(null)
+    try {
+      await acceptOrder({ order })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept the order. Please try again.')
+    }
+  }
+
+  const handleLock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    // The escrow pays the taker once claimed, so there's nothing to lock for until someone accepted
+    if (!order?.taker) return
+
+    setError(null)
+    try {
+      const deadline = Date.now() + ESCROW_TIMEOUT_MS
+      // Throws if no ETH lock could safely mirror the escrow
+      planSwapDeadlines(deadline, SWAP_OPTIONS)
+
+      await createSuiEscrow({
+        secret,
+        ethAddress: order.toAddress,
+        recipient: order.taker,
+        amount: BigInt(order.fromAmount),
+        deadline,
+      })
+      setSecret({ value: '', encoding: 'hex' })
+      // The indexer links the escrow to the order
+      queryClient.invalidateQueries({ queryKey: ['order', order.id] })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to lock the SUI. Please try again.')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card style={{ maxWidth: '600px', margin: '0 auto', padding: '2rem', textAlign: 'center' }}>
+        <Text>Loading the order...</Text>
+      </Card>
+    )
+  }
+
+  if (!order) {
+    return (
+      <Box style={{ maxWidth: '600px', margin: '0 auto' }}>
+        <Callout.Root color="red">
+          <Callout.Icon>
+            <ExclamationTriangleIcon />
+          </Callout.Icon>
+          <Callout.Text>{loadError?.message ?? 'Order not found'}</Callout.Text>
+        </Callout.Root>
+      </Box>
+    )
+  }
+
+  return (
+    <Box style={{ maxWidth: '600px', margin: '0 auto' }}>
+      <Box style={{ marginBottom: '2rem' }}>
+        <Heading size="6" style={{ marginBottom: '0.5rem' }}>
+          Order #{order.id}
+        </Heading>
+        <Text color="gray">
+          {Number(order.fromAmount) / 10 ** CHAINS.SUI.decimals} SUI for{' '}
+          {Number(order.toAmount) / 10 ** CHAINS.ETHEREUM.decimals} ETH (
+          {orderRate({ amount: order.fromAmount, ethAmount: order.toAmount }).toPrecision(4)} ETH/SUI)
+        </Text>
+      </Box>
+
+      <Card style={{ padding: '1.5rem', marginBottom: '1.5rem' }}>
+        <Flex align="center" gap="2" style={{ marginBottom: '1rem' }}>
+          <Badge color={STATUS_COLORS[order.status]} size="2">
+            {order.status.toUpperCase()}
+          </Badge>
+          {order.taker && order.status === 'pending' && <Badge color="purple">ACCEPTED</Badge>}
+        </Flex>
+
+        {[
+          ['Maker', `${formatAddress(order.fromAddress)}${isMaker ? ' (you)' : ''}`],
+          ['ETH Receiver', order.toAddress],
+          ['Hash Commitment', `0x${order.hashCommitment}`],
+          ['Expires', new Date(order.deadline).toLocaleString()],
+          ...(order.taker ? [['Taker', `${formatAddress(order.taker)}${isTaker ? ' (you)' : ''}`]] : []),
+        ].map(([label, value]) => (
+          <Box key={label} style={{ marginBottom: '0.75rem' }}>
+            <Text size="2" color="gray" style={{ display: 'block' }}>
+              {label}:
+            </Text>
+            <Text weight="medium" style={{ fontFamily: 'monospace', fontSize: '0.875rem', wordBreak: 'break-all' }}>
+              {value}
+            </Text>
+          </Box>
+        ))}
+      </Card>
+
+      {error && (
+        <Callout.Root color="red" style={{ marginBottom: '1.5rem' }}>
+          <Callout.Icon>
+            <ExclamationTriangleIcon />
+          </Callout.Icon>
+          <Callout.Text>{error}</Callout.Text>
+        </Callout.Root>
+      )}
+
+      {/* Takers accept open orders */}
+      {order.status === 'pending' && !order.taker && !isMaker && (
+        <Button
+          size="3"
+          style={{ width: '100%' }}
+          onClick={handleAccept}
+          disabled={isAccepting || !account}
+          loading={isAccepting}
+          id="accept-order-btn"
+        >
+          {account ? 'Sign & Accept Order' : 'Connect your wallet'}
+        </Button>
+      )}
+
+      {/* The maker locks the SUI with the order's secret */}
+      {order.status === 'pending' && isMaker && (
+        <Card style={{ padding: '2rem' }}>
+          <form onSubmit={handleLock}>
+            <Text weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
+              🔒 Lock your SUI
+            </Text>
+            <Text size="2" color="gray" style={{ marginBottom: '1rem', display: 'block' }}>
+              {order.taker
+                ? `${formatAddress(order.taker)} accepted your order. Lock your SUI for them for 24 hours with the order's secret, then they lock the ETH.`
+                : 'No one accepted your order yet. Once a taker accepts it, lock your SUI for them with the order’s secret.'}
+            </Text>
+            <SecretInput
+              id="order-lock-secret"
+              secret={secret}
+              onChange={setSecret}
+              placeholder="The secret you used when posting the order"
+              commitment={order.hashCommitment}
+            />
+            <Button
+              type="submit"
+              size="3"
+              style={{ width: '100%', marginTop: '1rem' }}
+              disabled={isLocking || !order.taker || !verifySecret(secret, order.hashCommitment)}
+              loading={isLocking}
+              id="lock-order-btn"
+            >
+              {isLocking ? 'Locking...' : 'Lock SUI'}
+            </Button>
+          </form>
+        </Card>
+      )}
+
+      {order.status === 'locked' && order.escrowId && (
+        <Callout.Root color="orange">
+          <Callout.Text>
+            {isMaker
+              ? 'Your SUI is locked. Once the taker locked the ETH, reveal your secret on Ethereum to claim it.'
+              : `The maker locked the SUI. Lock ${Number(order.toAmount) / 10 ** CHAINS.ETHEREUM.decimals} ETH for ${order.toAddress} with the same hash commitment, with a safe deadline.`}{' '}
+            <Link to={`/claim/${order.escrowId}`}>View the escrow</Link>
+          </Callout.Text>
+        </Callout.Root>
+      )}
+
+      {order.status === 'claimed' && (
+        <Callout.Root color="green">
+          <Callout.Icon>
+            <CheckIcon />
+          </Callout.Icon>
+          <Callout.Text>
+            The swap was completed.
+            {order.secret && (
+              <>
+                {' '}Revealed secret: <code style={{ wordBreak: 'break-all' }}>0x{order.secret}</code>
+              </>
+            )}
+          </Callout.Text>
+        </Callout.Root>
+      )}
+
+      {order.status === 'refunded' && (
+        <Callout.Root color="gray">
+          <Callout.Text>The maker's escrow expired and was refunded.</Callout.Text>
+        </Callout.Root>
+      )}
+
+      {order.status === 'expired' && (
+        <Callout.Root color="red">
+          <Callout.Text>This order expired before the maker locked their SUI.</Callout.Text>
+        </Callout.Root>
+      )}
+
+      <Box style={{ textAlign: 'center', marginTop: '2rem' }}>
+        <Button asChild variant="outline">
+          <Link to="/orders">← Back to the Order Book</Link>
+        </Button>
+      </Box>
+    </Box>
+  )
+}
+
+export default OrderDetails
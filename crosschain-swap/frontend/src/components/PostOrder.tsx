@@ -0,0 +1,248 @@
+import { useState } from 'react'
+import { Box, Button, Card, Checkbox, Flex, Text, TextField, Select, Heading, Separator } from '@radix-ui/themes'
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { useNavigate } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { EncodedSecret, generateSecret, hashSecretHex, validateSecret } from '@escrow/sdk'
+import SecretInput from './SecretInput'
+import { usePostOrderMutation } from '../mutations/orders'
+import { ethAddressError, parseEthAmount, parseSuiAmount } from '../utils/validation'
+
+/** Downloads `secret` with the hashlock it commits to, as a JSON file. */
+const downloadSecret = (secret: EncodedSecret) => {
+  const hashlock = hashSecretHex(secret)
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify({ ...secret, hashlock: `0x${hashlock}` }, null, 2)], { type: 'application/json' }),
+  )
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `order-secret-${hashlock.slice(0, 8)}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Posts a signed swap intent to the order book: SUI offered for ETH, locked by the taker for an ETH receiver.
+ * The order's hashlock is the commitment of a secret the maker keeps, to lock & claim the swap later.
+ * Nothing stores the secret for the maker (the escrow app's vault lives on another origin), so the order
+ * can only be signed once they confirmed they copied or downloaded it.
+ */
+function PostOrder() {
+  const [amount, setAmount] = useState('')
+  const [ethAmount, setEthAmount] = useState('')
+  const [ethAddress, setEthAddress] = useState('')
+  const [expiryHours, setExpiryHours] = useState('24')
+  const [secret, setSecret] = useState<EncodedSecret>({ value: '', encoding: 'hex' })
+  // Whether the maker saved a copy of the current secret
+  const [secretSaved, setSecretSaved] = useState(false)
+  const account = useCurrentAccount()
+  const navigate = useNavigate()
+
+  const { mutateAsync: postOrder, isPending } = usePostOrderMutation()
+
+  const updateSecret = (secret: EncodedSecret) => {
+    setSecret(secret)
+    setSecretSaved(false)
+  }
+
+  const copySecret = async () => {
+    await navigator.clipboard.writeText(secret.value)
+    toast.success('Secret copied to clipboard!')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!secretSaved) return
+
+    try {
+      const order = await postOrder({
+        amount: String(parseSuiAmount(amount)),
+        ethAmount: String(parseEthAmount(ethAmount)),
+        ethReceiver: ethAddress,
+        hashlock: hashSecretHex(secret),
+        expiresAt: Date.now() + Number(expiryHours) * 60 * 60 * 1000,
+      })
+
+      toast.success('Order posted! Keep your secret safe, you need it to claim the ETH.')
+      navigate(`/orders/${order.id}`)
+    } catch (error) {
+      console.error('Failed to post order:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to post the order. Please try again.')
+    }
+  }
+
+  return (
+    <Box style={{ maxWidth: '600px', margin: '0 auto' }}>
+      <Box style={{ marginBottom: '2rem' }}>
+        <Heading size="6" style={{ marginBottom: '0.5rem' }}>
+          Post an Order
+        </Heading>
+        <Text color="gray">
+          Offer SUI for ETH on the order book. Your wallet signs the offer, nothing is locked yet
+        </Text>
+      </Box>
+
+      <Card style={{ padding: '2rem' }}>
+        <form onSubmit={handleSubmit}>
+          <Flex gap="3" style={{ marginBottom: '1.5rem' }}>
+            <Box style={{ flexGrow: 1 }}>
+              <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
+                You offer (SUI)
+              </Text>
+              <TextField.Root
+                id="order-amount"
+                name="amount"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="1"
+                type="number"
+                step="0.001"
+                min="0"
+                required
+              />
+            </Box>
+            <Box style={{ flexGrow: 1 }}>
+              <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
+                You ask (ETH)
+              </Text>
+              <TextField.Root
+                id="order-eth-amount"
+                name="ethAmount"
+                value={ethAmount}
+                onChange={(e) => setEthAmount(e.target.value)}
+                placeholder="0.001"
+                type="number"
+                step="0.000001"
+                min="0"
+                required
+              />
+            </Box>
+          </Flex>
+
+          <Box style={{ marginBottom: '1.5rem' }}>
+            <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
+              Ethereum Receiver Address
+            </Text>
+            <TextField.Root
+              id="order-eth-address"
+              name="ethAddress"
+              value={ethAddress}
+              onChange={(e) => setEthAddress(e.target.value)}
+              placeholder="0x742d35cc6635c0532925a3b8d0a9e2b9c2b6f5f1"
+              required
+            />
+            {ethAddress && ethAddressError(ethAddress) ? (
+              <Text size="2" color="red" style={{ marginTop: '0.25rem', display: 'block' }}>
+                {ethAddressError(ethAddress)}
+              </Text>
+            ) : (
+              <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
+                The Ethereum address the taker locks the ETH for
+              </Text>
+            )}
+          </Box>
+
+          <Box style={{ marginBottom: '1.5rem' }}>
+            <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
+              Order Expiry
+            </Text>
+            <Select.Root value={expiryHours} onValueChange={setExpiryHours}>
+              <Select.Trigger style={{ width: '100%' }} id="order-expiry" name="expiryHours" />
+              <Select.Content>
+                <Select.Item value="1">1 Hour</Select.Item>
+                <Select.Item value="6">6 Hours</Select.Item>
+                <Select.Item value="24">24 Hours</Select.Item>
+                <Select.Item value="72">72 Hours</Select.Item>
+                <Select.Item value="168">1 Week</Select.Item>
+              </Select.Content>
+            </Select.Root>
+            <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
+              The order leaves the book after this time if you haven't locked your SUI
+            </Text>
+          </Box>
+
+          <Separator style={{ margin: '1.5rem 0' }} />
+
+          <Box style={{ marginBottom: '2rem' }}>
+            <Text size="3" weight="medium" style={{ marginBottom: '0.5rem', display: 'block' }}>
+              Secret 🔒
+            </Text>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => updateSecret(generateSecret())}
+              style={{ marginBottom: '0.5rem' }}
+              id="order-generate-secret-btn"
+            >
+              Generate Random Secret
+            </Button>
+            <SecretInput
+              id="order-secret"
+              secret={secret}
+              onChange={updateSecret}
+              placeholder="Enter your secret (keep this safe!)"
+            />
+            <Flex gap="2" style={{ marginTop: '0.5rem' }}>
+              <Button
+                type="button"
+                variant="soft"
+                size="1"
+                onClick={copySecret}
+                disabled={!!validateSecret(secret)}
+                id="order-copy-secret-btn"
+              >
+                Copy Secret
+              </Button>
+              <Button
+                type="button"
+                variant="soft"
+                size="1"
+                onClick={() => downloadSecret(secret)}
+                disabled={!!validateSecret(secret)}
+                id="order-download-secret-btn"
+              >
+                Download Secret
+              </Button>
+            </Flex>
+            <Text size="2" color="gray" style={{ marginTop: '0.25rem', display: 'block' }}>
+              ⚠️ Only the hash of your secret is posted. Keep the secret safe: you need it to lock your SUI once a
+              taker accepts the order, and to claim their ETH.
+            </Text>
+            <Text as="label" size="2" style={{ marginTop: '0.75rem', display: 'block' }}>
+              <Flex gap="2" align="center">
+                <Checkbox
+                  id="order-secret-saved"
+                  checked={secretSaved}
+                  onCheckedChange={(checked) => setSecretSaved(checked === true)}
+                  disabled={!!validateSecret(secret)}
+                />
+                I copied or downloaded this secret. It can't be recovered if I lose it.
+              </Flex>
+            </Text>
+          </Box>
+
+          <Button
+            type="submit"
+            size="3"
+            style={{ width: '100%' }}
+            disabled={
+              isPending ||
+              !account ||
+              !amount ||
+              !ethAmount ||
+              !!validateSecret(secret) ||
+              !secretSaved ||
+              !!ethAddressError(ethAddress)
+            }
+            loading={isPending}
+            id="post-order-submit-btn"
+          >
+            {isPending ? 'Posting Order...' : account ? 'Sign & Post Order' : 'Connect your wallet'}
+          </Button>
+        </form>
+      </Card>
+    </Box>
+  )
+}
+
+export default PostOrder
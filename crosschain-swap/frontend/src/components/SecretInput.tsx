@@ -0,0 +1,70 @@
+import { Box, Flex, Select, Text, TextArea } from '@radix-ui/themes'
+import { EncodedSecret, hashSecretHex, SecretEncoding, validateSecret, verifySecret } from '@escrow/sdk'
+
+interface SecretInputProps {
+  id: string
+  secret: EncodedSecret
+  onChange: (secret: EncodedSecret) => void
+  placeholder?: string
+  // The commitment the secret must match (when claiming)
+  commitment?: string
+}
+
+/**
+ * A secret input with its encoding (text or hex), showing the keccak256 commitment
+ * of the secret, and whether it matches `commitment`, before anything is submitted on-chain.
+ */
+function SecretInput({ id, secret, onChange, placeholder, commitment }: SecretInputProps) {
+  const error = secret.value ? validateSecret(secret) : undefined
+
+  return (
+    <Box>
+      <Flex gap="2" align="start">
+        <Box style={{ flexGrow: 1 }}>
+          <TextArea
+            id={id}
+            name="secret"
+            value={secret.value}
+            onChange={(e) => onChange({ ...secret, value: e.target.value })}
+            placeholder={placeholder}
+            rows={3}
+            required
+          />
+        </Box>
+        <Select.Root
+          value={secret.encoding}
+          onValueChange={(encoding) => onChange({ ...secret, encoding: encoding as SecretEncoding })}
+        >
+          <Select.Trigger id={`${id}-encoding`} />
+          <Select.Content>
+            <Select.Item value="utf8">Text</Select.Item>
+            <Select.Item value="hex">Hex</Select.Item>
+          </Select.Content>
+        </Select.Root>
+      </Flex>
+
+      {secret.value && (error ? (
+        <Text size="2" color="red" style={{ marginTop: '0.25rem', display: 'block' }}>
+          {error}
+        </Text>
+      ) : (
+        <Box style={{ marginTop: '0.25rem' }}>
+          <Text size="1" color="gray" style={{ fontFamily: 'monospace', wordBreak: 'break-all', display: 'block' }}>
+            keccak256: 0x{hashSecretHex(secret)}
+          </Text>
+          {commitment && (verifySecret(secret, commitment) ? (
+            <Text size="2" color="green" style={{ display: 'block' }}>
+              ✓ The secret matches the hash commitment
+            </Text>
+          ) : (
+            <Text size="2" color="red" style={{ display: 'block' }}>
+              ✗ The secret doesn't match the hash commitment
+            </Text>
+          ))}
+        </Box>
+      ))}
+    </Box>
+  )
+}
+
+export default SecretInput
@@ -0,0 +1,149 @@
+import { useState } from 'react'
+import { Box, Callout, Card, Flex, Heading, Text, TextField } from '@radix-ui/themes'
+import { CheckIcon, ExclamationTriangleIcon } from '@radix-ui/react-icons'
+import { formatAddress } from '@mysten/sui/utils'
+import {
+  assessSwap,
+  lockPayee,
+  lockPayoutError,
+  planSwapDeadlines,
+  SwapOptions,
+  SwapPlan,
+  UnsafeSwapError,
+} from '@escrow/sdk'
+import { SWAP_OPTIONS } from '../constants/network'
+import { EscrowDetails } from '../types'
+
+interface SwapSafetyCheckProps {
+  // The Sui escrow (the maker's lock)
+  escrow: EscrowDetails
+  // The Sui address of the taker about to lock the ETH
+  taker: string
+}
+
+// `datetime-local` inputs use local time, without seconds
+const toDateTimeLocal = (timestamp: number) => {
+  const date = new Date(timestamp)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16)
+}
+
+/** The safe deadlines of an ETH lock mirroring an escrow, or why there are none. */
+const planMirrorLock = (deadline: Date, options: SwapOptions): { plan?: SwapPlan; error?: string } => {
+  try {
+    return { plan: planSwapDeadlines(deadline.getTime(), options) }
+  } catch (err) {
+    if (err instanceof UnsafeSwapError) return { error: err.message }
+    throw err
+  }
+}
+
+/**
+ * Checks the ETH lock a taker is about to create against the escrow, and shows whether it is safe to lock:
+ * the escrow must pay the taker once claimed, and the ETH lock must expire early enough that the taker can
+ * still claim the escrow once the secret is revealed on Ethereum.
+ */
+function SwapSafetyCheck({ escrow, taker }: SwapSafetyCheckProps) {
+  const [evmDeadline, setEvmDeadline] = useState('')
+
+  const { deadline } = escrow
+  const options: SwapOptions = { ...SWAP_OPTIONS, makerLockPayee: lockPayee(escrow, taker) }
+  const payoutError = lockPayoutError(options)
+  const { plan, error: planError } = planMirrorLock(deadline, options)
+
+  const takerDeadline = evmDeadline ? new Date(evmDeadline).getTime() : NaN
+  const verdict = Number.isNaN(takerDeadline)
+    ? undefined
+    : assessSwap({ makerDeadline: deadline.getTime(), takerDeadline }, options)
+
+  // No deadline makes the swap safe if the escrow never pays the taker
+  if (payoutError) {
+    return (
+      <Card style={{ padding: '1.5rem', marginTop: '1.5rem' }}>
+        <Heading size="4" style={{ marginBottom: '0.5rem' }}>
+          🛡️ Joining this swap?
+        </Heading>
+        <Callout.Root color="red">
+          <Callout.Icon>
+            <ExclamationTriangleIcon />
+          </Callout.Icon>
+          <Callout.Text>
+            Unsafe to lock: {payoutError}. This escrow pays {formatAddress(escrow.recipient)}, not you: don't lock
+            ETH for it.
+          </Callout.Text>
+        </Callout.Root>
+      </Card>
+    )
+  }
+
+  return (
+    <Card style={{ padding: '1.5rem', marginTop: '1.5rem' }}>
+      <Heading size="4" style={{ marginBottom: '0.5rem' }}>
+        🛡️ Joining this swap?
+      </Heading>
+      <Text size="2" color="gray" style={{ lineHeight: 1.5, marginBottom: '1rem', display: 'block' }}>
+        Your ETH lock must expire well before this escrow, so you can still claim it once the secret is revealed
+        on Ethereum.
+      </Text>
+
+      {plan ? (
+        <Text size="2" style={{ marginBottom: '1rem', display: 'block' }}>
+          Safe ETH lock deadlines: {new Date(plan.takerDeadline.earliest).toLocaleString()} to{' '}
+          <Text weight="medium">{new Date(plan.takerDeadline.latest).toLocaleString()}</Text>
+        </Text>
+      ) : (
+        <Callout.Root color="red" style={{ marginBottom: '1rem' }}>
+          <Callout.Icon>
+            <ExclamationTriangleIcon />
+          </Callout.Icon>
+          <Callout.Text>Unsafe to lock: {planError}</Callout.Text>
+        </Callout.Root>
+      )}
+
+      <Box style={{ marginBottom: verdict ? '1rem' : 0 }}>
+        <Flex align="center" justify="between" style={{ marginBottom: '0.5rem' }}>
+          <Text size="3" weight="medium">
+            Your ETH lock deadline
+          </Text>
+          {plan && (
+            <Text
+              size="2"
+              color="blue"
+              style={{ cursor: 'pointer' }}
+              onClick={() => setEvmDeadline(toDateTimeLocal(plan.takerDeadline.recommended))}
+            >
+              Use the latest safe deadline
+            </Text>
+          )}
+        </Flex>
+        <TextField.Root
+          id="evm-deadline"
+          name="evmDeadline"
+          type="datetime-local"
+          value={evmDeadline}
+          onChange={(e) => setEvmDeadline(e.target.value)}
+        />
+      </Box>
+
+      {verdict &&
+        (verdict.safe ? (
+          <Callout.Root color="green">
+            <Callout.Icon>
+              <CheckIcon />
+            </Callout.Icon>
+            <Callout.Text>Safe to lock: your ETH lock expires early enough before this escrow.</Callout.Text>
+          </Callout.Root>
+        ) : (
+          <Callout.Root color="red">
+            <Callout.Icon>
+              <ExclamationTriangleIcon />
+            </Callout.Icon>
+            <Callout.Text>
+              Unsafe to lock: {verdict.reasons.join('. ')}.
+            </Callout.Text>
+          </Callout.Root>
+        ))}
+    </Card>
+  )
+}
+
+export default SwapSafetyCheck
@@ -1,4 +1,5 @@
 import { getFullnodeUrl } from '@mysten/sui/client'
+import { SwapOptions } from '@escrow/sdk'
 
 export const networkConfig = {
   testnet: { url: getFullnodeUrl('testnet') },
@@ -29,4 +30,8 @@ export const CHAINS = {
   }
 } as const
 
+// Sui escrows are the maker's lock (the creator holds the secret), the ETH HTLC mirroring it is the taker's lock.
+// Escrows pay their recipient once claimed, the taker when the swap is set up as planned (see `lockPayee`)
+export const SWAP_OPTIONS: SwapOptions = { makerChain: 'sui', takerChain: 'evm', makerLockPayee: 'taker' }
+
 export const API_ENDPOINT = 'http://localhost:3003' 
\ No newline at end of file
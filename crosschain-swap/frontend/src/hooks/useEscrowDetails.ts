@@ -0,0 +1,101 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { SuiClient, SuiEvent, TransactionFilter } from '@mysten/sui/client'
+import { isValidSuiObjectId, normalizeSuiObjectId, toHex } from '@mysten/sui/utils'
+import { useQuery } from '@tanstack/react-query'
+import { CONTRACTS } from '../constants/network'
+import { EscrowDetails, EscrowKind } from '../types'
+
+// The fields of `SuiEscrow` & `ObjectEscrow<T>`, and of the `EscrowCreated` event
+type EscrowFields = {
+  hashlock: number[]
+  creator: string
+  recipient: string
+  eth_receiver: number[]
+  deadline: string
+  amount: string
+}
+
+const MODULE = `${CONTRACTS.PACKAGE_ID}::escrow`
+
+/** The kind of escrow of a Move type (and the type of its object), if it's an escrow. */
+export const parseEscrowType = (type: string): { kind: EscrowKind; itemType?: string } | undefined => {
+  if (type === `${MODULE}::SuiEscrow`) return { kind: 'sui' }
+  if (type.startsWith(`${MODULE}::ObjectEscrow<`) && type.endsWith('>')) {
+    return { kind: 'object', itemType: type.slice(`${MODULE}::ObjectEscrow<`.length, -1) }
+  }
+}
+
+const toDetails = (id: string, kind: EscrowKind, fields: EscrowFields) => ({
+  id,
+  kind,
+  amount: fields.amount,
+  ethAddress: `0x${toHex(Uint8Array.from(fields.eth_receiver))}`,
+  hashCommitment: toHex(Uint8Array.from(fields.hashlock)),
+  deadline: new Date(Number(fields.deadline)),
+  creator: fields.creator,
+  recipient: fields.recipient,
+})
+
+const isEscrowEvent = (event: SuiEvent, id: string, name: string) =>
+  event.type === `${MODULE}::${name}` && (event.parsedJson as { escrow_id?: string })?.escrow_id === id
+
+/**
+ * Loads an escrow that no longer exists from the transactions that created & deleted it:
+ * it was either claimed (`PreimageRevealed`) or refunded (`EscrowRefunded`).
+ */
+const loadDeletedEscrow = async (client: SuiClient, id: string): Promise<EscrowDetails | null> => {
+  // The escrow is created by a transaction, and is an input of the one deleting it
+  const pages = await Promise.all(
+    ([{ ChangedObject: id }, { InputObject: id }] as TransactionFilter[]).map((filter) =>
+      client.queryTransactionBlocks({ filter, options: { showEvents: true } }),
+    ),
+  )
+  const events = pages.flatMap((page) => page.data).flatMap((tx) => tx.events ?? [])
+
+  const created = events.find((event) => isEscrowEvent(event, id, 'EscrowCreated'))
+  const claimed = events.find((event) => isEscrowEvent(event, id, 'PreimageRevealed'))
+  const refunded = events.find((event) => isEscrowEvent(event, id, 'EscrowRefunded'))
+  if (!created || (!claimed && !refunded)) return null
+
+  const fields = created.parsedJson as EscrowFields & { item_id: string }
+  const { preimage, claimer } = (claimed?.parsedJson ?? {}) as { preimage?: number[]; claimer?: string }
+
+  return {
+    ...toDetails(id, normalizeSuiObjectId(fields.item_id) === normalizeSuiObjectId('0x0') ? 'sui' : 'object', fields),
+    status: claimed ? 'claimed' : 'refunded',
+    preimage,
+    claimer,
+    txDigest: (claimed ?? refunded)!.id.txDigest,
+  }
+}
+
+/**
+ * Loads a `SuiEscrow` or `ObjectEscrow<T>` from chain, with its status: `active` until its `deadline`,
+ * then `expired` (refundable), or `claimed` / `refunded` once it was deleted.
+ * Resolves to `null` when `escrowId` isn't an escrow.
+ */
+export function useEscrowDetails(escrowId: string) {
+  const client = useSuiClient()
+  const id = isValidSuiObjectId(escrowId) ? normalizeSuiObjectId(escrowId) : undefined
+
+  return useQuery({
+    queryKey: ['escrow', id],
+    enabled: !!escrowId,
+    queryFn: async (): Promise<EscrowDetails | null> => {
+      if (!id) throw new Error('Invalid escrow ID')
+
+      const object = await client.getObject({ id, options: { showType: true, showContent: true } })
+      if (object.error?.code === 'deleted') return loadDeletedEscrow(client, id)
+
+      const escrowType = object.data?.type ? parseEscrowType(object.data.type) : undefined
+      if (!escrowType || object.data?.content?.dataType !== 'moveObject') return null
+
+      const details = toDetails(id, escrowType.kind, object.data.content.fields as unknown as EscrowFields)
+      return {
+        ...details,
+        itemType: escrowType.itemType,
+        status: details.deadline.getTime() < Date.now() ? 'expired' : 'active',
+      }
+    },
+  })
+}
@@ -0,0 +1,62 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
+import { API_ENDPOINT } from '../constants/network'
+import { CrossChainSwapOrder, SwapQuote } from '../types'
+
+// The open orders of the book, or the orders a Sui address posted or accepted
+export type OrdersFilter = { book: true } | { maker: string } | { taker: string }
+
+const PAGE_SIZE = 20
+
+type OrdersPage = {
+  data: CrossChainSwapOrder[]
+  cursor?: number
+}
+
+const fetchApi = async <T>(path: string, errorMessage: string): Promise<T> => {
+  const res = await fetch(`${API_ENDPOINT}${path}`)
+  const body = await res.json()
+  if (!res.ok) throw new Error(body.message ?? errorMessage)
+  return body
+}
+
+const filterParams = (filter: OrdersFilter): Record<string, string> =>
+  'book' in filter ? { status: 'pending', accepted: 'false' } : filter
+
+/**
+ * Loads the orders matching `filter` from the cross-chain swap API, one page at a time.
+ * Disabled until `filter` is set.
+ */
+export function useOrders(filter?: OrdersFilter) {
+  return useInfiniteQuery({
+    queryKey: ['orders', filter],
+    enabled: !!filter,
+    initialPageParam: undefined as number | undefined,
+    queryFn: async ({ pageParam }): Promise<OrdersPage> => {
+      const params = new URLSearchParams({ ...filterParams(filter!), limit: String(PAGE_SIZE) })
+      if (pageParam !== undefined) params.set('cursor', String(pageParam))
+
+      return fetchApi(`/orders?${params}`, 'Failed to load orders')
+    },
+    getNextPageParam: (lastPage) => (lastPage.data.length === PAGE_SIZE ? lastPage.cursor : undefined),
+  })
+}
+
+/** Loads an order of the book, refreshing it while the indexer moves it along. */
+export function useOrder(orderId?: string) {
+  return useQuery({
+    queryKey: ['order', orderId],
+    enabled: !!orderId,
+    queryFn: () => fetchApi<CrossChainSwapOrder>(`/orders/${orderId}`, 'Failed to load the order'),
+    refetchInterval: 5000,
+  })
+}
+
+/** Quotes buying `amount` MIST from the open orders of the book. Disabled until `amount` is set. */
+export function useOrderQuote(amount?: bigint) {
+  return useQuery({
+    queryKey: ['order-quote', amount?.toString()],
+    enabled: !!amount,
+    queryFn: () => fetchApi<SwapQuote>(`/orders/quote?amount=${amount}`, 'Failed to quote'),
+    retry: false,
+  })
+}
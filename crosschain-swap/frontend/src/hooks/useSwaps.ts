@@ -0,0 +1,35 @@
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { API_ENDPOINT } from '../constants/network'
+import { IndexedSwap } from '../types'
+
+// Lists the swaps created by a Sui address or paying it, or sent to an Ethereum address
+export type SwapsFilter = { creator: string } | { recipient: string } | { ethReceiver: string }
+
+const PAGE_SIZE = 20
+
+type SwapsPage = {
+  data: IndexedSwap[]
+  cursor?: number
+}
+
+/**
+ * Loads the swaps matching `filter` from the cross-chain swap API, one page at a time.
+ * Disabled until `filter` is set.
+ */
+export function useSwaps(filter?: SwapsFilter) {
+  return useInfiniteQuery({
+    queryKey: ['swaps', filter],
+    enabled: !!filter,
+    initialPageParam: undefined as number | undefined,
+    queryFn: async ({ pageParam }): Promise<SwapsPage> => {
+      const params = new URLSearchParams({ ...filter, limit: String(PAGE_SIZE) })
+      if (pageParam !== undefined) params.set('cursor', String(pageParam))
+
+      const res = await fetch(`${API_ENDPOINT}/swaps?${params}`)
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.message ?? 'Failed to load swaps')
+      return body
+    },
+    getNextPageParam: (lastPage) => (lastPage.data.length === PAGE_SIZE ? lastPage.cursor : undefined),
+  })
+}
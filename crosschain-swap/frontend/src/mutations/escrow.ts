@@ -0,0 +1,187 @@
+import { useTransactionExecution } from '../hooks/useTransactionExecution'
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SuiObjectData, SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+import { SUI_CLOCK_OBJECT_ID } from '@mysten/sui/utils'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { EncodedSecret, hashSecret, secretToBytes, verifySecret } from '@escrow/sdk'
+import { CONTRACTS } from '../constants/network'
+import { EscrowDetails } from '../types'
+import { checkDeadline, parseEthAddress, parseSuiAddress } from '../utils/validation'
+
+type CreateEscrowParams = {
+  secret: EncodedSecret
+  ethAddress: string
+  // The Sui address paid once the escrow is claimed (the counterparty)
+  recipient: string
+  // A ms timestamp
+  deadline: number
+}
+
+/** The ID of the escrow created by a transaction (a shared `SuiEscrow` or `ObjectEscrow<T>`). */
+const getCreatedEscrowId = (res: SuiTransactionBlockResponse) => {
+  const created = res.objectChanges?.find(
+    (change) =>
+      change.type === 'created' &&
+      (change.objectType.startsWith(`${CONTRACTS.PACKAGE_ID}::escrow::SuiEscrow`) ||
+        change.objectType.startsWith(`${CONTRACTS.PACKAGE_ID}::escrow::ObjectEscrow<`)),
+  )
+  return created?.type === 'created' ? created.objectId : undefined
+}
+
+/** The `hashlock`, `eth_receiver`, `recipient` & `deadline` arguments, validated like the contract does. */
+const escrowArguments = (txb: Transaction, { secret, ethAddress, recipient, deadline }: CreateEscrowParams) => [
+  txb.pure.vector('u8', Array.from(hashSecret(secret))),
+  txb.pure.vector('u8', parseEthAddress(ethAddress)),
+  txb.pure.address(parseSuiAddress(recipient)),
+  txb.pure.u64(checkDeadline(deadline)),
+]
+
+/**
+ * Locks SUI for a cross-chain swap (`escrow::setup_escrow`), with a coin split from the gas coin.
+ * Returns the ID of the created escrow.
+ */
+export function useCreateSuiEscrowMutation() {
+  const account = useCurrentAccount()
+  const executeTransaction = useTransactionExecution()
+
+  return useMutation({
+    mutationFn: async ({ amount, ...params }: CreateEscrowParams & { amount: bigint }) => {
+      if (!account?.address) throw new Error('You need to connect your wallet!')
+
+      const txb = new Transaction()
+      const [coin] = txb.splitCoins(txb.gas, [txb.pure.u64(amount)])
+
+      txb.moveCall({
+        target: `${CONTRACTS.PACKAGE_ID}::escrow::setup_escrow`,
+        arguments: [
+          txb.object(CONTRACTS.ESCROW_FACTORY),
+          coin,
+          txb.pure.u64(amount),
+          ...escrowArguments(txb, params),
+          txb.object(SUI_CLOCK_OBJECT_ID),
+        ],
+      })
+
+      const res = await executeTransaction(txb)
+      if (!res) throw new Error('The escrow was not created.')
+      return getCreatedEscrowId(res)
+    },
+  })
+}
+
+/**
+ * Locks an object (NFT, game item...) for a cross-chain swap (`escrow::create_object_escrow<T>`).
+ * Returns the ID of the created escrow.
+ */
+export function useCreateObjectEscrowMutation() {
+  const account = useCurrentAccount()
+  const executeTransaction = useTransactionExecution()
+
+  return useMutation({
+    mutationFn: async ({ object, ...params }: CreateEscrowParams & { object: SuiObjectData }) => {
+      if (!account?.address) throw new Error('You need to connect your wallet!')
+      if (!object.type) throw new Error('The object type is unknown.')
+
+      const txb = new Transaction()
+      txb.moveCall({
+        target: `${CONTRACTS.PACKAGE_ID}::escrow::create_object_escrow`,
+        arguments: [txb.object(object.objectId), ...escrowArguments(txb, params), txb.object(SUI_CLOCK_OBJECT_ID)],
+        typeArguments: [object.type],
+      })
+
+      const res = await executeTransaction(txb)
+      if (!res) throw new Error('The escrow was not created.')
+      return getCreatedEscrowId(res)
+    },
+  })
+}
+
+/**
+ * Claims an escrow by revealing its secret (`escrow::claim_escrow` or `escrow::claim_object_escrow<T>`).
+ * The secret is checked against the escrow's hashlock first, so a wrong one never reaches the wallet.
+ * Anyone can claim: the assets always go to the escrow's recipient.
+ */
+export function useClaimEscrowMutation() {
+  const account = useCurrentAccount()
+  const executeTransaction = useTransactionExecution()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ escrow, secret }: { escrow: EscrowDetails; secret: EncodedSecret }) => {
+      if (!account?.address) throw new Error('You need to connect your wallet!')
+      if (escrow.status !== 'active') throw new Error(`The escrow is ${escrow.status}.`)
+      if (!verifySecret(secret, escrow.hashCommitment)) {
+        throw new Error('Invalid secret. The secret does not match the hash commitment.')
+      }
+
+      const txb = new Transaction()
+      const preimage = txb.pure.vector('u8', Array.from(secretToBytes(secret)))
+
+      if (escrow.kind === 'sui') {
+        txb.moveCall({
+          target: `${CONTRACTS.PACKAGE_ID}::escrow::claim_escrow`,
+          arguments: [
+            txb.object(CONTRACTS.ESCROW_FACTORY),
+            txb.object(escrow.id),
+            preimage,
+            txb.object(SUI_CLOCK_OBJECT_ID),
+          ],
+        })
+      } else {
+        txb.moveCall({
+          target: `${CONTRACTS.PACKAGE_ID}::escrow::claim_object_escrow`,
+          arguments: [txb.object(escrow.id), preimage, txb.object(SUI_CLOCK_OBJECT_ID)],
+          typeArguments: [escrow.itemType!],
+        })
+      }
+
+      const res = await executeTransaction(txb)
+      if (!res) throw new Error('The escrow was not claimed.')
+      return res
+    },
+    onSuccess: (_, { escrow }) => {
+      queryClient.invalidateQueries({ queryKey: ['escrow', escrow.id] })
+    },
+  })
+}
+
+/**
+ * Refunds an expired escrow to its creator (`escrow::refund_escrow` or `escrow::refund_object_escrow<T>`).
+ */
+export function useRefundEscrowMutation() {
+  const account = useCurrentAccount()
+  const executeTransaction = useTransactionExecution()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ escrow }: { escrow: EscrowDetails }) => {
+      if (!account?.address) throw new Error('You need to connect your wallet!')
+      if (escrow.creator !== account.address) throw new Error('Only the creator can refund the escrow.')
+      if (escrow.deadline.getTime() >= Date.now()) throw new Error('The deadline has not passed yet.')
+
+      const txb = new Transaction()
+
+      if (escrow.kind === 'sui') {
+        txb.moveCall({
+          target: `${CONTRACTS.PACKAGE_ID}::escrow::refund_escrow`,
+          arguments: [txb.object(CONTRACTS.ESCROW_FACTORY), txb.object(escrow.id), txb.object(SUI_CLOCK_OBJECT_ID)],
+        })
+      } else {
+        const item = txb.moveCall({
+          target: `${CONTRACTS.PACKAGE_ID}::escrow::refund_object_escrow`,
+          arguments: [txb.object(escrow.id), txb.object(SUI_CLOCK_OBJECT_ID)],
+          typeArguments: [escrow.itemType!],
+        })
+        txb.transferObjects([item], txb.pure.address(account.address))
+      }
+
+      const res = await executeTransaction(txb)
+      if (!res) throw new Error('The escrow was not refunded.')
+      return res
+    },
+    onSuccess: (_, { escrow }) => {
+      queryClient.invalidateQueries({ queryKey: ['escrow', escrow.id] })
+    },
+  })
+}
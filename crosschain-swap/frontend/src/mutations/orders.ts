@@ -0,0 +1,69 @@
+import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { orderAcceptanceMessage, SwapIntent, swapIntentError, swapIntentMessage } from '@escrow/sdk'
+import { API_ENDPOINT } from '../constants/network'
+import { CrossChainSwapOrder } from '../types'
+
+const postApi = async (path: string, body: unknown, errorMessage: string): Promise<CrossChainSwapOrder> => {
+  const res = await fetch(`${API_ENDPOINT}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.message ?? errorMessage)
+  return data
+}
+
+/**
+ * Posts a swap intent to the order book, signed with the wallet (a personal message, see `swapIntentMessage`).
+ * Returns the created order.
+ */
+export function usePostOrderMutation() {
+  const account = useCurrentAccount()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: Omit<SwapIntent, 'maker'>) => {
+      if (!account?.address) throw new Error('You need to connect your wallet!')
+
+      const intent = { ...params, maker: account.address }
+      const error = swapIntentError(intent)
+      if (error) throw new Error(error)
+
+      const { signature } = await signPersonalMessage({
+        message: new TextEncoder().encode(swapIntentMessage(intent)),
+      })
+      return postApi('/orders', { intent, signature }, 'Failed to post the order')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+    },
+  })
+}
+
+/** Accepts an order of the book as the taker, signed with the wallet (see `orderAcceptanceMessage`). */
+export function useAcceptOrderMutation() {
+  const account = useCurrentAccount()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ order }: { order: CrossChainSwapOrder }) => {
+      if (!account?.address) throw new Error('You need to connect your wallet!')
+      if (order.fromAddress === account.address) throw new Error('You cannot accept your own order.')
+
+      const { signature } = await signPersonalMessage({
+        message: new TextEncoder().encode(
+          orderAcceptanceMessage({ orderId: Number(order.id), hashlock: order.hashCommitment, taker: account.address }),
+        ),
+      })
+      return postApi(`/orders/${order.id}/accept`, { taker: account.address, signature }, 'Failed to accept the order')
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.setQueryData(['order', order.id], order)
+    },
+  })
+}
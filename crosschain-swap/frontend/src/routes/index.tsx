@@ -4,6 +4,9 @@ import HomePage from '../components/HomePage'
 import CreateSwap from '../components/CreateSwap'
 import MySwaps from '../components/MySwaps'
 import ClaimSwap from '../components/ClaimSwap'
+import OrderBook from '../components/OrderBook'
+import PostOrder from '../components/PostOrder'
+import OrderDetails from '../components/OrderDetails'
 
 export const router = createBrowserRouter([
   {
@@ -26,6 +29,18 @@ export const router = createBrowserRouter([
         path: 'claim/:escrowId?',
         element: <ClaimSwap />,
       },
+      {
+        path: 'orders',
+        element: <OrderBook />,
+      },
+      {
+        path: 'orders/new',
+        element: <PostOrder />,
+      },
+      {
+        path: 'orders/:orderId',
+        element: <OrderDetails />,
+      },
     ],
   },
 ]) 
\ No newline at end of file
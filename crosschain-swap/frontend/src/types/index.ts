@@ -1,30 +1,96 @@
 // Cross-chain swap types
+// An order of the order book, as served by the cross-chain swap API (`GET /orders`):
+// the maker offers `fromAmount` MIST for `toAmount` wei, locked for `toAddress`
 export interface CrossChainSwapOrder {
   id: string
   fromChain: 'SUI' | 'ETHEREUM'
   toChain: 'SUI' | 'ETHEREUM'
   fromAmount: string
   toAmount: string
+  // The maker's Sui address, and the Ethereum address receiving the ETH
   fromAddress: string
   toAddress: string
+  // keccak256 of the maker's secret (hex, without `0x`)
   hashCommitment: string
+  // The revealed secret (hex, without `0x`), once claimed
   secret?: string
+  // When the order leaves the book (ms timestamp)
   deadline: number
+  // `pending` on the book, `locked` once the maker's escrow exists, then `claimed` or `refunded`
   status: 'pending' | 'locked' | 'claimed' | 'refunded' | 'expired'
   createdAt: number
+  // The latest transaction of the maker's escrow
   txHash?: string
+  // The taker's Sui address & when they accepted the order
+  taker?: string
+  acceptedAt?: number
+  escrowId?: string
 }
 
+export type OrderStatus = CrossChainSwapOrder['status']
+
 // Sui escrow types
 export interface SuiEscrow {
   id: string
   hashlock: number[]
   creator: string
+  recipient: string
   ethReceiver: number[]
   deadline: number
   amount: number
 }
 
+// An escrow of the `crosschain_htlc::escrow` module, as loaded from chain
+export type EscrowKind = 'sui' | 'object'
+
+export type EscrowStatus = 'active' | 'expired' | 'claimed' | 'refunded'
+
+export interface EscrowDetails {
+  id: string
+  kind: EscrowKind
+  // The type of the escrowed object (`ObjectEscrow<T>` only, while the escrow exists)
+  itemType?: string
+  // In MIST for SUI escrows, always 1 for objects
+  amount: string
+  ethAddress: string
+  // keccak256 of the secret (hex, without `0x`)
+  hashCommitment: string
+  deadline: Date
+  status: EscrowStatus
+  creator: string
+  // The Sui address paid once the escrow is claimed, whoever claims it
+  recipient: string
+  // Once claimed
+  preimage?: number[]
+  claimer?: string
+  txDigest?: string
+}
+
+// A swap as indexed & served by the cross-chain swap API (`crosschain-swap/api`)
+export interface IndexedSwap {
+  // The pagination cursor of the API
+  id: number
+  escrowId: string
+  kind: EscrowKind | null
+  itemId: string | null
+  creator: string | null
+  recipient: string | null
+  ethReceiver: string | null
+  // keccak256 of the secret (hex, without `0x`)
+  hashlock: string | null
+  amount: string | null
+  // ISO dates
+  deadline: string | null
+  status: EscrowStatus
+  // The revealed secret (hex, without `0x`), once claimed
+  preimage: string | null
+  claimer: string | null
+  createdAt: string | null
+  completedAt: string | null
+  createdTxDigest: string | null
+  completedTxDigest: string | null
+}
+
 export interface EscrowEvent {
   escrowId: string
   type: 'created' | 'claimed' | 'refunded'
@@ -57,10 +123,15 @@ export interface ApiResponse<T> {
   error?: string
 }
 
+// A quote for buying SUI from the order book (`GET /orders/quote`), in MIST & wei
 export interface SwapQuote {
   fromAmount: string
   toAmount: string
+  // ETH per SUI
   rate: number
+  // How much more the quote costs per SUI than the cheapest order (0.01 is 1%)
   priceImpact: number
+  // When the first of the quoted orders expires (ms timestamp)
   deadline: number
+  orderIds: string[]
 } 
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { keccak256 } from 'js-sha3'
+import { CHAINS } from '../constants/network'
+
+/**
+ * Client-side checks mirroring the aborts of `crosschain_htlc::escrow`,
+ * so invalid swaps are rejected before they reach the wallet.
+ */
+
+// Deadlines must still be in the future when the transaction executes (`EInvalidDeadline`)
+export const MIN_DEADLINE_MARGIN_MS = 60 * 1000
+
+/**
+ * Why `address` isn't a valid 20-byte Ethereum address (`EInvalidEthAddress`), if it isn't.
+ * Mixed-case addresses must have a valid EIP-55 checksum.
+ */
+export const ethAddressError = (address: string) => {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return 'The ETH receiver must be a 20-byte hex address (0x + 40 hex characters)'
+  }
+
+  const hex = address.slice(2)
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return
+
+  const hash = keccak256(hex.toLowerCase())
+  const isChecksummed = [...hex].every(
+    (char, i) =>
+      /[0-9]/.test(char) || (parseInt(hash[i], 16) >= 8 ? char === char.toUpperCase() : char === char.toLowerCase()),
+  )
+  if (!isChecksummed) return 'The ETH receiver has an invalid checksum'
+}
+
+/** Parses an Ethereum address to its 20 bytes, throwing if it's invalid (see `ethAddressError`). */
+export const parseEthAddress = (address: string): number[] => {
+  const error = ethAddressError(address)
+  if (error) throw new Error(error)
+
+  return address.slice(2).match(/../g)!.map((byte) => parseInt(byte, 16))
+}
+
+/** Why `address` isn't a Sui address (e.g. the recipient of an escrow), if it isn't. */
+export const suiAddressError = (address: string) => {
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(address)) return 'The recipient must be a Sui address (0x + up to 64 hex characters)'
+}
+
+/** Parses a Sui address to its normalized form, throwing if it's invalid (see `suiAddressError`). */
+export const parseSuiAddress = (address: string) => {
+  const error = suiAddressError(address)
+  if (error) throw new Error(error)
+
+  return normalizeSuiAddress(address)
+}
+
+/** Checks a deadline (ms timestamp) is far enough in the future (`EInvalidDeadline`). */
+export const checkDeadline = (deadline: number) => {
+  if (!Number.isSafeInteger(deadline) || deadline <= Date.now() + MIN_DEADLINE_MARGIN_MS) {
+    throw new Error('The deadline must be in the future')
+  }
+  return deadline
+}
+
+/** Parses a decimal amount of a chain's token (e.g. `0.1`) to its base units, without floating point rounding. */
+const parseAmount = (amount: string, chain: (typeof CHAINS)[keyof typeof CHAINS]): bigint => {
+  const match = amount.trim().match(/^(\d*)(?:\.(\d*))?$/)
+  const decimals = chain.decimals
+  if (!match || (!match[1] && !match[2]) || (match[2]?.length ?? 0) > decimals) {
+    throw new Error(`Invalid ${chain.symbol} amount (max ${decimals} decimals)`)
+  }
+
+  const units = BigInt(match[1] || '0') * 10n ** BigInt(decimals) + BigInt((match[2] ?? '').padEnd(decimals, '0') || '0')
+  if (units < BigInt(chain.minAmount)) {
+    throw new Error(`The minimum amount is ${chain.minAmount / 10 ** decimals} ${chain.symbol}`)
+  }
+  return units
+}
+
+/** Parses a SUI amount (e.g. `0.1`) to MIST. */
+export const parseSuiAmount = (amount: string) => parseAmount(amount, CHAINS.SUI)
+
+/** Parses an ETH amount (e.g. `0.01`) to wei. */
+export const parseEthAmount = (amount: string) => parseAmount(amount, CHAINS.ETHEREUM)
@@ -7,7 +7,10 @@ export default defineConfig({
   plugins: [react()],
   resolve: {
     alias: {
+      '@escrow/sdk': path.resolve(__dirname, '../../api/sdk'),
       '@': path.resolve(__dirname, './src'),
     },
+    // The SDK lives in `api/`, make it use this app's copies of its dependencies.
+    dedupe: ['@mysten/sui', 'js-sha3'],
   },
 }) 
\ No newline at end of file
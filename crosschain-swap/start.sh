@@ -128,8 +128,8 @@ echo "1. 📱 Start the frontend:"
 echo "   cd frontend && pnpm dev"
 echo "   Then visit: http://localhost:3002"
 echo ""
-echo "2. 👁️  Monitor events (in a new terminal):"
-echo "   cd api && npm run dev"
+echo "2. 👁️  Start the indexer & swaps API (in a new terminal):"
+echo "   cd api && npm run db:setup:dev && npm run dev"
 echo ""
 echo "3. 🧪 Test claiming with these secrets:"
 echo "   • demo_secret_1_32_bytes_length!!! (1 SUI)"
@@ -6,6 +6,7 @@ import { ConnectButton } from "@mysten/dapp-kit";
 import { SizeIcon } from "@radix-ui/react-icons";
 import { Box, Button, Container, Flex, Heading } from "@radix-ui/themes";
 import { NavLink } from "react-router-dom";
+import { SecretVaultDialog } from "./vault/SecretVaultDialog";
 
 const menu = [
   {
@@ -67,6 +68,10 @@ export function Header() {
           </Button>
         </Box>
 
+        <Box>
+          <SecretVaultDialog />
+        </Box>
+
         <Box className="connect-wallet-wrapper">
           <ConnectButton />
         </Box>
@@ -0,0 +1,98 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import {
+  EncodedSecret,
+  generateSecret,
+  hashSecretHex,
+  SecretEncoding,
+  validateSecret,
+  verifySecret,
+} from "@escrow/sdk";
+import { Button, Flex, Select, Text, TextField } from "@radix-ui/themes";
+import { newSecretError } from "@/utils/secret";
+
+/**
+ * A secret input, with its encoding (text or hex), which shows the keccak256
+ * commitment of the secret before anything is submitted on-chain.
+ *
+ * With a `commitment`, it checks the secret against it (to reveal a secret).
+ * Without one, it checks the secret can be used for a new hashlock, and offers
+ * to generate a random secret.
+ */
+export function SecretField({
+  secret,
+  onChange,
+  commitment,
+  placeholder,
+  disabled,
+}: {
+  secret: EncodedSecret;
+  onChange: (secret: EncodedSecret) => void;
+  commitment?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}) {
+  const error = commitment ? validateSecret(secret) : newSecretError(secret);
+
+  return (
+    <div className="space-y-1">
+      <Flex gap="2">
+        <TextField.Root
+          className="flex-grow"
+          type="password"
+          placeholder={placeholder ?? "Secret"}
+          value={secret.value}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...secret, value: e.target.value })}
+        />
+        <Select.Root
+          value={secret.encoding}
+          disabled={disabled}
+          onValueChange={(encoding) =>
+            onChange({ ...secret, encoding: encoding as SecretEncoding })
+          }
+        >
+          <Select.Trigger />
+          <Select.Content>
+            <Select.Item value="utf8">Text</Select.Item>
+            <Select.Item value="hex">Hex</Select.Item>
+          </Select.Content>
+        </Select.Root>
+        {!commitment && (
+          <Button
+            variant="soft"
+            className="cursor-pointer"
+            disabled={disabled}
+            onClick={() => onChange(generateSecret())}
+          >
+            Generate
+          </Button>
+        )}
+      </Flex>
+
+      {secret.value &&
+        (error ? (
+          <Text as="p" size="1" color="red">
+            {error}
+          </Text>
+        ) : (
+          <>
+            <Text as="p" size="1" color="gray" className="font-mono break-all">
+              keccak256: 0x{hashSecretHex(secret)}
+            </Text>
+            {commitment &&
+              (verifySecret(secret, commitment) ? (
+                <Text as="p" size="1" color="green">
+                  ✓ The secret matches the commitment.
+                </Text>
+              ) : (
+                <Text as="p" size="1" color="red">
+                  ✗ The secret doesn't match the commitment (0x
+                  {commitment.replace(/^0x/, "")}).
+                </Text>
+              ))}
+          </>
+        ))}
+    </div>
+  );
+}
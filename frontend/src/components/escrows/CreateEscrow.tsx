@@ -1,6 +1,6 @@
 // Copyright (c) Mysten Labs, Inc.
 // SPDX-License-Identifier: Apache-2.0
-import { ApiLockedObject } from "@/types/types";
+import { LockedSummary } from "@/types/types";
 import { useCurrentAccount, useSuiClientInfiniteQuery } from "@mysten/dapp-kit";
 import { formatAddress } from "@mysten/sui/utils";
 import { Avatar, Button, Select } from "@radix-ui/themes";
@@ -14,7 +14,7 @@ import { useCreateEscrowMutation } from "@/mutations/escrow";
  * It fetches all the objects owned by the connected wallet address and allows the user to
  * select one to put on escrow.
  */
-export function CreateEscrow({ locked }: { locked: ApiLockedObject }) {
+export function CreateEscrow({ locked }: { locked: LockedSummary }) {
   const [objectId, setObjectId] = useState<string>("");
   const account = useCurrentAccount();
 
@@ -1,6 +1,6 @@
 // Copyright (c) Mysten Labs, Inc.
 // SPDX-License-Identifier: Apache-2.0
-import { ApiLockedObject } from "@/types/types";
+import { LockedSummary } from "@/types/types";
 import { useCurrentAccount, useSuiClientInfiniteQuery } from "@mysten/dapp-kit";
 import { formatAddress } from "@mysten/sui/utils";
 import { Avatar, Button, Select, TextField, Flex, Text, Card, Badge } from "@radix-ui/themes";
@@ -8,16 +8,20 @@ import { InfiniteScrollArea } from "@/components/InfiniteScrollArea";
 import { useState } from "react";
 import { ExplorerLink } from "../ExplorerLink";
 import { useCreateHashlockEscrowMutation } from "@/mutations/hashlock";
+import { useSecretVault } from "@/hooks/useSecretVault";
+import { SecretField } from "@/components/SecretField";
+import { EMPTY_SECRET, newSecretError } from "@/utils/secret";
 
 /**
  * A component that allows the user to create a hashlock escrow for a locked object.
  * This includes setting a secret and timeout for cross-chain atomic swaps.
  */
-export function CreateHashlockEscrow({ locked }: { locked: ApiLockedObject }) {
+export function CreateHashlockEscrow({ locked }: { locked: LockedSummary }) {
   const [objectId, setObjectId] = useState<string>("");
-  const [secret, setSecret] = useState<string>("");
+  const [secret, setSecret] = useState(EMPTY_SECRET);
   const [timeoutHours, setTimeoutHours] = useState<number>(24); // Default 24 hours
   const account = useCurrentAccount();
+  const vault = useSecretVault();
 
   const { mutate: createHashlockEscrowMutation, isPending } = useCreateHashlockEscrowMutation();
 
@@ -52,7 +56,12 @@ export function CreateHashlockEscrow({ locked }: { locked: ApiLockedObject }) {
   };
 
   const isFormValid = () => {
-    return objectId && secret.length >= 8 && timeoutHours > 0;
+    return (
+      objectId &&
+      !newSecretError(secret) &&
+      timeoutHours > 0 &&
+      vault.status === "unlocked"
+    );
   };
 
   return (
@@ -68,16 +77,17 @@ export function CreateHashlockEscrow({ locked }: { locked: ApiLockedObject }) {
         <div className="space-y-3">
           <div>
             <Text as="label" size="2" weight="medium">
-              Secret (min 8 characters)
+              Secret (a generated one, or text of min 8 characters)
             </Text>
-            <TextField.Root
+            <SecretField
+              secret={secret}
+              onChange={setSecret}
               placeholder="Enter your secret for the hashlock"
-              value={secret}
-              onChange={(e) => setSecret(e.target.value)}
-              type="password"
             />
-            <Text size="1" color="gray">
-              This secret will be required to claim the escrowed item. Keep it safe!
+            <Text size="1" color={vault.status === "unlocked" ? "gray" : "red"}>
+              {vault.status === "unlocked"
+                ? "This secret will be required to claim the escrowed item. It's saved, encrypted, in your secret vault."
+                : "Unlock your secret vault (\"Secrets\" in the header) to save the secret before creating the escrow."}
             </Text>
           </div>
 
@@ -200,7 +210,7 @@ export function CreateHashlockEscrow({ locked }: { locked: ApiLockedObject }) {
                   onSuccess: () => {
                     refetch();
                     setObjectId("");
-                    setSecret("");
+                    setSecret(EMPTY_SECRET);
                     setTimeoutHours(24);
                   },
                 },
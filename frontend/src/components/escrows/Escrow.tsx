@@ -2,7 +2,7 @@
 // SPDX-License-Identifier: Apache-2.0
 import { useCurrentAccount, useSuiClientQuery } from "@mysten/dapp-kit";
 import { SuiObjectDisplay } from "@/components/SuiObjectDisplay";
-import { Button, TextField, Text, Badge, Card, Flex } from "@radix-ui/themes";
+import { Button, Text, Badge, Card, Flex } from "@radix-ui/themes";
 import {
   ArrowDownIcon,
   ArrowUpIcon,
@@ -10,17 +10,22 @@ import {
   Cross1Icon,
   LockClosedIcon,
 } from "@radix-ui/react-icons";
-import { CONSTANTS, QueryKey } from "@/constants";
+import { QueryKey } from "@/constants";
 import { ExplorerLink } from "../ExplorerLink";
 import { useQuery } from "@tanstack/react-query";
 import { useState } from "react";
 import { ApiEscrowObject } from "@/types/types";
+import { apiClient } from "@/utils/api";
 import {
   useAcceptEscrowMutation,
   useCancelEscrowMutation,
 } from "@/mutations/escrow";
 import { useRevealSecretMutation } from "@/mutations/hashlock";
 import { useGetLockedObject } from "@/hooks/useGetLockedObject";
+import { useSecretVault } from "@/hooks/useSecretVault";
+import { SecretField } from "@/components/SecretField";
+import { EMPTY_SECRET } from "@/utils/secret";
+import { verifySecret } from "@escrow/sdk";
 import { LockedObject } from "../locked/LockedObject";
 
 /**
@@ -30,8 +35,10 @@ import { LockedObject } from "../locked/LockedObject";
 export function Escrow({ escrow }: { escrow: ApiEscrowObject }) {
   const account = useCurrentAccount();
   const [isToggled, setIsToggled] = useState(true);
-  const [secret, setSecret] = useState<string>("");
+  const [secret, setSecret] = useState(EMPTY_SECRET);
   const [showSecretInput, setShowSecretInput] = useState(false);
+  const [isVaultSecret, setIsVaultSecret] = useState(false);
+  const vault = useSecretVault();
   
   const { mutate: acceptEscrowMutation, isPending } = useAcceptEscrowMutation();
   const { mutate: cancelEscrowMutation, isPending: pendingCancellation } =
@@ -40,27 +47,35 @@ export function Escrow({ escrow }: { escrow: ApiEscrowObject }) {
     useRevealSecretMutation();
 
   const suiObject = useSuiClientQuery("getObject", {
-    id: escrow?.itemId,
+    id: escrow.itemId!,
     options: {
       showDisplay: true,
       showType: true,
     },
   });
 
-  const lockedData = useQuery({
+  const { data: locked } = useQuery({
     queryKey: [QueryKey.Locked, escrow.keyId],
-    queryFn: async () => {
-      const res = await fetch(
-        `${CONSTANTS.apiEndpoint}locked?keyId=${escrow.keyId}`,
-      );
-      return res.json();
-    },
-    select: (data) => data.data[0],
+    queryFn: async () => apiClient.getEscrow(escrow.objectId),
+    select: (data) => data.locked ?? undefined,
     enabled: !escrow.cancelled,
   });
 
+  // Fills in the secret from the vault, when this escrow was created with a saved secret
+  const showSecret = async () => {
+    setShowSecretInput(true);
+    if (vault.status !== "unlocked") return;
+    const saved = await vault.find({
+      objectId: escrow.objectId,
+      hashCommitment: escrow.hashCommitment ?? undefined,
+    });
+    if (!saved) return;
+    setSecret(saved.secret);
+    setIsVaultSecret(true);
+  };
+
   const { data: suiLockedObject } = useGetLockedObject({
-    lockedId: lockedData.data?.objectId,
+    lockedId: locked?.objectId ?? "",
   });
 
   const getLabel = () => {
@@ -146,17 +161,17 @@ export function Escrow({ escrow }: { escrow: ApiEscrowObject }) {
               Cancel request
             </Button>
           )}
-        {isToggled && lockedData.data && (
+        {isToggled && locked && (
           <div className="min-w-[340px] w-full justify-self-start text-left">
             {suiLockedObject?.data && (
               <LockedObject
                 object={suiLockedObject.data}
-                itemId={lockedData.data.itemId}
+                itemId={locked.itemId ?? undefined}
                 hideControls
               />
             )}
 
-            {!lockedData.data.deleted &&
+            {!locked.deleted &&
               escrow.recipient === account?.address && (
                 <div className="mt-5">
                   {escrow.isHashlock ? (
@@ -187,7 +202,7 @@ export function Escrow({ escrow }: { escrow: ApiEscrowObject }) {
                             <div className="text-right">
                               <Button
                                 className="cursor-pointer"
-                                onClick={() => setShowSecretInput(true)}
+                                onClick={showSecret}
                               >
                                 <LockClosedIcon /> Reveal Secret
                               </Button>
@@ -198,39 +213,60 @@ export function Escrow({ escrow }: { escrow: ApiEscrowObject }) {
                                 <Text as="label" size="2" weight="medium">
                                   Enter Secret:
                                 </Text>
-                                <TextField.Root
-                                  type="password"
+                                <SecretField
+                                  secret={secret}
+                                  commitment={escrow.hashCommitment ?? undefined}
                                   placeholder="Enter the secret to claim this escrow"
-                                  value={secret}
-                                  onChange={(e) => setSecret(e.target.value)}
+                                  onChange={(secret) => {
+                                    setSecret(secret);
+                                    setIsVaultSecret(false);
+                                  }}
                                 />
+                                {isVaultSecret ? (
+                                  <Text size="1" color="green">
+                                    Filled in from your secret vault.
+                                  </Text>
+                                ) : (
+                                  vault.status !== "unlocked" && (
+                                    <Text size="1" color="gray">
+                                      Unlock your secret vault to fill in a
+                                      saved secret.
+                                    </Text>
+                                  )
+                                )}
                               </div>
                               <div className="flex gap-2 justify-end">
                                 <Button
                                   variant="soft"
                                   onClick={() => {
                                     setShowSecretInput(false);
-                                    setSecret("");
+                                    setSecret(EMPTY_SECRET);
+                                    setIsVaultSecret(false);
                                   }}
                                 >
                                   Cancel
                                 </Button>
                                 <Button
                                   className="cursor-pointer"
-                                  disabled={pendingSecretReveal || !secret}
+                                  disabled={
+                                    pendingSecretReveal ||
+                                    !escrow.hashCommitment ||
+                                    !verifySecret(secret, escrow.hashCommitment)
+                                  }
                                   onClick={() => {
                                     console.log("Reveal & Claim button clicked");
-                                    console.log("Data being passed:", { escrow, locked: lockedData.data, secret });
+                                    console.log("Data being passed:", { escrow, locked });
                                     
                                     revealSecretMutation({
                                       escrow,
-                                      locked: lockedData.data,
+                                      locked,
                                       secret,
                                     }, {
                                       onSuccess: () => {
                                         console.log("Reveal secret succeeded");
-                                        setSecret("");
+                                        setSecret(EMPTY_SECRET);
                                         setShowSecretInput(false);
+                                        setIsVaultSecret(false);
                                       },
                                       onError: (error) => {
                                         console.error("Reveal secret failed:", error);
@@ -269,7 +305,7 @@ export function Escrow({ escrow }: { escrow: ApiEscrowObject }) {
                         onClick={() =>
                           acceptEscrowMutation({
                             escrow,
-                            locked: lockedData.data,
+                            locked,
                           })
                         }
                       >
@@ -279,7 +315,7 @@ export function Escrow({ escrow }: { escrow: ApiEscrowObject }) {
                   )}
                 </div>
               )}
-            {lockedData.data.deleted &&
+            {locked.deleted &&
               !escrow.swapped &&
               escrow.recipient === account?.address && (
                 <div>
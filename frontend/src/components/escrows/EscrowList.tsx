@@ -2,11 +2,12 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { useInfiniteQuery } from "@tanstack/react-query";
-import { CONSTANTS, QueryKey } from "@/constants";
+import { QueryKey } from "@/constants";
 import { Escrow } from "./Escrow";
 import { InfiniteScrollArea } from "@/components/InfiniteScrollArea";
-import { constructUrlSearchParams, getNextPageParam } from "@/utils/helpers";
-import { ApiEscrowObject, EscrowListingQuery } from "@/types/types";
+import { getNextPageParam } from "@/utils/helpers";
+import { apiClient } from "@/utils/api";
+import { EscrowListingQuery } from "@/types/types";
 import { useState } from "react";
 import { TextField } from "@radix-ui/themes";
 
@@ -28,18 +29,12 @@ export function EscrowList({
     useInfiniteQuery({
       initialPageParam: null,
       queryKey: [QueryKey.Escrow, params, escrowId],
-      queryFn: async ({ pageParam }) => {
-        const data = await fetch(
-          CONSTANTS.apiEndpoint +
-            "escrows" +
-            constructUrlSearchParams({
-              ...params,
-              ...(pageParam ? { cursor: pageParam as string } : {}),
-              ...(escrowId ? { objectId: escrowId } : {}),
-            }),
-        );
-        return data.json();
-      },
+      queryFn: async ({ pageParam }) =>
+        apiClient.getEscrows({
+          ...params,
+          ...(pageParam ? { cursor: pageParam as string } : {}),
+          ...(escrowId ? { objectId: escrowId } : {}),
+        }),
       select: (data) => data.pages.flatMap((page) => page.data),
       getNextPageParam,
     });
@@ -58,7 +53,7 @@ export function EscrowList({
         hasNextPage={hasNextPage}
         loading={isFetchingNextPage || isLoading}
       >
-        {data?.map((escrow: ApiEscrowObject) => (
+        {data?.map((escrow) => (
           <Escrow key={escrow.itemId} escrow={escrow} />
         ))}
       </InfiniteScrollArea>
@@ -4,8 +4,9 @@
 import { useInfiniteQuery } from "@tanstack/react-query";
 import { CONSTANTS, QueryKey } from "@/constants";
 import { InfiniteScrollArea } from "@/components/InfiniteScrollArea";
-import { ApiLockedObject, LockedListingQuery } from "@/types/types";
-import { constructUrlSearchParams, getNextPageParam } from "@/utils/helpers";
+import { LockedListingQuery } from "@/types/types";
+import { getNextPageParam } from "@/utils/helpers";
+import { apiClient } from "@/utils/api";
 import { useSuiClient } from "@mysten/dapp-kit";
 import { TextField } from "@radix-ui/themes";
 import { useState } from "react";
@@ -43,24 +44,18 @@ export function LockedList({
         /*
          * Fetch the locked objects from the API.
          */
-        const data = await (
-          await fetch(
-            CONSTANTS.apiEndpoint +
-              "locked" +
-              constructUrlSearchParams({
-                deleted: "false",
-                ...(pageParam ? { cursor: pageParam as string } : {}),
-                ...(params || {}),
-              }),
-          )
-        ).json();
+        const data = await apiClient.getLocked({
+          deleted: "false",
+          ...(pageParam ? { cursor: pageParam as string } : {}),
+          ...(params || {}),
+        });
 
         /*
          * Use the objectIds from the API to fetch the on-chain state. This is done to ensure that
          * the ownership of each object is up-to-date.
          */
         const objects = await suiClient.multiGetObjects({
-          ids: data.data.map((x: ApiLockedObject) => x.objectId),
+          ids: data.data.map((x) => x.objectId),
           options: {
             showOwner: true,
             showContent: true,
@@ -120,7 +115,7 @@ export function LockedList({
           <LockedObject
             key={object!.objectId}
             object={object!}
-            itemId={getItemId(object!.objectId)}
+            itemId={getItemId(object!.objectId) ?? undefined}
           />
         ))}
       </InfiniteScrollArea>
@@ -2,12 +2,15 @@
 // SPDX-License-Identifier: Apache-2.0
 import { useCurrentAccount, useSuiClientInfiniteQuery } from "@mysten/dapp-kit";
 import { SuiObjectDisplay } from "@/components/SuiObjectDisplay";
-import { Button, TextField } from "@radix-ui/themes";
+import { Button } from "@radix-ui/themes";
 import { LockClosedIcon } from "@radix-ui/react-icons";
 import { InfiniteScrollArea } from "@/components/InfiniteScrollArea";
 // import { useLockObjectMutation } from "@/mutations/locked";
 import { useState } from "react";
 import { useCreateHashlockMutation } from "@/mutations/hashlock";
+import { useSecretVault } from "@/hooks/useSecretVault";
+import { SecretField } from "@/components/SecretField";
+import { EMPTY_SECRET, newSecretError } from "@/utils/secret";
 
 /**
  * A component that fetches all the objects owned by the connected wallet address
@@ -16,6 +19,7 @@ import { useCreateHashlockMutation } from "@/mutations/hashlock";
 export function LockOwnedObjects() {
   const account = useCurrentAccount();
   const { mutate: lockObjectMutation, isPending } = useCreateHashlockMutation();
+  const vault = useSecretVault();
   // Changed: Use Map to store secrets per object ID
   const [secrets, setSecrets] = useState(new Map());
   
@@ -53,7 +57,7 @@ export function LockOwnedObjects() {
 
   // Helper function to get secret for specific object
   const getSecret = (objectId) => {
-    return secrets.get(objectId) || "";
+    return secrets.get(objectId) ?? EMPTY_SECRET;
   };
 
   // Helper function to clear secret for specific object
@@ -78,16 +82,24 @@ export function LockOwnedObjects() {
         return (
           <SuiObjectDisplay key={objectId} object={obj.data!}>
             <div className="p-4 pt-1 text-right flex items-center justify-end">
-              <div className="flex items-center gap-2">
-                <TextField.Root
-                  placeholder="Secret"
-                  value={currentSecret}
-                  onChange={(e) => updateSecret(objectId, e.target.value)}
+              <div className="flex items-start gap-2">
+                <SecretField
+                  secret={currentSecret}
+                  onChange={(secret) => updateSecret(objectId, secret)}
                   disabled={isPending}
                 />
                 <Button
                   className="cursor-pointer"
-                  disabled={isPending || !currentSecret.trim()}
+                  title={
+                    vault.status === "unlocked"
+                      ? undefined
+                      : "Unlock your secret vault first"
+                  }
+                  disabled={
+                    isPending ||
+                    !!newSecretError(currentSecret) ||
+                    vault.status !== "unlocked"
+                  }
                   onClick={() => {
                     lockObjectMutation(
                       { 
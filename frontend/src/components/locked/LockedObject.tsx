@@ -71,7 +71,7 @@ export function LockedObject({
         itemId: itemId || suiObjectId.data?.objectId!,
         objectId: object.objectId,
         keyId: getKeyId(object),
-        creator: owner(),
+        creator: owner() ?? null,
         deleted: false,
       }}
       hideControls={hideControls}
@@ -11,7 +11,7 @@ import {
 } from "@radix-ui/react-icons";
 import { ExplorerLink } from "../../ExplorerLink";
 import { useState } from "react";
-import { ApiLockedObject } from "@/types/types";
+import { LockedSummary } from "@/types/types";
 import { CreateEscrow } from "../../escrows/CreateEscrow";
 import { CreateHashlockEscrow } from "../../escrows/CreateHashlockEscrow";
 // import { useUnlockMutation } from "@/mutations/locked";
@@ -28,7 +28,7 @@ export function Locked({
   locked,
   hideControls,
 }: {
-  locked: ApiLockedObject;
+  locked: LockedSummary;
   hideControls?: boolean;
 }) {
   const [isToggled, setIsToggled] = useState(false);
@@ -39,7 +39,7 @@ export function Locked({
   const suiObject = useSuiClientQuery(
     "getObject",
     {
-      id: locked.itemId,
+      id: locked.itemId!,
       options: {
         showDisplay: true,
         showType: true,
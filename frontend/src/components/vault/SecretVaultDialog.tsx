@@ -0,0 +1,257 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Badge,
+  Button,
+  Dialog,
+  Flex,
+  Separator,
+  Text,
+  TextField,
+} from "@radix-ui/themes";
+import { LockClosedIcon, LockOpen1Icon } from "@radix-ui/react-icons";
+import toast from "react-hot-toast";
+import { QueryKey } from "@/constants";
+import { useSecretVault } from "@/hooks/useSecretVault";
+import { VaultBackup } from "@/utils/secretVault";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/** Runs a vault action, reporting its failure. */
+const run = async (action: () => Promise<unknown>) => {
+  try {
+    await action();
+  } catch (e: any) {
+    toast.error(e.message as string);
+  }
+};
+
+const downloadBackup = (backup: VaultBackup) => {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `escrow-secrets-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * A dialog to set up, unlock, back up & restore the secret vault.
+ */
+export function SecretVaultDialog() {
+  const vault = useSecretVault();
+  const [passphrase, setPassphrase] = useState("");
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  const { data: count, refetch: refetchCount } = useQuery({
+    queryKey: [QueryKey.SecretVault, "count", vault.status],
+    queryFn: vault.count,
+    enabled: vault.status === "unlocked",
+  });
+
+  const act = async (action: () => Promise<unknown>) => {
+    setIsPending(true);
+    await run(action);
+    setIsPending(false);
+    setPassphrase("");
+  };
+
+  const isValidPassphrase = (value: string) =>
+    value.length >= MIN_PASSPHRASE_LENGTH;
+
+  return (
+    <Dialog.Root>
+      <Dialog.Trigger>
+        <Button variant="soft" className="cursor-pointer">
+          {vault.status === "unlocked" ? <LockOpen1Icon /> : <LockClosedIcon />}
+          Secrets
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Content maxWidth="480px">
+        <Dialog.Title>
+          <Flex align="center" gap="2">
+            Secret vault
+            {vault.status === "unlocked" && (
+              <Badge color="green">Unlocked</Badge>
+            )}
+            {vault.status === "locked" && <Badge color="gray">Locked</Badge>}
+          </Flex>
+        </Dialog.Title>
+        <Dialog.Description size="2" color="gray" mb="4">
+          Your hashlock secrets are encrypted & saved in this browser, so you
+          can reveal them later. Back them up to use them on another device.
+        </Dialog.Description>
+
+        {vault.status === "missing" && (
+          <Flex direction="column" gap="3">
+            <Text size="2">
+              Protect the vault with a passphrase (min {MIN_PASSPHRASE_LENGTH}{" "}
+              characters), or with a signature of your wallet.
+            </Text>
+            <TextField.Root
+              type="password"
+              placeholder="Passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            <Flex gap="2" justify="end">
+              <Button
+                variant="soft"
+                className="cursor-pointer"
+                disabled={isPending}
+                onClick={() => act(() => vault.create())}
+              >
+                Use wallet signature
+              </Button>
+              <Button
+                className="cursor-pointer"
+                disabled={isPending || !isValidPassphrase(passphrase)}
+                onClick={() => act(() => vault.create(passphrase))}
+              >
+                Create with passphrase
+              </Button>
+            </Flex>
+          </Flex>
+        )}
+
+        {vault.status === "locked" && (
+          <Flex direction="column" gap="3">
+            {vault.source === "passphrase" ? (
+              <>
+                <TextField.Root
+                  type="password"
+                  placeholder="Passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                />
+                <Flex justify="end">
+                  <Button
+                    className="cursor-pointer"
+                    disabled={isPending || !passphrase}
+                    onClick={() => act(() => vault.unlock(passphrase))}
+                  >
+                    <LockOpen1Icon /> Unlock
+                  </Button>
+                </Flex>
+              </>
+            ) : (
+              <Flex justify="end">
+                <Button
+                  className="cursor-pointer"
+                  disabled={isPending}
+                  onClick={() => act(() => vault.unlock())}
+                >
+                  <LockOpen1Icon /> Unlock with wallet
+                </Button>
+              </Flex>
+            )}
+            <Separator size="4" />
+            <Flex justify="between" align="center">
+              <Text size="1" color="gray">
+                Lost your passphrase or wallet? Resetting deletes every secret.
+              </Text>
+              <Button
+                color="red"
+                variant="soft"
+                className="cursor-pointer"
+                disabled={isPending}
+                onClick={() => {
+                  if (
+                    window.confirm(
+                      "Delete the vault and all its secrets? This can't be undone.",
+                    )
+                  )
+                    act(vault.reset);
+                }}
+              >
+                Reset
+              </Button>
+            </Flex>
+          </Flex>
+        )}
+
+        {vault.status === "unlocked" && (
+          <Flex direction="column" gap="3">
+            <Flex justify="between" align="center">
+              <Text size="2">{count ?? 0} secret(s) saved</Text>
+              <Button
+                variant="soft"
+                className="cursor-pointer"
+                onClick={vault.lock}
+              >
+                <LockClosedIcon /> Lock
+              </Button>
+            </Flex>
+
+            <Separator size="4" />
+            <Text size="2" weight="medium">
+              Backups
+            </Text>
+            <Text size="1" color="gray">
+              Backups are encrypted with their own passphrase (min{" "}
+              {MIN_PASSPHRASE_LENGTH} characters).
+            </Text>
+            <TextField.Root
+              type="password"
+              placeholder="Backup passphrase"
+              value={backupPassphrase}
+              onChange={(e) => setBackupPassphrase(e.target.value)}
+            />
+            <input
+              type="file"
+              accept="application/json"
+              className="text-sm"
+              onChange={(e) => setBackupFile(e.target.files?.[0] ?? null)}
+            />
+            <Flex gap="2" justify="end">
+              <Button
+                variant="soft"
+                className="cursor-pointer"
+                disabled={isPending || !backupFile || !backupPassphrase}
+                onClick={() =>
+                  act(async () => {
+                    const backup = JSON.parse(await backupFile!.text());
+                    const imported = await vault.importBackup(
+                      backup,
+                      backupPassphrase,
+                    );
+                    toast.success(`Imported ${imported} secret(s).`);
+                    await refetchCount();
+                  })
+                }
+              >
+                Import backup
+              </Button>
+              <Button
+                className="cursor-pointer"
+                disabled={isPending || !isValidPassphrase(backupPassphrase)}
+                onClick={() =>
+                  act(async () =>
+                    downloadBackup(await vault.exportBackup(backupPassphrase)),
+                  )
+                }
+              >
+                Export backup
+              </Button>
+            </Flex>
+          </Flex>
+        )}
+
+        <Flex justify="end" mt="4">
+          <Dialog.Close>
+            <Button variant="ghost" color="gray" className="cursor-pointer">
+              Close
+            </Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
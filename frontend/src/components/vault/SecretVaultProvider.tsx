@@ -0,0 +1,93 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { ReactNode, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useCurrentAccount, useSignPersonalMessage } from "@mysten/dapp-kit";
+import { QueryKey } from "@/constants";
+import { SecretVault, SecretVaultContext } from "@/hooks/useSecretVault";
+import {
+  countSecrets,
+  createVault,
+  deleteVault,
+  exportSecrets,
+  findSecret,
+  getVaultMeta,
+  importSecrets,
+  saveSecret,
+  setSecretObjectId,
+  unlockVault,
+  VAULT_SIGNATURE_MESSAGE,
+} from "@/utils/secretVault";
+
+/**
+ * Provides the secret vault to the app. The vault key is only kept in memory,
+ * so the vault is locked again when the page is reloaded.
+ */
+export function SecretVaultProvider({ children }: { children: ReactNode }) {
+  const account = useCurrentAccount();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const [key, setKey] = useState<CryptoKey | null>(null);
+
+  const { data: meta, refetch } = useQuery({
+    queryKey: [QueryKey.SecretVault],
+    queryFn: async () => (await getVaultMeta()) ?? null,
+  });
+
+  const vault = useMemo<SecretVault>(() => {
+    const getKey = () => {
+      if (!key) throw new Error("Unlock your secret vault first!");
+      return key;
+    };
+
+    const sign = async () => {
+      if (!account?.address)
+        throw new Error("You need to connect your wallet!");
+      const { signature } = await signPersonalMessage({
+        message: new TextEncoder().encode(VAULT_SIGNATURE_MESSAGE),
+      });
+      return signature;
+    };
+
+    return {
+      status:
+        meta === undefined
+          ? "loading"
+          : meta === null
+            ? "missing"
+            : key
+              ? "unlocked"
+              : "locked",
+      source: meta?.source,
+      address: meta?.address,
+      create: async (passphrase) => {
+        const key = passphrase
+          ? await createVault("passphrase", passphrase)
+          : await createVault("wallet", await sign(), account?.address);
+        setKey(key);
+        await refetch();
+      },
+      unlock: async (passphrase) => {
+        setKey(await unlockVault(passphrase ?? (await sign())));
+      },
+      lock: () => setKey(null),
+      reset: async () => {
+        await deleteVault();
+        setKey(null);
+        await refetch();
+      },
+      save: (entry) => saveSecret(getKey(), entry),
+      setObjectId: setSecretObjectId,
+      find: (query) => findSecret(getKey(), query),
+      count: countSecrets,
+      exportBackup: (passphrase) => exportSecrets(getKey(), passphrase),
+      importBackup: (backup, passphrase) =>
+        importSecrets(getKey(), backup, passphrase),
+    };
+  }, [meta, key, account?.address, signPersonalMessage, refetch]);
+
+  return (
+    <SecretVaultContext.Provider value={vault}>
+      {children}
+    </SecretVaultContext.Provider>
+  );
+}
@@ -11,6 +11,7 @@ export enum QueryKey {
   Locked = "locked",
   Escrow = "escrow",
   GetOwnedObjects = "getOwnedObjects",
+  SecretVault = "secretVault",
 }
 
 export const CONSTANTS = {
@@ -0,0 +1,47 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CONSTANTS, QueryKey } from "@/constants";
+import { constructUrlSearchParams } from "@/utils/helpers";
+import { ApiChangeNotification } from "@/types/types";
+
+/**
+ * Subscribes to the API's change stream and invalidates the matching
+ * queries as soon as the indexer has committed an update.
+ * Notifications can be narrowed down to an `address` or an `objectId`.
+ */
+export function useIndexerUpdates({
+  address,
+  objectId,
+}: {
+  address?: string;
+  objectId?: string;
+}) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const params: Record<string, string> = {};
+    if (address) params.address = address;
+    if (objectId) params.objectId = objectId;
+
+    const source = new EventSource(
+      CONSTANTS.apiEndpoint + "stream" + constructUrlSearchParams(params),
+    );
+
+    source.addEventListener("change", (event) => {
+      const notification = JSON.parse(
+        (event as MessageEvent).data,
+      ) as ApiChangeNotification;
+
+      queryClient.invalidateQueries({
+        queryKey: [
+          notification.table === "escrow" ? QueryKey.Escrow : QueryKey.Locked,
+        ],
+      });
+    });
+
+    return () => source.close();
+  }, [address, objectId, queryClient]);
+}
@@ -0,0 +1,53 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { createContext, useContext } from "react";
+import { EncodedSecret } from "@escrow/sdk";
+import {
+  SecretKind,
+  VaultBackup,
+  VaultKeySource,
+  VaultSecret,
+} from "@/utils/secretVault";
+
+export type SecretVaultStatus = "loading" | "missing" | "locked" | "unlocked";
+
+export type SecretVault = {
+  status: SecretVaultStatus;
+  // How the vault key is derived (once the vault exists)
+  source?: VaultKeySource;
+  // The wallet unlocking the vault (`wallet` vaults only)
+  address?: string;
+  /** Creates the vault. Without a passphrase, the key is derived from a wallet signature. */
+  create: (passphrase?: string) => Promise<void>;
+  /** Unlocks the vault, with its passphrase or a wallet signature. */
+  unlock: (passphrase?: string) => Promise<void>;
+  lock: () => void;
+  reset: () => Promise<void>;
+  /** Saves a secret (before its transaction is executed). Returns its hash commitment. */
+  save: (entry: {
+    secret: EncodedSecret;
+    kind: SecretKind;
+    objectId?: string;
+  }) => Promise<string>;
+  /** Records the created escrow / hashlock of a saved secret. */
+  setObjectId: (hashCommitment: string, objectId: string) => Promise<void>;
+  find: (query: {
+    objectId?: string;
+    hashCommitment?: string;
+  }) => Promise<VaultSecret | undefined>;
+  count: () => Promise<number>;
+  exportBackup: (passphrase: string) => Promise<VaultBackup>;
+  importBackup: (backup: VaultBackup, passphrase: string) => Promise<number>;
+};
+
+export const SecretVaultContext = createContext<SecretVault | null>(null);
+
+/**
+ * The client-side vault storing hashlock secrets (see `SecretVaultProvider`).
+ */
+export function useSecretVault() {
+  const vault = useContext(SecretVaultContext);
+  if (!vault)
+    throw new Error("useSecretVault must be used within SecretVaultProvider");
+  return vault;
+}
@@ -1,12 +1,17 @@
 // Copyright (c) Mysten Labs, Inc.
 // SPDX-License-Identifier: Apache-2.0
-import { CONSTANTS, QueryKey } from "@/constants";
+import { CONSTANTS } from "@/constants";
 import { useTransactionExecution } from "@/hooks/useTransactionExecution";
-import { ApiEscrowObject, ApiLockedObject } from "@/types/types";
+import {
+  ApiEscrowObject,
+  ApiLockedObject,
+  LockedSummary,
+} from "@/types/types";
+import { hashlockShared, shared } from "@escrow/sdk";
 import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
 import { SuiObjectData } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 
 /**
  * Builds and executes the PTB to create an escrow.
@@ -21,21 +26,22 @@ export function useCreateEscrowMutation() {
       locked,
     }: {
       object: SuiObjectData;
-      locked: ApiLockedObject;
+      locked: LockedSummary;
     }) => {
       if (!currentAccount?.address)
         throw new Error("You need to connect your wallet!");
 
       const txb = new Transaction();
-      txb.moveCall({
-        target: `${CONSTANTS.escrowContract.packageId}::shared::create`,
-        arguments: [
-          txb.object(object.objectId!),
-          txb.pure.id(locked.keyId),
-          txb.pure.address(locked.creator!),
-        ],
-        typeArguments: [object.type!],
-      });
+      shared.create(
+        txb,
+        CONSTANTS.escrowContract.packageId,
+        {
+          escrowed: object.objectId,
+          exchangeKey: locked.keyId!,
+          recipient: locked.creator!,
+        },
+        object.type!,
+      );
 
       return executeTransaction(txb);
     },
@@ -48,7 +54,6 @@ export function useCreateEscrowMutation() {
 export function useCancelEscrowMutation() {
   const currentAccount = useCurrentAccount();
   const executeTransaction = useTransactionExecution();
-  const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({
@@ -62,29 +67,25 @@ export function useCancelEscrowMutation() {
         throw new Error("You need to connect your wallet!");
       const txb = new Transaction();
 
-      // Choose the correct function based on escrow type
-      const targetFunction = escrow.isHashlock 
-        ? `${CONSTANTS.escrowContract.packageId}::hashlock_shared::return_to_sender`
-        : `${CONSTANTS.escrowContract.packageId}::shared::return_to_sender`;
+      // Choose the correct module based on escrow type
+      const returnToSender = escrow.isHashlock
+        ? hashlockShared.returnToSender
+        : shared.returnToSender;
 
-      const item = txb.moveCall({
-        target: targetFunction,
-        arguments: escrow.isHashlock 
-          ? [txb.object(escrow.objectId), txb.object('0x6')] // Clock for hashlock
-          : [txb.object(escrow.objectId)], // No clock for regular escrow
-        typeArguments: [suiObject?.type!],
-      });
+      const item = returnToSender(
+        txb,
+        CONSTANTS.escrowContract.packageId,
+        { escrow: escrow.objectId },
+        suiObject.type!,
+      );
 
       txb.transferObjects([item], txb.pure.address(currentAccount?.address!));
 
       return executeTransaction(txb);
     },
 
-    onSuccess: () => {
-      setTimeout(() => {
-        queryClient.invalidateQueries({ queryKey: [QueryKey.Escrow] });
-      }, 1_000);
-    },
+    // The `Escrow` queries are invalidated by `useIndexerUpdates`
+    // once the indexer has picked up the change.
   });
 }
 
@@ -95,7 +96,6 @@ export function useAcceptEscrowMutation() {
   const currentAccount = useCurrentAccount();
   const client = useSuiClient();
   const executeTransaction = useTransactionExecution();
-  const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({
@@ -109,44 +109,44 @@ export function useAcceptEscrowMutation() {
         throw new Error("You need to connect your wallet!");
       const txb = new Transaction();
 
-      const escrowObject = await client.multiGetObjects({
-        ids: [escrow.itemId, locked.itemId],
-        options: {
-          showType: true,
-        },
-      });
-
-      const escrowType = escrowObject.find(
-        (x) => x.data?.objectId === escrow.itemId,
-      )?.data?.type;
+      let escrowType = escrow.itemType;
+      let lockedType = locked.itemType;
 
-      const lockedType = escrowObject.find(
-        (x) => x.data?.objectId === locked.itemId,
-      )?.data?.type;
+      // The indexer stores the item types, we only fetch them if they haven't been resolved yet.
+      if (!escrowType || !lockedType) {
+        const escrowObject = await client.multiGetObjects({
+          ids: [escrow.itemId!, locked.itemId!],
+          options: {
+            showType: true,
+          },
+        });
+
+        escrowType ??= escrowObject.find(
+          (x) => x.data?.objectId === escrow.itemId,
+        )?.data?.type ?? null;
+
+        lockedType ??= escrowObject.find(
+          (x) => x.data?.objectId === locked.itemId,
+        )?.data?.type ?? null;
+      }
 
       if (!escrowType || !lockedType) {
         throw new Error("Failed to fetch types.");
       }
 
-      const item = txb.moveCall({
-        target: `${CONSTANTS.escrowContract.packageId}::shared::swap`,
-        arguments: [
-          txb.object(escrow.objectId),
-          txb.object(escrow.keyId),
-          txb.object(locked.objectId),
-        ],
-        typeArguments: [escrowType, lockedType],
-      });
+      const item = shared.swap(
+        txb,
+        CONSTANTS.escrowContract.packageId,
+        { escrow: escrow.objectId, key: escrow.keyId!, locked: locked.objectId },
+        [escrowType, lockedType],
+      );
 
       txb.transferObjects([item], txb.pure.address(currentAccount.address));
 
       return executeTransaction(txb);
     },
 
-    onSuccess: () => {
-      setTimeout(() => {
-        queryClient.invalidateQueries({ queryKey: [QueryKey.Escrow] });
-      }, 1_000);
-    },
+    // The `Escrow` queries are invalidated by `useIndexerUpdates`
+    // once the indexer has picked up the change.
   });
 }
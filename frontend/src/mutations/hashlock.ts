@@ -2,15 +2,43 @@
 // SPDX-License-Identifier: Apache-2.0
 import { CONSTANTS, QueryKey } from "@/constants";
 import { useTransactionExecution } from "@/hooks/useTransactionExecution";
-import { ApiEscrowObject, ApiLockedObject, HashlockEscrowParams, RevealSecretParams } from "@/types/types";
+import { checkNewSecret } from "@/utils/secret";
+import { SecretVault, useSecretVault } from "@/hooks/useSecretVault";
+import { ApiEscrowObject, ApiLockedObject, HashlockEscrowParams, LockedSummary, RevealSecretParams } from "@/types/types";
 import { useCurrentAccount } from "@mysten/dapp-kit";
-import { SuiObjectData } from "@mysten/sui/client";
+import {
+  SuiObjectData,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useSuiClient } from "@mysten/dapp-kit";
-import { keccak256 } from 'js-sha3';
-
+import {
+  hashlock as hashlockModule,
+  hashlockShared,
+  EncodedSecret,
+  hashSecret,
+  secretToBytes,
+  verifySecret,
+} from "@escrow/sdk";
 
+/**
+ * Records the object created with a secret saved in the vault (matched by `objectType`),
+ * so the secret can be found by the object's ID.
+ */
+const recordCreatedObject = async (
+  vault: SecretVault,
+  hashCommitment: string,
+  res: SuiTransactionBlockResponse | void,
+  objectType: string,
+) => {
+  const created = res?.objectChanges?.find(
+    (change) =>
+      change.type === "created" && change.objectType.startsWith(objectType),
+  );
+  if (created?.type === "created")
+    await vault.setObjectId(hashCommitment, created.objectId);
+};
 
 /**
  * Builds and executes the PTB to create a hashlock escrow.
@@ -18,6 +46,7 @@ import { keccak256 } from 'js-sha3';
 export function useCreateHashlockEscrowMutation() {
   const currentAccount = useCurrentAccount();
   const executeTransaction = useTransactionExecution();
+  const vault = useSecretVault();
 
   return useMutation({
     mutationFn: async ({
@@ -27,17 +56,16 @@ export function useCreateHashlockEscrowMutation() {
       timeoutHours,
     }: {
       object: SuiObjectData;
-      locked: ApiLockedObject;
-      secret: string;
+      locked: LockedSummary;
+      secret: EncodedSecret;
       timeoutHours: number;
     }) => {
-      console.log("Starting create hashlock escrow mutation:", { object, locked, secret, timeoutHours });
-      
+      console.log("Starting create hashlock escrow mutation:", { object, locked, timeoutHours });
+
       if (!currentAccount?.address)
         throw new Error("You need to connect your wallet!");
 
-      if (!secret || secret.length < 8)
-        throw new Error("Secret must be at least 8 characters long!");
+      checkNewSecret(secret);
 
       // Determine the exchange key based on the locked object type
       // For Locked objects (lock module): use keyId
@@ -53,37 +81,42 @@ export function useCreateHashlockEscrowMutation() {
         console.log("Using objectId as exchange key (Hashlocked object):", exchangeKey);
       }
 
-      // Convert secret to hash commitment using keccak256 (same as Move contract)
-      const encoder = new TextEncoder();
-      const secretBytes = encoder.encode(secret);
-      const hashHex = keccak256(secretBytes);
-      
-      // Convert hex string to byte array without using Buffer
-      const hashArray = [];
-      for (let i = 0; i < hashHex.length; i += 2) {
-        hashArray.push(parseInt(hashHex.substr(i, 2), 16));
-      }
+      // Hash commitment using keccak256 (same as Move contract)
+      const hashCommitment = hashSecret(secret);
 
-      console.log("Hash commitment:", { secret, hashHex, hashArray });
+      console.log("Hash commitment:", hashCommitment);
 
       const timeoutMs = timeoutHours * 60 * 60 * 1000; // Convert hours to milliseconds
 
       const txb = new Transaction();
-      txb.moveCall({
-        target: `${CONSTANTS.escrowContract.packageId}::hashlock_shared::create_hashlock_escrow_with_duration`,
-        arguments: [
-          txb.object(object.objectId!),
-          txb.pure.id(exchangeKey),
-          txb.pure.address(locked.creator!),
-          txb.pure.vector('u8', hashArray),
-          txb.pure.u64(timeoutMs),
-          txb.object('0x6'), // Clock object
-        ],
-        typeArguments: [object.type!],
+      hashlockShared.createHashlockEscrowWithDuration(
+        txb,
+        CONSTANTS.escrowContract.packageId,
+        {
+          escrowed: object.objectId,
+          exchangeKey,
+          recipient: locked.creator!,
+          hashCommitment,
+          timeoutDuration: timeoutMs,
+        },
+        object.type!,
+      );
+
+      // Saved before executing, so the secret is never lost
+      const savedCommitment = await vault.save({
+        secret,
+        kind: "hashlock_escrow",
       });
 
       console.log("Executing create hashlock escrow transaction...");
-      return executeTransaction(txb);
+      const res = await executeTransaction(txb);
+      await recordCreatedObject(
+        vault,
+        savedCommitment,
+        res,
+        CONSTANTS.escrowContract.hashlockEscrowType,
+      );
+      return res;
     },
     onSuccess: (data) => {
       console.log("Create hashlock escrow mutation succeeded:", data);
@@ -111,15 +144,15 @@ export function useRevealSecretMutation() {
     }: {
       escrow: ApiEscrowObject;
       locked: ApiLockedObject;
-      secret: string;
+      secret: EncodedSecret;
     }) => {
-      console.log("Starting reveal secret mutation:", { escrow, locked, secret });
+      console.log("Starting reveal secret mutation:", { escrow, locked });
       console.log("Stored hash commitment:", escrow.hashCommitment);
       
       if (!currentAccount?.address)
         throw new Error("You need to connect your wallet!");
 
-      if (!secret)
+      if (!secret.value)
         throw new Error("Secret is required!");
 
       if (!escrow.hashCommitment) {
@@ -127,19 +160,7 @@ export function useRevealSecretMutation() {
       }
 
       // Verify secret matches using keccak256 (same as Move contract)
-      const encoder = new TextEncoder();
-      const secretBytes = encoder.encode(secret);
-      
-      // Calculate keccak256 hash
-      const keccak256Hex = keccak256(secretBytes);
-
-      console.log("Hash comparison:", { 
-        storedHash: escrow.hashCommitment,
-        keccak256Hash: keccak256Hex,
-        keccak256Matches: keccak256Hex === escrow.hashCommitment
-      });
-
-      if (keccak256Hex !== escrow.hashCommitment) {
+      if (!verifySecret(secret, escrow.hashCommitment)) {
         throw new Error(`Invalid secret! The keccak256 hash doesn't match the stored commitment.`);
       }
 
@@ -148,7 +169,7 @@ export function useRevealSecretMutation() {
       // Get the actual types of the objects and the locked object wrapper type
       console.log("Fetching object types for:", [escrow.itemId, locked.itemId, locked.objectId]);
       
-      const objectsToFetch = [escrow.itemId, locked.itemId, locked.objectId];
+      const objectsToFetch = [escrow.itemId!, locked.itemId!, locked.objectId];
       const fetchedObjects = await client.multiGetObjects({
         ids: objectsToFetch,
         options: {
@@ -199,7 +220,7 @@ export function useRevealSecretMutation() {
         throw new Error("Failed to fetch object types.");
       }
 
-      const secretArray = Array.from(secretBytes);
+      const secretBytes = secretToBytes(secret);
       const txb = new Transaction();
 
       // Check if the locked object is a Hashlocked or a Locked object
@@ -211,30 +232,30 @@ export function useRevealSecretMutation() {
       if (isHashlocked) {
         // Use hashlock-to-hashlock swap function
         console.log("Building transaction with hashlock_shared::swap_hashlock_for_hashlock");
-        result = txb.moveCall({
-          target: `${CONSTANTS.escrowContract.packageId}::hashlock_shared::swap_hashlock_for_hashlock`,
-          arguments: [
-            txb.object(escrow.objectId),
-            txb.object(locked.objectId),
-            txb.pure.vector('u8', secretArray),
-            txb.object('0x6'), // Clock object
-          ],
-          typeArguments: [escrowType, lockedType],
-        });
+        result = hashlockShared.swapHashlockForHashlock(
+          txb,
+          CONSTANTS.escrowContract.packageId,
+          {
+            escrow: escrow.objectId,
+            hashlocked: locked.objectId,
+            secret: secretBytes,
+          },
+          [escrowType, lockedType],
+        );
       } else {
         // Use regular escrow swap function for Locked objects
         console.log("Building transaction with hashlock_shared::swap_with_secret");
-        result = txb.moveCall({
-          target: `${CONSTANTS.escrowContract.packageId}::hashlock_shared::swap_with_secret`,
-          arguments: [
-            txb.object(escrow.objectId),
-            txb.object(escrow.keyId),
-            txb.object(locked.objectId),
-            txb.pure.vector('u8', secretArray),
-            txb.object('0x6'), // Clock object
-          ],
-          typeArguments: [escrowType, lockedType],
-        });
+        result = hashlockShared.swapWithSecret(
+          txb,
+          CONSTANTS.escrowContract.packageId,
+          {
+            escrow: escrow.objectId,
+            key: escrow.keyId!,
+            locked: locked.objectId,
+            secret: secretBytes,
+          },
+          [escrowType, lockedType],
+        );
       }
 
       txb.transferObjects([result], txb.pure.address(currentAccount.address));
@@ -259,7 +280,7 @@ export function useRevealSecretMutation() {
 export function useCreateHashlockMutation() {
   const currentAccount = useCurrentAccount();
   const executeTransaction = useTransactionExecution();
-
+  const vault = useSecretVault();
 
   return useMutation({
     mutationFn: async ({
@@ -270,45 +291,44 @@ export function useCreateHashlockMutation() {
     }: {
       object: SuiObjectData;
       recipient: string;
-      secret: string;
+      secret: EncodedSecret;
       timeoutHours: number;
     }) => {
       if (!currentAccount?.address)
         throw new Error("You need to connect your wallet!");
 
-      if (!secret || secret.length < 8)
-        throw new Error("Secret must be at least 8 characters long!");
-
-      // Convert secret to hash commitment using keccak256 (same as Move contract)
-      const encoder = new TextEncoder();
-      const secretBytes = encoder.encode(secret);
-      const hashHex = keccak256(secretBytes);
-      
-      // Convert hex string to byte array
-      const hashArray = [];
-      for (let i = 0; i < hashHex.length; i += 2) {
-        hashArray.push(parseInt(hashHex.substr(i, 2), 16));
-      }
+      checkNewSecret(secret);
 
       const timeoutMs = timeoutHours * 60 * 60 * 1000; // Convert hours to milliseconds
 
       const txb = new Transaction();
-      const hashlock = txb.moveCall({
-        target: `${CONSTANTS.escrowContract.packageId}::hashlock::create_hashlock_with_duration`,
-        arguments: [
-          txb.object(object.objectId!),
-          txb.pure.vector('u8', hashArray),
-          txb.pure.address(recipient),
-          txb.pure.u64(timeoutMs),
-          txb.object('0x6'), // Clock object
-        ],
-        typeArguments: [object.type!],
-      });
+      const hashlock = hashlockModule.createHashlockWithDuration(
+        txb,
+        CONSTANTS.escrowContract.packageId,
+        {
+          obj: object.objectId,
+          // Hash commitment using keccak256 (same as Move contract)
+          hashCommitment: hashSecret(secret),
+          recipient,
+          timeoutDuration: timeoutMs,
+        },
+        object.type!,
+      );
 
 
       txb.transferObjects([hashlock], txb.pure.address(currentAccount.address));
 
-      return executeTransaction(txb);
+      // Saved before executing, so the secret is never lost
+      const savedCommitment = await vault.save({ secret, kind: "hashlock" });
+
+      const res = await executeTransaction(txb);
+      await recordCreatedObject(
+        vault,
+        savedCommitment,
+        res,
+        CONSTANTS.escrowContract.hashlockType,
+      );
+      return res;
     },
   });
 }
@@ -328,28 +348,21 @@ export function useClaimHashlockMutation() {
     }: {
       hashlockId: string;
       hashlockType: string;
-      secret: string;
+      secret: EncodedSecret;
     }) => {
       if (!currentAccount?.address)
         throw new Error("You need to connect your wallet!");
 
-      if (!secret)
+      if (!secret.value)
         throw new Error("Secret is required!");
 
-      const encoder = new TextEncoder();
-      const secretBytes = encoder.encode(secret);
-      const secretArray = Array.from(secretBytes);
-
       const txb = new Transaction();
-      const result = txb.moveCall({
-        target: `${CONSTANTS.escrowContract.packageId}::hashlock::claim_with_secret`,
-        arguments: [
-          txb.object(hashlockId),
-          txb.pure.vector('u8', secretArray),
-          txb.object('0x6'), // Clock object
-        ],
-        typeArguments: [hashlockType],
-      });
+      const result = hashlockModule.claimWithSecret(
+        txb,
+        CONSTANTS.escrowContract.packageId,
+        { hashlock: hashlockId, secret: secretToBytes(secret) },
+        hashlockType,
+      );
 
       txb.transferObjects([result], txb.pure.address(currentAccount.address));
 
@@ -377,14 +390,12 @@ export function useReclaimHashlockMutation() {
         throw new Error("You need to connect your wallet!");
 
       const txb = new Transaction();
-      const result = txb.moveCall({
-        target: `${CONSTANTS.escrowContract.packageId}::hashlock::reclaim_after_timeout`,
-        arguments: [
-          txb.object(hashlockId),
-          txb.object('0x6'), // Clock object
-        ],
-        typeArguments: [hashlockType],
-      });
+      const result = hashlockModule.reclaimAfterTimeout(
+        txb,
+        CONSTANTS.escrowContract.packageId,
+        { hashlock: hashlockId },
+        hashlockType,
+      );
 
       txb.transferObjects([result], txb.pure.address(currentAccount.address));
 
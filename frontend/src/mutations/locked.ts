@@ -1,12 +1,13 @@
 // Copyright (c) Mysten Labs, Inc.
 // SPDX-License-Identifier: Apache-2.0
 
-import { CONSTANTS, QueryKey } from "@/constants";
+import { CONSTANTS } from "@/constants";
 import { useTransactionExecution } from "@/hooks/useTransactionExecution";
+import { lock } from "@escrow/sdk";
 import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
 import { SuiObjectData } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import toast from "react-hot-toast";
 
 //docs::#mutationlock
@@ -23,14 +24,12 @@ export function useLockObjectMutation() {
         throw new Error("You need to connect your wallet!");
       const txb = new Transaction();
 
-      const [locked, key] = txb.moveCall({
-        target: `${CONSTANTS.escrowContract.packageId}::lock::lock`,
-        arguments: [
-          txb.object(object.objectId),
-          txb.object('0x6'), // Clock object
-        ],
-        typeArguments: [object.type!],
-      });
+      const [locked, key] = lock.lock(
+        txb,
+        CONSTANTS.escrowContract.packageId,
+        { obj: object.objectId },
+        object.type!,
+      );
 
       txb.transferObjects([locked, key], txb.pure.address(account.address));
 
@@ -48,7 +47,6 @@ export function useUnlockMutation() {
   const account = useCurrentAccount();
   const executeTransaction = useTransactionExecution();
   const client = useSuiClient();
-  const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({
@@ -81,29 +79,19 @@ export function useUnlockMutation() {
 
       const txb = new Transaction();
 
-      const item = txb.moveCall({
-        target: `${CONSTANTS.escrowContract.packageId}::lock::break_timelock`,
-        typeArguments: [suiObject.type!],
-        arguments: [
-          txb.object(lockedId), 
-          txb.object('0x6'), // Clock object
-        ],
-      });
+      const item = lock.breakTimelock(
+        txb,
+        CONSTANTS.escrowContract.packageId,
+        { locked: lockedId },
+        suiObject.type!,
+      );
 
       txb.transferObjects([item], txb.pure.address(account.address));
 
       return executeTransaction(txb);
     },
-    onSuccess: () => {
-      setTimeout(() => {
-        // invalidating the queries after a small latency
-        // because the indexer works in intervals of 1s.
-        // if we invalidate too early, we might not get the latest state.
-        queryClient.invalidateQueries({
-          queryKey: [QueryKey.Locked],
-        });
-      }, 1_000);
-    },
+    // The `Locked` queries are invalidated by `useIndexerUpdates`
+    // once the indexer has picked up the unlock.
   });
 }
 //docs::/#mutationunlock
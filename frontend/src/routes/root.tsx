@@ -5,15 +5,24 @@ import { Toaster } from "react-hot-toast";
 import { Outlet } from "react-router-dom";
 import { Header } from "../components/Header";
 import { Container } from "@radix-ui/themes";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useIndexerUpdates } from "@/hooks/useIndexerUpdates";
+import { SecretVaultProvider } from "@/components/vault/SecretVaultProvider";
 
 export function Root() {
+  const account = useCurrentAccount();
+  // Refresh escrows & locked objects as soon as the indexer picks up changes.
+  useIndexerUpdates({ address: account?.address });
+
   return (
-    <div>
-      <Toaster position="bottom-center" />
-      <Header />
-      <Container py="8">
-        <Outlet />
-      </Container>
-    </div>
+    <SecretVaultProvider>
+      <div>
+        <Toaster position="bottom-center" />
+        <Header />
+        <Container py="8">
+          <Outlet />
+        </Container>
+      </div>
+    </SecretVaultProvider>
   );
 }
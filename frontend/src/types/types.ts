@@ -1,57 +1,54 @@
 // Copyright (c) Mysten Labs, Inc.
 // SPDX-License-Identifier: Apache-2.0
-export type ApiLockedObject = {
-  id?: string;
-  objectId: string;
-  keyId: string;
-  creator?: string;
-  itemId: string;
-  deleted: boolean;
-};
+import {
+  ApiEscrow,
+  ApiLocked,
+  EncodedSecret,
+  EscrowsQuery,
+  LockedQuery,
+} from "@escrow/sdk";
+
+/** The API objects, as defined by the API's schemas (`api/sdk/schemas.ts`). */
+export type ApiLockedObject = ApiLocked;
+export type ApiEscrowObject = ApiEscrow;
+
+/**
+ * The fields of a locked object that can be read from its on-chain state,
+ * so components can render objects the API hasn't indexed (or has stale data for).
+ */
+export type LockedSummary = Pick<
+  ApiLockedObject,
+  "objectId" | "itemId" | "keyId" | "creator" | "deleted"
+>;
 
-export type ApiEscrowObject = {
-  id: string;
+export type EscrowModule = NonNullable<ApiEscrow["module"]>;
+
+export type ApiChangeNotification = {
+  id: number;
+  table: "escrow" | "locked";
   objectId: string;
-  sender: string;
-  recipient: string;
-  keyId: string;
-  itemId: string;
-  swapped: boolean;
-  cancelled: boolean;
-  isHashlock?: boolean;
-  hashCommitment?: string;
-  timeoutMs?: string;
-  secretRevealed?: string;
+  module: string;
+  type: string;
+  txDigest: string;
+  addresses: string[];
 };
 
-export type EscrowListingQuery = {
-  escrowId?: string;
-  sender?: string;
-  recipient?: string;
-  cancelled?: string;
-  swapped?: string;
-  isHashlock?: string;
-  limit?: string;
-};
+export type EscrowListingQuery = EscrowsQuery;
 
 export type HashlockEscrowParams = {
   objectId: string;
   objectType: string;
   exchangeKeyId: string;
   recipient: string;
-  secret: string;
+  secret: EncodedSecret;
   timeoutMs: number;
 };
 
 export type RevealSecretParams = {
   escrowId: string;
-  secret: string;
+  secret: EncodedSecret;
   lockedObjectId: string;
   keyId: string;
 };
 
-export type LockedListingQuery = {
-  deleted?: string;
-  keyId?: string;
-  limit?: string;
-};
+export type LockedListingQuery = LockedQuery;
@@ -0,0 +1,8 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { CONSTANTS } from "@/constants";
+import { createEscrowApiClient } from "@escrow/sdk";
+
+/** The typed client for the indexer API. */
+export const apiClient = createEscrowApiClient(CONSTANTS.apiEndpoint);
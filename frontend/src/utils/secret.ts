@@ -0,0 +1,25 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+import { EncodedSecret, validateSecret } from "@escrow/sdk";
+
+/** Text secrets are passphrases, hex secrets are random bytes (see `generateSecret`). */
+export const MIN_TEXT_SECRET_LENGTH = 8;
+
+export const EMPTY_SECRET: EncodedSecret = { value: "", encoding: "utf8" };
+
+/** Why `secret` can't be used for a new hashlock, if it can't. */
+export const newSecretError = (secret: EncodedSecret) => {
+  const error = validateSecret(secret);
+  if (error) return error;
+  if (
+    secret.encoding === "utf8" &&
+    secret.value.length < MIN_TEXT_SECRET_LENGTH
+  )
+    return `Text secrets must be at least ${MIN_TEXT_SECRET_LENGTH} characters long`;
+};
+
+/** Throws if `secret` can't be used for a new hashlock. */
+export const checkNewSecret = (secret: EncodedSecret) => {
+  const error = newSecretError(secret);
+  if (error) throw new Error(`${error}!`);
+};
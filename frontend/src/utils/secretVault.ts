@@ -0,0 +1,356 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { EncodedSecret, hashSecretHex, SecretEncoding } from "@escrow/sdk";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+
+/**
+ * An encrypted store for hashlock secrets, kept in IndexedDB.
+ *
+ * Secrets are encrypted with AES-GCM, using a key derived either from a passphrase (PBKDF2)
+ * or from a wallet signature (HKDF). The key only lives in memory while the vault is unlocked.
+ * Secrets are keyed by their hash commitment, so they can be found for any escrow or hashlock
+ * using the same commitment, and by the ID of the object they were created for.
+ */
+
+const DB_NAME = "escrow-secret-vault";
+const DB_VERSION = 1;
+const META_STORE = "meta";
+const SECRETS_STORE = "secrets";
+const META_KEY = "vault";
+
+const PBKDF2_ITERATIONS = 310_000;
+const BACKUP_VERSION = 1;
+
+/** The message signed to derive the key of wallet vaults. */
+export const VAULT_SIGNATURE_MESSAGE =
+  "Unlock my escrow secret vault.\n\nOnly sign this message on the escrow app.";
+
+export type VaultKeySource = "passphrase" | "wallet";
+
+type EncryptedValue = { iv: string; ciphertext: string };
+
+type VaultMeta = {
+  source: VaultKeySource;
+  salt: string;
+  // The wallet whose signature derives the key (`wallet` vaults only)
+  address?: string;
+  // A known value, encrypted with the vault key, to check the key on unlock
+  check: EncryptedValue;
+};
+
+type StoredSecret = {
+  hashCommitment: string;
+  objectId?: string;
+  kind: SecretKind;
+  createdAt: number;
+  encoding: SecretEncoding;
+  secret: EncryptedValue;
+};
+
+export type SecretKind = "hashlock" | "hashlock_escrow";
+
+export type VaultSecret = Omit<StoredSecret, "secret" | "encoding"> & {
+  secret: EncodedSecret;
+};
+
+/** An encrypted backup of the vault's secrets, which can be imported in any vault. */
+export type VaultBackup = {
+  version: number;
+  salt: string;
+  iterations: number;
+  data: EncryptedValue;
+};
+
+const CHECK_VALUE = "escrow-secret-vault";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDb = () => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore(META_STORE);
+    const secrets = req.result.createObjectStore(SECRETS_STORE, {
+      keyPath: "hashCommitment",
+    });
+    secrets.createIndex("objectId", "objectId", { unique: false });
+  };
+  return request(req);
+};
+
+const withStore = async <T>(
+  name: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const db = await openDb();
+  try {
+    return await request(fn(db.transaction(name, mode).objectStore(name)));
+  } finally {
+    db.close();
+  }
+};
+
+const randomBytes = (length: number) =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+const encrypt = async (key: CryptoKey, value: string) => {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    encoder.encode(value),
+  );
+  return {
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+const decrypt = async (key: CryptoKey, value: EncryptedValue) => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(value.iv) },
+    key,
+    fromBase64(value.ciphertext),
+  );
+  return decoder.decode(plaintext);
+};
+
+const derivePassphraseKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations = PBKDF2_ITERATIONS,
+) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+/**
+ * Wallets sign deterministically (the same message always gives the same signature),
+ * so the signature can be used as key material.
+ */
+const deriveSignatureKey = async (signature: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(signature),
+    "HKDF",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      salt,
+      info: encoder.encode(DB_NAME),
+      hash: "SHA-256",
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+const deriveKey = (meta: Pick<VaultMeta, "source" | "salt">, input: string) =>
+  meta.source === "passphrase"
+    ? derivePassphraseKey(input, fromBase64(meta.salt))
+    : deriveSignatureKey(input, fromBase64(meta.salt));
+
+export const getVaultMeta = () =>
+  withStore<VaultMeta | undefined>(META_STORE, "readonly", (store) =>
+    store.get(META_KEY),
+  );
+
+/**
+ * Creates the vault, with a key derived from `input` (the passphrase, or the wallet signature
+ * of `VAULT_SIGNATURE_MESSAGE`). Returns the key, so the vault starts unlocked.
+ */
+export const createVault = async (
+  source: VaultKeySource,
+  input: string,
+  address?: string,
+) => {
+  if (await getVaultMeta()) throw new Error("The vault already exists.");
+
+  const salt = toBase64(randomBytes(16));
+  const key = await deriveKey({ source, salt }, input);
+  const meta: VaultMeta = {
+    source,
+    salt,
+    address,
+    check: await encrypt(key, CHECK_VALUE),
+  };
+
+  await withStore(META_STORE, "readwrite", (store) =>
+    store.put(meta, META_KEY),
+  );
+  return key;
+};
+
+/** Derives the vault key from `input`, and checks it against the vault. */
+export const unlockVault = async (input: string) => {
+  const meta = await getVaultMeta();
+  if (!meta) throw new Error("The vault hasn't been created yet.");
+
+  const key = await deriveKey(meta, input);
+  try {
+    if ((await decrypt(key, meta.check)) === CHECK_VALUE) return key;
+  } catch (e) {
+    // A wrong key fails the AES-GCM authentication
+  }
+  throw new Error(
+    meta.source === "passphrase"
+      ? "Wrong passphrase."
+      : "This wallet can't unlock the vault.",
+  );
+};
+
+/** Encrypts & saves `secret`, replacing any secret with the same hash commitment. */
+export const saveSecret = async (
+  key: CryptoKey,
+  entry: Omit<VaultSecret, "hashCommitment" | "createdAt"> & {
+    createdAt?: number;
+  },
+) => {
+  const stored: StoredSecret = {
+    hashCommitment: hashSecretHex(entry.secret),
+    objectId: entry.objectId,
+    kind: entry.kind,
+    createdAt: entry.createdAt ?? Date.now(),
+    encoding: entry.secret.encoding,
+    secret: await encrypt(key, entry.secret.value),
+  };
+
+  await withStore(SECRETS_STORE, "readwrite", (store) => store.put(stored));
+  return stored.hashCommitment;
+};
+
+/** Records the object a saved secret was used for, once the transaction went through. */
+export const setSecretObjectId = async (
+  hashCommitment: string,
+  objectId: string,
+) => {
+  const stored = await withStore<StoredSecret | undefined>(
+    SECRETS_STORE,
+    "readonly",
+    (store) => store.get(hashCommitment),
+  );
+  if (!stored) return;
+
+  await withStore(SECRETS_STORE, "readwrite", (store) =>
+    store.put({ ...stored, objectId }),
+  );
+};
+
+const decryptEntry = async (
+  key: CryptoKey,
+  { encoding, ...stored }: StoredSecret,
+): Promise<VaultSecret> => ({
+  ...stored,
+  secret: { value: await decrypt(key, stored.secret), encoding },
+});
+
+/** Finds the secret of an escrow or hashlock, by its ID or its hash commitment (hex). */
+export const findSecret = async (
+  key: CryptoKey,
+  { objectId, hashCommitment }: { objectId?: string; hashCommitment?: string },
+) => {
+  const stored =
+    (hashCommitment
+      ? await withStore<StoredSecret | undefined>(
+          SECRETS_STORE,
+          "readonly",
+          (store) => store.get(hashCommitment.replace(/^0x/, "").toLowerCase()),
+        )
+      : undefined) ??
+    (objectId
+      ? await withStore<StoredSecret | undefined>(
+          SECRETS_STORE,
+          "readonly",
+          (store) => store.index("objectId").get(objectId),
+        )
+      : undefined);
+
+  return stored ? decryptEntry(key, stored) : undefined;
+};
+
+export const countSecrets = () =>
+  withStore(SECRETS_STORE, "readonly", (store) => store.count());
+
+/** Exports every secret, encrypted with `passphrase` (independently of the vault key). */
+export const exportSecrets = async (
+  key: CryptoKey,
+  passphrase: string,
+): Promise<VaultBackup> => {
+  const stored = await withStore<StoredSecret[]>(
+    SECRETS_STORE,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  const secrets = await Promise.all(
+    stored.map((entry) => decryptEntry(key, entry)),
+  );
+
+  const salt = randomBytes(16);
+  const backupKey = await derivePassphraseKey(passphrase, salt);
+
+  return {
+    version: BACKUP_VERSION,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    data: await encrypt(backupKey, JSON.stringify(secrets)),
+  };
+};
+
+/** Imports the secrets of a backup into the vault. Returns how many were imported. */
+export const importSecrets = async (
+  key: CryptoKey,
+  backup: VaultBackup,
+  passphrase: string,
+) => {
+  if (backup.version !== BACKUP_VERSION)
+    throw new Error("Unsupported backup version.");
+
+  const backupKey = await derivePassphraseKey(
+    passphrase,
+    fromBase64(backup.salt),
+    backup.iterations,
+  );
+
+  let secrets: VaultSecret[];
+  try {
+    secrets = JSON.parse(await decrypt(backupKey, backup.data));
+  } catch (e) {
+    throw new Error("Wrong backup passphrase.");
+  }
+
+  for (const entry of secrets) {
+    await saveSecret(key, entry);
+  }
+  return secrets.length;
+};
+
+/** Deletes the vault & all its secrets (e.g. after losing the passphrase). */
+export const deleteVault = async () => {
+  await withStore(SECRETS_STORE, "readwrite", (store) => store.clear());
+  await withStore(META_STORE, "readwrite", (store) => store.clear());
+};
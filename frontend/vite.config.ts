@@ -9,10 +9,16 @@ export default defineConfig({
   plugins: [react()],
   resolve: {
     alias: [
+      {
+        find: "@escrow/sdk",
+        replacement: resolve(__dirname, "../api/sdk"),
+      },
       {
         find: "@",
         replacement: resolve(__dirname, "src"),
       },
     ],
+    // The SDK lives in `api/`, make it use the frontend's copies of its dependencies.
+    dedupe: ["@mysten/sui", "js-sha3"],
   },
 });